@@ -1,19 +1,34 @@
 import { autoRefreshService, handleAutoRefreshMessage } from './services/autoRefreshService';
 import { webdavService } from './services/webdavService';
+import { notificationService } from './services/notificationService';
+import { checkInService } from './services/checkInService';
 
 // 管理临时窗口的 Map
 const tempWindows = new Map<string, number>()
 
-// 插件启动时初始化服务
+// 插件启动时初始化服务，并补执行浏览器关闭期间错过的刷新
 chrome.runtime.onStartup.addListener(async () => {
   console.log('[Background] 插件启动，初始化服务');
-  await autoRefreshService.initialize();
+  await autoRefreshService.initialize(true);
+  await checkInService.initialize(true);
 });
 
 // 插件安装时初始化服务
 chrome.runtime.onInstalled.addListener(async () => {
   console.log('[Background] 插件安装/更新，初始化服务');
   await autoRefreshService.initialize();
+  await checkInService.initialize();
+});
+
+// 定时任务触发时执行后台刷新和每日签到（Service Worker 会被自动唤醒）
+chrome.alarms.onAlarm.addListener((alarm) => {
+  autoRefreshService.handleAlarm(alarm);
+  checkInService.handleAlarm(alarm);
+});
+
+// 点击提醒通知时打开对应站点
+chrome.notifications.onClicked.addListener((notificationId) => {
+  notificationService.handleNotificationClick(notificationId);
 });
 
 // 处理来自 popup 的消息
@@ -217,12 +232,12 @@ async function handleWebdavMessage(request: any, sendResponse: Function) {
   try {
     switch (request.action) {
       case 'webdavBackup':
-        const backupResult = await webdavService.uploadBackup();
+        const backupResult = await webdavService.uploadBackup('手动备份', request.passphrase);
         sendResponse(backupResult);
         break;
       
       case 'webdavRestore':
-        const restoreResult = await webdavService.downloadBackup(request.filename);
+        const restoreResult = await webdavService.downloadBackup(request.filename, request.passphrase);
         sendResponse(restoreResult);
         break;
       
@@ -0,0 +1,125 @@
+import { useState, useEffect } from "react"
+import { MagnifyingGlassIcon, XMarkIcon } from "@heroicons/react/24/outline"
+import { HEALTH_STATUS_MAP } from "../constants/ui"
+import { getCurrencySymbol } from "../utils/formatters"
+import { isFilterActive, EMPTY_ACCOUNT_FILTER, type AccountFilter } from "../utils/accountFilter"
+import type { SiteHealthStatus } from "../types"
+
+interface AccountFilterBarProps {
+  filter: AccountFilter
+  tags: string[]
+  currencyType: 'USD' | 'CNY'
+  matchedCount: number // 满足筛选条件的账号数量
+  totalCount: number
+  onChange: (filter: AccountFilter) => void
+}
+
+const HEALTH_OPTIONS = Object.keys(HEALTH_STATUS_MAP) as SiteHealthStatus[]
+
+/**
+ * 账号列表的搜索和筛选栏
+ */
+export default function AccountFilterBar({ filter, tags, currencyType, matchedCount, totalCount, onChange }: AccountFilterBarProps) {
+  // 余额输入框单独维护文本，允许输入过程中的中间状态（如 "1."）
+  const [balanceInput, setBalanceInput] = useState(filter.maxBalance !== null ? String(filter.maxBalance) : "")
+
+  useEffect(() => {
+    const current = balanceInput.trim() === "" ? null : parseFloat(balanceInput)
+    if (current !== filter.maxBalance) {
+      setBalanceInput(filter.maxBalance !== null ? String(filter.maxBalance) : "")
+    }
+  }, [filter.maxBalance])
+
+  const update = (changes: Partial<AccountFilter>) => {
+    onChange({ ...filter, ...changes })
+  }
+
+  const handleBalanceChange = (value: string) => {
+    setBalanceInput(value)
+    const parsed = parseFloat(value)
+    update({ maxBalance: value.trim() === "" || isNaN(parsed) || parsed < 0 ? null : parsed })
+  }
+
+  return (
+    <div className="px-5 pt-3 pb-2 space-y-2">
+      <div className="relative">
+        <MagnifyingGlassIcon className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+        <input
+          type="text"
+          value={filter.query}
+          onChange={(e) => update({ query: e.target.value })}
+          placeholder="搜索站点、用户名、标签或备注..."
+          className="w-full pl-8 pr-3 py-1.5 text-xs border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </div>
+
+      <div className="flex items-center gap-1.5">
+        <select
+          value={filter.health ?? ""}
+          onChange={(e) => update({ health: (e.target.value || null) as SiteHealthStatus | null })}
+          className="px-1.5 py-1 text-xs border border-gray-200 rounded-md text-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="">全部状态</option>
+          {HEALTH_OPTIONS.map(status => (
+            <option key={status} value={status}>{HEALTH_STATUS_MAP[status].text}</option>
+          ))}
+        </select>
+        <div className="flex items-center border border-gray-200 rounded-md focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-transparent">
+          <span className="pl-1.5 text-xs text-gray-400 whitespace-nowrap">余额 &lt; {getCurrencySymbol(currencyType)}</span>
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={balanceInput}
+            onChange={(e) => handleBalanceChange(e.target.value)}
+            placeholder="不限"
+            className="w-14 px-1 py-1 text-xs bg-transparent focus:outline-none"
+          />
+        </div>
+        <button
+          onClick={() => update({ hasConsumption: !filter.hasConsumption })}
+          className={`px-2 py-1 text-xs rounded-md border whitespace-nowrap transition-colors ${
+            filter.hasConsumption
+              ? 'bg-blue-500 text-white border-blue-500'
+              : 'text-gray-600 border-gray-200 hover:bg-gray-50'
+          }`}
+        >
+          今日有消耗
+        </button>
+        {isFilterActive(filter) && (
+          <button
+            onClick={() => onChange(EMPTY_ACCOUNT_FILTER)}
+            className="ml-auto p-1 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-md transition-colors"
+            title="清除筛选"
+          >
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {[null, ...tags].map(tag => (
+            <button
+              key={tag ?? 'all'}
+              onClick={() => update({ tag })}
+              className={`px-2 py-0.5 text-xs rounded-full border transition-colors ${
+                filter.tag === tag
+                  ? 'bg-blue-500 text-white border-blue-500'
+                  : 'text-gray-600 border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              {tag ?? '全部'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isFilterActive(filter) && (
+        <p className="text-[11px] text-gray-400">
+          已筛选 {matchedCount}/{totalCount} 个账号，顶部合计仅统计筛选结果
+        </p>
+      )}
+    </div>
+  )
+}
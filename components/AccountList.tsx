@@ -1,15 +1,23 @@
-import { ChevronUpIcon, ChevronDownIcon, ChartBarIcon, CpuChipIcon, EllipsisHorizontalIcon, DocumentDuplicateIcon, ChartPieIcon, PencilIcon, TrashIcon, ArrowPathIcon, InboxIcon, KeyIcon } from "@heroicons/react/24/outline"
+import { ChevronUpIcon, ChevronDownIcon, ChevronRightIcon, UsersIcon, ChartBarIcon, CpuChipIcon, EllipsisHorizontalIcon, DocumentDuplicateIcon, ChartPieIcon, PencilIcon, TrashIcon, ArrowPathIcon, InboxIcon, KeyIcon, ExclamationTriangleIcon, GiftIcon, DocumentTextIcon, BookmarkIcon, BookmarkSlashIcon } from "@heroicons/react/24/outline"
+import { BookmarkIcon as BookmarkSolidIcon } from "@heroicons/react/24/solid"
 import { Menu, MenuButton, MenuItems, MenuItem } from '@headlessui/react'
 import CountUp from "react-countup"
 import { UI_CONSTANTS, HEALTH_STATUS_MAP } from "../constants/ui"
 import { getCurrencySymbol } from "../utils/formatters"
+import { REFRESH_MODE_LABELS } from "../utils/refreshPolicy"
+import { getSiteProductLabel } from "../services/siteAdapters"
+import { groupSitesByUrl } from "../utils/accountGrouping"
+import { collectTags, filterSites, isFilterActive, EMPTY_ACCOUNT_FILTER, type AccountFilter } from "../utils/accountFilter"
+import { useDragSort } from "../hooks/useDragSort"
 import type { DisplaySiteData } from "../types"
-import { useState, useCallback, useRef, useEffect } from 'react'
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react'
 import Tooltip from './Tooltip'
 import DelAccountDialog from './DelAccountDialog'
 import CopyKeyDialog from './CopyKeyDialog'
+import RedeemCodeDialog from './RedeemCodeDialog'
+import AccountFilterBar from './AccountFilterBar'
 
-type SortField = 'name' | 'balance' | 'consumption'
+type SortField = 'name' | 'balance' | 'consumption' | 'manual'
 type SortOrder = 'asc' | 'desc'
 
 interface AccountListProps {
@@ -20,6 +28,9 @@ interface AccountListProps {
   // 排序状态
   sortField: SortField
   sortOrder: SortOrder
+
+  // 筛选条件
+  filter: AccountFilter
   
   // 动画相关
   isInitialLoad: boolean
@@ -30,6 +41,7 @@ interface AccountListProps {
   
   // 事件处理
   onSort: (field: SortField) => void
+  onFilterChange: (filter: AccountFilter) => void
   onAddAccount: () => void
   onRefreshAccount?: (site: DisplaySiteData) => Promise<void>
   onCopyUrl?: (site: DisplaySiteData) => void
@@ -38,6 +50,9 @@ interface AccountListProps {
   onEditAccount?: (site: DisplaySiteData) => void
   onDeleteAccount?: (site: DisplaySiteData) => void
   onViewKeys?: (site: DisplaySiteData) => void
+  onRedeemed?: (site: DisplaySiteData) => void
+  onTogglePin?: (site: DisplaySiteData) => void
+  onReorder?: (orderedIds: string[]) => void // 手动排序模式下拖动调整顺序
 }
 
 export default function AccountList({
@@ -45,10 +60,12 @@ export default function AccountList({
   currencyType,
   sortField,
   sortOrder,
+  filter,
   isInitialLoad,
   prevBalances,
   refreshingAccountId,
   onSort,
+  onFilterChange,
   onAddAccount,
   onRefreshAccount,
   onCopyUrl,
@@ -56,12 +73,50 @@ export default function AccountList({
   onViewModels,
   onEditAccount,
   onDeleteAccount,
-  onViewKeys
+  onViewKeys,
+  onRedeemed,
+  onTogglePin,
+  onReorder
 }: AccountListProps) {
   const [hoveredSiteId, setHoveredSiteId] = useState<string | null>(null)
   const hoverTimeoutRef = useRef<NodeJS.Timeout | null>(null)
   const [deleteDialogAccount, setDeleteDialogAccount] = useState<DisplaySiteData | null>(null)
   const [copyKeyDialogAccount, setCopyKeyDialogAccount] = useState<DisplaySiteData | null>(null)
+  const [redeemDialogAccount, setRedeemDialogAccount] = useState<DisplaySiteData | null>(null)
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set())
+
+  // 按筛选条件过滤后，同一站点的多个用户归为一组，沿用外部排序结果
+  const allTags = useMemo(() => collectTags(sites), [sites])
+  const filteredSites = useMemo(() => filterSites(sites, filter, currencyType), [sites, filter, currencyType])
+  const groups = useMemo(() => groupSitesByUrl(filteredSites), [filteredSites])
+
+  // 手动排序模式下允许在置顶或未置顶分段内拖动，只调整该分段的顺序，筛选隐藏的账号位置不变
+  const siteIds = useMemo(() => sites.map(site => site.id), [sites])
+  const pinnedIds = useMemo(() => new Set(sites.filter(site => site.pinned).map(site => site.id)), [sites])
+  const getPinGroup = useCallback((id: string) => pinnedIds.has(id) ? 'pinned' : 'normal', [pinnedIds])
+  const handleReorder = useCallback((orderedIds: string[]) => onReorder?.(orderedIds), [onReorder])
+  const isDragEnabled = sortField === 'manual' && !!onReorder
+  const { draggingId, overId, getDragProps } = useDragSort(siteIds, handleReorder, isDragEnabled, getPinGroup)
+
+  // 标签被删除后清除对应的筛选
+  useEffect(() => {
+    if (sites.length > 0 && filter.tag && !allTags.includes(filter.tag)) {
+      onFilterChange({ ...filter, tag: null })
+    }
+  }, [sites.length, allTags, filter, onFilterChange])
+
+  // 展开 / 折叠站点分组
+  const toggleGroup = useCallback((key: string) => {
+    setCollapsedGroups(prev => {
+      const next = new Set(prev)
+      if (next.has(key)) {
+        next.delete(key)
+      } else {
+        next.add(key)
+      }
+      return next
+    })
+  }, [])
 
   // 防抖的 hover 处理
   const handleMouseEnter = useCallback((siteId: string) => {
@@ -117,6 +172,15 @@ export default function AccountList({
       }
     }
   }
+
+  // 根据今日预算使用情况高亮账号行
+  const getBudgetRowClass = (site: DisplaySiteData) => {
+    if (site.budgetUsage === undefined) return ''
+    if (site.budgetUsage >= UI_CONSTANTS.BUDGET.EXCEEDED_PERCENT) return 'bg-red-50'
+    if (site.budgetUsage >= UI_CONSTANTS.BUDGET.WARNING_PERCENT) return 'bg-amber-50'
+    return ''
+  }
+
   if (sites.length === 0) {
     return (
       <div className="px-6 py-12 text-center">
@@ -137,8 +201,8 @@ export default function AccountList({
       onClick={() => onSort(field)}
       className="flex items-center space-x-1 text-xs font-medium text-gray-500 hover:text-gray-700 transition-colors"
     >
-      <span>{label}</span>
-      {sortField === field && (
+      <span className={sortField === field && field === 'manual' ? 'text-blue-500' : ''}>{label}</span>
+      {sortField === field && field !== 'manual' && (
         sortOrder === 'asc' ? 
           <ChevronUpIcon className="w-3 h-3" /> : 
           <ChevronDownIcon className="w-3 h-3" />
@@ -146,13 +210,264 @@ export default function AccountList({
     </button>
   )
 
+  // 渲染单个账号行，分组内的账号缩进显示
+  const renderSiteRow = (site: DisplaySiteData, isNested = false) => (
+    <div 
+      key={site.id} 
+      {...getDragProps(site.id)}
+      className={`${isNested ? 'pl-11 pr-5' : 'px-5'} py-4 border-b border-gray-50 hover:bg-gray-25 transition-colors relative group ${getBudgetRowClass(site)} ${
+        isDragEnabled ? 'cursor-move' : ''
+      } ${draggingId === site.id ? 'opacity-50' : ''} ${
+        overId === site.id && draggingId !== site.id ? 'border-t-2 border-t-blue-400' : ''
+      }`}
+      onMouseEnter={() => handleMouseEnter(site.id)}
+      onMouseLeave={handleMouseLeave}
+    >
+      <div className="flex items-center space-x-4">
+        {/* 站点信息 */}
+        <div className="flex items-center space-x-3 flex-1 min-w-0">
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center space-x-2 mb-0.5">
+              {/* 站点状态指示器 */}
+              <div className={`w-2 h-2 rounded-full flex-shrink-0 ${
+                HEALTH_STATUS_MAP[site.healthStatus]?.color || UI_CONSTANTS.STYLES.STATUS_INDICATOR.UNKNOWN
+              }`}></div>
+              <div className="font-medium text-gray-900 text-sm truncate">{site.name}</div>
+              {site.pinned && (
+                <BookmarkSolidIcon className="w-3 h-3 text-blue-500 flex-shrink-0" title="已置顶" />
+              )}
+              {(site.refreshMode === 'manual' || site.refreshMode === 'paused') && (
+                <span className="px-1.5 py-0.5 text-[10px] leading-none text-gray-500 bg-gray-100 rounded flex-shrink-0">
+                  {REFRESH_MODE_LABELS[site.refreshMode]}
+                </span>
+              )}
+              {site.notes && (
+                <Tooltip content={<span className="whitespace-pre-wrap">{site.notes}</span>} position="top">
+                  <DocumentTextIcon className="w-3.5 h-3.5 text-gray-400 flex-shrink-0" />
+                </Tooltip>
+              )}
+            </div>
+            <div className="text-xs text-gray-500 truncate ml-4">
+              {site.username}
+              {site.siteFingerprint && (
+                <span
+                  className="text-gray-400"
+                  title={site.siteFingerprint.system_name ? `系统名称：${site.siteFingerprint.system_name}` : undefined}
+                >
+                  {' · '}{getSiteProductLabel(site.siteType, site.siteFingerprint)}
+                </span>
+              )}
+            </div>
+            {site.tags && site.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1 ml-4">
+                {site.tags.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => onFilterChange({ ...filter, tag })}
+                    className="px-1.5 py-0.5 text-[10px] leading-none text-blue-600 bg-blue-50 rounded hover:bg-blue-100 transition-colors"
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+        
+        {/* 按钮组 - 只在 hover 时显示 */}
+        {hoveredSiteId === site.id && (
+          <div className="flex items-center space-x-2 flex-shrink-0">
+            {/* 刷新按钮 */}
+            <Tooltip content="刷新账号" position="top">
+              <button
+                onClick={() => handleRefreshAccount(site)}
+                className="flex items-center justify-center w-8 h-8 rounded-full hover:bg-gray-100 transition-colors"
+                disabled={refreshingAccountId === site.id}
+              >
+                <ArrowPathIcon 
+                  className={`w-4 h-4 text-gray-500 ${
+                    refreshingAccountId === site.id ? 'animate-spin' : ''
+                  }`} 
+                />
+              </button>
+            </Tooltip>
+
+            {/* 复制下拉菜单 */}
+            <Menu as="div" className="relative">
+              <Tooltip content="复制" position="top">
+                <MenuButton className="flex items-center justify-center w-8 h-8 rounded-full hover:bg-gray-100 transition-colors">
+                  <DocumentDuplicateIcon className="w-4 h-4 text-gray-500" />
+                </MenuButton>
+              </Tooltip>
+              <MenuItems 
+                anchor="bottom end"
+                className="z-50 w-32 bg-white rounded-lg shadow-lg border border-gray-200 py-1 focus:outline-none [--anchor-gap:4px] [--anchor-padding:8px]"
+              >
+                <MenuItem>
+                  <button
+                    onClick={() => handleCopyUrl(site)}
+                    className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:text-gray-900 data-focus:bg-gray-50 flex items-center space-x-2"
+                  >
+                    <DocumentDuplicateIcon className="w-4 h-4" />
+                    <span>复制 URL</span>
+                  </button>
+                </MenuItem>
+                <MenuItem>
+                  <button
+                    onClick={() => handleCopyKey(site)}
+                    className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:text-gray-900 data-focus:bg-gray-50 flex items-center space-x-2"
+                  >
+                    <DocumentDuplicateIcon className="w-4 h-4" />
+                    <span>复制密钥</span>
+                  </button>
+                </MenuItem>
+                <hr />
+                <MenuItem>
+                  <button
+                    onClick={() => onViewKeys?.(site)}
+                    className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:text-gray-900 data-focus:bg-gray-50 flex items-center space-x-2"
+                  >
+                    <KeyIcon className="w-4 h-4" />
+                    <span>管理密钥</span>
+                  </button>
+                </MenuItem>
+              </MenuItems>
+            </Menu>
+
+            {/* 更多下拉菜单 */}
+            <Menu as="div" className="relative">
+                <MenuButton className="flex items-center justify-center w-8 h-8 rounded-full hover:bg-gray-100 transition-colors">
+                  <EllipsisHorizontalIcon className="w-4 h-4 text-gray-500" />
+                </MenuButton>
+              <MenuItems 
+                anchor="bottom end"
+                className="z-50 w-28 bg-white rounded-lg shadow-lg border border-gray-200 py-1 focus:outline-none [--anchor-gap:4px] [--anchor-padding:8px]"
+              >
+                <MenuItem>
+                  <button
+                    onClick={() => onViewModels?.(site)}
+                    className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:text-gray-900 data-focus:bg-gray-50 flex items-center space-x-2"
+                  >
+                    <CpuChipIcon className="w-4 h-4" />
+                    <span>模型</span>
+                  </button>
+                </MenuItem>
+                <MenuItem>
+                  <button
+                    onClick={() => onViewUsage?.(site)}
+                    className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:text-gray-900 data-focus:bg-gray-50 flex items-center space-x-2"
+                  >
+                    <ChartPieIcon className="w-4 h-4" />
+                    <span>用量</span>
+                  </button>
+                </MenuItem>
+                <MenuItem>
+                  <button
+                    onClick={() => setRedeemDialogAccount(site)}
+                    className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:text-gray-900 data-focus:bg-gray-50 flex items-center space-x-2"
+                  >
+                    <GiftIcon className="w-4 h-4" />
+                    <span>兑换</span>
+                  </button>
+                </MenuItem>
+                <hr />
+                <MenuItem>
+                  <button
+                    onClick={() => onTogglePin?.(site)}
+                    className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:text-gray-900 data-focus:bg-gray-50 flex items-center space-x-2"
+                  >
+                    {site.pinned ? <BookmarkSlashIcon className="w-4 h-4" /> : <BookmarkIcon className="w-4 h-4" />}
+                    <span>{site.pinned ? '取消置顶' : '置顶'}</span>
+                  </button>
+                </MenuItem>
+                <MenuItem>
+                  <button
+                    onClick={() => onEditAccount?.(site)}
+                    className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:text-gray-900 data-focus:bg-gray-50 flex items-center space-x-2"
+                  >
+                    <PencilIcon className="w-4 h-4" />
+                    <span>编辑</span>
+                  </button>
+                </MenuItem>
+                <MenuItem>
+                  <button
+                    onClick={() => setDeleteDialogAccount(site)}
+                    className="w-full px-3 py-2 text-left text-sm text-red-600 hover:text-red-700 data-focus:bg-red-50 flex items-center space-x-2"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                    <span>删除</span>
+                  </button>
+                </MenuItem>
+              </MenuItems>
+            </Menu>
+          </div>
+        )}
+        
+        {/* 余额和统计 */}
+        <div className="text-right flex-shrink-0">
+          <div className="font-semibold text-gray-900 text-lg mb-0.5">
+            {getCurrencySymbol(currencyType)}
+            <CountUp
+              start={isInitialLoad ? 0 : (prevBalances[site.id]?.[currencyType] || 0)}
+              end={site.balance[currencyType]}
+              duration={isInitialLoad ? UI_CONSTANTS.ANIMATION.SLOW_DURATION : UI_CONSTANTS.ANIMATION.FAST_DURATION}
+              decimals={2}
+              preserveValue
+            />
+          </div>
+          <div className={`text-xs flex items-center justify-end ${site.todayConsumption[currencyType] > 0 ? 'text-green-500' : 'text-gray-400'}`}>
+            {site.todayUsageTruncated && (
+              <Tooltip content="今日日志过多，已达到分页上限，消耗统计可能不完整" position="top">
+                <ExclamationTriangleIcon className="w-3 h-3 mr-1 text-amber-500" />
+              </Tooltip>
+            )}
+            -{getCurrencySymbol(currencyType)}
+            <CountUp
+              start={isInitialLoad ? 0 : 0}
+              end={site.todayConsumption[currencyType]}
+              duration={isInitialLoad ? UI_CONSTANTS.ANIMATION.SLOW_DURATION : UI_CONSTANTS.ANIMATION.FAST_DURATION}
+              decimals={2}
+              preserveValue
+            />
+          </div>
+          {site.budgetUsage !== undefined && (
+            <div className={`text-xs ${
+              site.budgetUsage >= UI_CONSTANTS.BUDGET.EXCEEDED_PERCENT
+                ? 'text-red-500'
+                : site.budgetUsage >= UI_CONSTANTS.BUDGET.WARNING_PERCENT
+                  ? 'text-amber-500'
+                  : 'text-gray-400'
+            }`}>
+              预算 {site.budgetUsage.toFixed(0)}%
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+
   return (
     <div className="flex flex-col">
+      {/* 搜索和筛选 */}
+      <AccountFilterBar
+        filter={filter}
+        tags={allTags}
+        currencyType={currencyType}
+        matchedCount={filteredSites.length}
+        totalCount={sites.length}
+        onChange={onFilterChange}
+      />
+
       {/* 表头 */}
       <div className="px-5 py-3 bg-gray-50 border-b border-gray-100 sticky top-0 z-10">
         <div className="flex items-center space-x-4">
-          <div className="flex-1">
+          <div className="flex-1 flex items-center space-x-1">
             {renderSortButton('name', '账号')}
+            <span className="text-xs text-gray-400">/</span>
+            {renderSortButton('manual', '手动')}
+            {isDragEnabled && (
+              <span className="text-[10px] text-gray-400">拖动账号调整顺序</span>
+            )}
           </div>
           <div className="text-right flex-shrink-0">
             <div className="flex items-center space-x-1">
@@ -165,164 +480,47 @@ export default function AccountList({
       </div>
       
       {/* 账号列表 */}
-      {sites.map((site) => (
-        <div 
-          key={site.id} 
-          className="px-5 py-4 border-b border-gray-50 hover:bg-gray-25 transition-colors relative group"
-          onMouseEnter={() => handleMouseEnter(site.id)}
-          onMouseLeave={handleMouseLeave}
-        >
-          <div className="flex items-center space-x-4">
-            {/* 站点信息 */}
-            <div className="flex items-center space-x-3 flex-1 min-w-0">
-              <div className="flex-1 min-w-0">
-                <div className="flex items-center space-x-2 mb-0.5">
-                  {/* 站点状态指示器 */}
-                  <div className={`w-2 h-2 rounded-full flex-shrink-0 ${
-                    HEALTH_STATUS_MAP[site.healthStatus]?.color || UI_CONSTANTS.STYLES.STATUS_INDICATOR.UNKNOWN
-                  }`}></div>
-                  <div className="font-medium text-gray-900 text-sm truncate">{site.name}</div>
-                </div>
-                <div className="text-xs text-gray-500 truncate ml-4">{site.username}</div>
-              </div>
-            </div>
-            
-            {/* 按钮组 - 只在 hover 时显示 */}
-            {hoveredSiteId === site.id && (
-              <div className="flex items-center space-x-2 flex-shrink-0">
-                {/* 刷新按钮 */}
-                <Tooltip content="刷新账号" position="top">
-                  <button
-                    onClick={() => handleRefreshAccount(site)}
-                    className="flex items-center justify-center w-8 h-8 rounded-full hover:bg-gray-100 transition-colors"
-                    disabled={refreshingAccountId === site.id}
-                  >
-                    <ArrowPathIcon 
-                      className={`w-4 h-4 text-gray-500 ${
-                        refreshingAccountId === site.id ? 'animate-spin' : ''
-                      }`} 
-                    />
-                  </button>
-                </Tooltip>
-
-                {/* 复制下拉菜单 */}
-                <Menu as="div" className="relative">
-                  <Tooltip content="复制" position="top">
-                    <MenuButton className="flex items-center justify-center w-8 h-8 rounded-full hover:bg-gray-100 transition-colors">
-                      <DocumentDuplicateIcon className="w-4 h-4 text-gray-500" />
-                    </MenuButton>
-                  </Tooltip>
-                  <MenuItems 
-                    anchor="bottom end"
-                    className="z-50 w-32 bg-white rounded-lg shadow-lg border border-gray-200 py-1 focus:outline-none [--anchor-gap:4px] [--anchor-padding:8px]"
-                  >
-                    <MenuItem>
-                      <button
-                        onClick={() => handleCopyUrl(site)}
-                        className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:text-gray-900 data-focus:bg-gray-50 flex items-center space-x-2"
-                      >
-                        <DocumentDuplicateIcon className="w-4 h-4" />
-                        <span>复制 URL</span>
-                      </button>
-                    </MenuItem>
-                    <MenuItem>
-                      <button
-                        onClick={() => handleCopyKey(site)}
-                        className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:text-gray-900 data-focus:bg-gray-50 flex items-center space-x-2"
-                      >
-                        <DocumentDuplicateIcon className="w-4 h-4" />
-                        <span>复制密钥</span>
-                      </button>
-                    </MenuItem>
-                    <hr />
-                    <MenuItem>
-                      <button
-                        onClick={() => onViewKeys?.(site)}
-                        className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:text-gray-900 data-focus:bg-gray-50 flex items-center space-x-2"
-                      >
-                        <KeyIcon className="w-4 h-4" />
-                        <span>管理密钥</span>
-                      </button>
-                    </MenuItem>
-                  </MenuItems>
-                </Menu>
-
-                {/* 更多下拉菜单 */}
-                <Menu as="div" className="relative">
-                    <MenuButton className="flex items-center justify-center w-8 h-8 rounded-full hover:bg-gray-100 transition-colors">
-                      <EllipsisHorizontalIcon className="w-4 h-4 text-gray-500" />
-                    </MenuButton>
-                  <MenuItems 
-                    anchor="bottom end"
-                    className="z-50 w-24 bg-white rounded-lg shadow-lg border border-gray-200 py-1 focus:outline-none [--anchor-gap:4px] [--anchor-padding:8px]"
-                  >
-                    <MenuItem>
-                      <button
-                        onClick={() => onViewModels?.(site)}
-                        className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:text-gray-900 data-focus:bg-gray-50 flex items-center space-x-2"
-                      >
-                        <CpuChipIcon className="w-4 h-4" />
-                        <span>模型</span>
-                      </button>
-                    </MenuItem>
-                    <MenuItem>
-                      <button
-                        onClick={() => onViewUsage?.(site)}
-                        className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:text-gray-900 data-focus:bg-gray-50 flex items-center space-x-2"
-                      >
-                        <ChartPieIcon className="w-4 h-4" />
-                        <span>用量</span>
-                      </button>
-                    </MenuItem>
-                    <hr />
-                    <MenuItem>
-                      <button
-                        onClick={() => onEditAccount?.(site)}
-                        className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:text-gray-900 data-focus:bg-gray-50 flex items-center space-x-2"
-                      >
-                        <PencilIcon className="w-4 h-4" />
-                        <span>编辑</span>
-                      </button>
-                    </MenuItem>
-                    <MenuItem>
-                      <button
-                        onClick={() => setDeleteDialogAccount(site)}
-                        className="w-full px-3 py-2 text-left text-sm text-red-600 hover:text-red-700 data-focus:bg-red-50 flex items-center space-x-2"
-                      >
-                        <TrashIcon className="w-4 h-4" />
-                        <span>删除</span>
-                      </button>
-                    </MenuItem>
-                  </MenuItems>
-                </Menu>
-              </div>
-            )}
-            
-            {/* 余额和统计 */}
-            <div className="text-right flex-shrink-0">
-              <div className="font-semibold text-gray-900 text-lg mb-0.5">
-                {getCurrencySymbol(currencyType)}
-                <CountUp
-                  start={isInitialLoad ? 0 : (prevBalances[site.id]?.[currencyType] || 0)}
-                  end={site.balance[currencyType]}
-                  duration={isInitialLoad ? UI_CONSTANTS.ANIMATION.SLOW_DURATION : UI_CONSTANTS.ANIMATION.FAST_DURATION}
-                  decimals={2}
-                  preserveValue
-                />
+      {isFilterActive(filter) && filteredSites.length === 0 && (
+        <div className="px-6 py-8 text-center text-sm text-gray-400">
+          没有匹配的账号
+          <button
+            onClick={() => onFilterChange(EMPTY_ACCOUNT_FILTER)}
+            className="ml-2 text-blue-500 hover:text-blue-600"
+          >
+            清除筛选
+          </button>
+        </div>
+      )}
+      {groups.map((group) => (
+        group.sites.length === 1 ? renderSiteRow(group.sites[0]) : (
+          <div key={group.key}>
+            {/* 分组标题：同一站点的多个用户 */}
+            <button
+              onClick={() => toggleGroup(group.key)}
+              className="w-full px-5 py-3 border-b border-gray-100 bg-gray-50/60 hover:bg-gray-50 transition-colors flex items-center space-x-4 text-left"
+            >
+              <div className="flex items-center space-x-2 flex-1 min-w-0">
+                {collapsedGroups.has(group.key)
+                  ? <ChevronRightIcon className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                  : <ChevronDownIcon className="w-4 h-4 text-gray-400 flex-shrink-0" />}
+                <span className="font-medium text-gray-900 text-sm truncate">{group.name}</span>
+                <span className="flex items-center px-1.5 py-0.5 text-[10px] leading-none text-gray-500 bg-gray-100 rounded flex-shrink-0">
+                  <UsersIcon className="w-3 h-3 mr-0.5" />
+                  {group.sites.length}
+                </span>
               </div>
-              <div className={`text-xs ${site.todayConsumption[currencyType] > 0 ? 'text-green-500' : 'text-gray-400'}`}>
-                -{getCurrencySymbol(currencyType)}
-                <CountUp
-                  start={isInitialLoad ? 0 : 0}
-                  end={site.todayConsumption[currencyType]}
-                  duration={isInitialLoad ? UI_CONSTANTS.ANIMATION.SLOW_DURATION : UI_CONSTANTS.ANIMATION.FAST_DURATION}
-                  decimals={2}
-                  preserveValue
-                />
+              <div className="text-right flex-shrink-0">
+                <div className="font-semibold text-gray-900 text-sm">
+                  {getCurrencySymbol(currencyType)}{group.balance[currencyType].toFixed(2)}
+                </div>
+                <div className={`text-xs ${group.todayConsumption[currencyType] > 0 ? 'text-green-500' : 'text-gray-400'}`}>
+                  -{getCurrencySymbol(currencyType)}{group.todayConsumption[currencyType].toFixed(2)}
+                </div>
               </div>
-            </div>
+            </button>
+            {!collapsedGroups.has(group.key) && group.sites.map(site => renderSiteRow(site, true))}
           </div>
-        </div>
+        )
       ))}
       
       {/* 删除账号确认对话框 */}
@@ -339,6 +537,14 @@ export default function AccountList({
         onClose={() => setCopyKeyDialogAccount(null)}
         account={copyKeyDialogAccount}
       />
+
+      {/* 兑换码充值对话框 */}
+      <RedeemCodeDialog
+        isOpen={redeemDialogAccount !== null}
+        onClose={() => setRedeemDialogAccount(null)}
+        account={redeemDialogAccount}
+        onRedeemed={() => onRedeemed?.(redeemDialogAccount!)}
+      />
     </div>
   )
 }
\ No newline at end of file
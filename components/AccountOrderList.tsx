@@ -0,0 +1,60 @@
+import { useMemo, useCallback } from "react"
+import { Bars3Icon, BookmarkIcon } from "@heroicons/react/24/outline"
+import { BookmarkIcon as BookmarkSolidIcon } from "@heroicons/react/24/solid"
+import { useDragSort } from "../hooks/useDragSort"
+import type { DisplaySiteData } from "../types"
+
+interface AccountOrderListProps {
+  accounts: DisplaySiteData[] // 按存储顺序（即手动顺序）排列的账号
+  onTogglePin: (account: DisplaySiteData) => void
+  onReorder: (orderedIds: string[]) => void
+}
+
+/**
+ * 账号手动顺序编辑列表，支持拖动排序和置顶
+ */
+export default function AccountOrderList({ accounts, onTogglePin, onReorder }: AccountOrderListProps) {
+  // 与弹出页一致，置顶账号排在最前
+  const orderedAccounts = useMemo(() => [
+    ...accounts.filter(account => account.pinned),
+    ...accounts.filter(account => !account.pinned)
+  ], [accounts])
+  const ids = useMemo(() => orderedAccounts.map(account => account.id), [orderedAccounts])
+  // 只允许在置顶或未置顶分段内拖动，避免把置顶账号写到手动顺序的最前面
+  const pinnedIds = useMemo(() => new Set(accounts.filter(account => account.pinned).map(account => account.id)), [accounts])
+  const getPinGroup = useCallback((id: string) => pinnedIds.has(id) ? 'pinned' : 'normal', [pinnedIds])
+  const { draggingId, overId, getDragProps } = useDragSort(ids, onReorder, true, getPinGroup)
+
+  if (accounts.length === 0) {
+    return <p className="text-sm text-gray-400 py-4 text-center">暂无账号</p>
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+      {orderedAccounts.map(account => (
+        <div
+          key={account.id}
+          {...getDragProps(account.id)}
+          className={`flex items-center px-3 py-2 bg-white cursor-move transition-colors ${
+            draggingId === account.id ? 'opacity-50' : ''
+          } ${overId === account.id && draggingId !== account.id ? 'border-t-2 border-t-blue-400' : ''}`}
+        >
+          <Bars3Icon className="w-4 h-4 text-gray-300 mr-3 flex-shrink-0" />
+          <div className="flex-1 min-w-0">
+            <div className="text-sm text-gray-900 truncate">{account.name}</div>
+            <div className="text-xs text-gray-400 truncate">{account.username} · {account.baseUrl}</div>
+          </div>
+          <button
+            onClick={() => onTogglePin(account)}
+            title={account.pinned ? '取消置顶' : '置顶'}
+            className="ml-2 p-1.5 rounded-md hover:bg-gray-100 transition-colors"
+          >
+            {account.pinned
+              ? <BookmarkSolidIcon className="w-4 h-4 text-blue-500" />
+              : <BookmarkIcon className="w-4 h-4 text-gray-400" />}
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
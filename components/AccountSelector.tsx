@@ -0,0 +1,97 @@
+import { useState, useMemo } from "react"
+import { MagnifyingGlassIcon } from "@heroicons/react/24/outline"
+import { collectTags, filterAccounts, EMPTY_ACCOUNT_FILTER } from "../utils/accountFilter"
+import { normalizeSiteUrl } from "../utils/accountGrouping"
+import type { SiteAccount } from "../types"
+
+interface AccountSelectorProps {
+  accounts: SiteAccount[]
+  value: string
+  onChange: (accountId: string) => void
+  emptyOption: { value: string; label: string } // 首个选项，如"所有账号"或"请选择账号"
+  selectClassName?: string
+}
+
+const DEFAULT_SELECT_CLASS = "w-full sm:w-80 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+
+/**
+ * 选项页通用的账号选择器，支持按关键词和标签缩小候选范围
+ */
+export default function AccountSelector({
+  accounts,
+  value,
+  onChange,
+  emptyOption,
+  selectClassName = DEFAULT_SELECT_CLASS
+}: AccountSelectorProps) {
+  const [query, setQuery] = useState("")
+  const [tag, setTag] = useState<string | null>(null)
+
+  const allTags = useMemo(() => collectTags(accounts), [accounts])
+  const options = useMemo(() => {
+    const matched = filterAccounts(accounts, { ...EMPTY_ACCOUNT_FILTER, query, tag })
+    // 已选中的账号即使不满足筛选条件也保留在列表中，避免选择框显示为空
+    const selected = accounts.find(account => account.id === value)
+    return selected && !matched.includes(selected) ? [selected, ...matched] : matched
+  }, [accounts, query, tag, value])
+
+  // 同一站点有多个用户时附加用户名以便区分
+  const siteCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    accounts.forEach(account => {
+      const key = normalizeSiteUrl(account.site_url)
+      counts.set(key, (counts.get(key) || 0) + 1)
+    })
+    return counts
+  }, [accounts])
+
+  const getOptionLabel = (account: SiteAccount) => {
+    const name = (siteCounts.get(normalizeSiteUrl(account.site_url)) || 0) > 1
+      ? `${account.site_name} (${account.account_info.username})`
+      : account.site_name
+    return account.tags && account.tags.length > 0 ? `${name} [${account.tags.join(', ')}]` : name
+  }
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={selectClassName}
+      >
+        <option value={emptyOption.value}>{emptyOption.label}</option>
+        {options.map(account => (
+          <option key={account.id} value={account.id}>{getOptionLabel(account)}</option>
+        ))}
+      </select>
+      {accounts.length > 1 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="relative">
+            <MagnifyingGlassIcon className="absolute left-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-gray-400" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="筛选账号..."
+              className="w-40 pl-7 pr-2 py-1 text-xs border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          {allTags.map(item => (
+            <button
+              key={item}
+              type="button"
+              onClick={() => setTag(tag === item ? null : item)}
+              className={`px-2 py-0.5 text-xs rounded-full border transition-colors ${
+                tag === item
+                  ? 'bg-blue-500 text-white border-blue-500'
+                  : 'text-gray-600 border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              {item}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
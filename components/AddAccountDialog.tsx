@@ -1,10 +1,16 @@
-import { useState, useEffect, Fragment } from "react"
+import { useState, useEffect, useMemo, Fragment } from "react"
 import toast from 'react-hot-toast'
 import { Dialog, DialogPanel, DialogTitle, Transition, TransitionChild } from "@headlessui/react"
-import { GlobeAltIcon, XMarkIcon, SparklesIcon, UserIcon, KeyIcon, EyeIcon, EyeSlashIcon, CurrencyDollarIcon } from "@heroicons/react/24/outline"
+import { GlobeAltIcon, XMarkIcon, SparklesIcon, UserIcon, KeyIcon, EyeIcon, EyeSlashIcon, CurrencyDollarIcon, ServerStackIcon, ExclamationTriangleIcon, UsersIcon } from "@heroicons/react/24/outline"
 import { autoDetectAccount, validateAndSaveAccount, extractDomainPrefix, isValidExchangeRate } from "../services/accountOperations"
+import { SITE_ADAPTERS, DEFAULT_SITE_TYPE, getSiteProductLabel } from "../services/siteAdapters"
+import { accountStorage } from "../services/accountStorage"
+import { vaultService } from "../services/vaultService"
+import { checkDuplicateAccount } from "../utils/accountGrouping"
 import AutoDetectErrorAlert from "./AutoDetectErrorAlert"
+import VaultUnlockDialog from "./VaultUnlockDialog"
 import type { AutoDetectError } from "../utils/autoDetectUtils"
+import type { SiteAccount, SiteFingerprint, SiteType } from "../types"
 
 interface AddAccountDialogProps {
   isOpen: boolean
@@ -24,8 +30,19 @@ export default function AddAccountDialog({ isOpen, onClose }: AddAccountDialogPr
   const [detectionError, setDetectionError] = useState<AutoDetectError | null>(null)
   const [showManualForm, setShowManualForm] = useState(false)
   const [exchangeRate, setExchangeRate] = useState("")
+  const [siteType, setSiteType] = useState<SiteType>(DEFAULT_SITE_TYPE)
+  const [detectedFingerprint, setDetectedFingerprint] = useState<SiteFingerprint | null>(null)
   const [currentTabUrl, setCurrentTabUrl] = useState<string | null>(null)
+  const [existingAccounts, setExistingAccounts] = useState<SiteAccount[]>([])
+  const [showUnlockDialog, setShowUnlockDialog] = useState(false) // 保险库锁定时无法加密保存访问令牌，需先解锁
 
+  // 与已有账号比较：同站点的其他用户可以添加，同一用户视为重复
+  const duplicateCheck = useMemo(() => {
+    const parsedUserId = parseInt(userId.trim())
+    if (!url.trim() || isNaN(parsedUserId)) return null
+    return checkDuplicateAccount(existingAccounts, url, parsedUserId)
+  }, [existingAccounts, url, userId])
+  const isDuplicate = duplicateCheck?.kind === 'duplicate'
 
   useEffect(() => {
     if (isOpen) {
@@ -39,8 +56,12 @@ export default function AddAccountDialog({ isOpen, onClose }: AddAccountDialogPr
       setDetectionError(null)
       setShowManualForm(false)
       setExchangeRate("")
+      setSiteType(DEFAULT_SITE_TYPE)
+      setDetectedFingerprint(null)
       setCurrentTabUrl(null)
       setUrl("")
+      accountStorage.getAllAccounts().then(setExistingAccounts)
+      vaultService.isLocked().then(setShowUnlockDialog)
       
       // 获取当前标签页的 URL 作为初始参考
       chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
@@ -95,6 +116,8 @@ export default function AddAccountDialog({ isOpen, onClose }: AddAccountDialogPr
         setUsername(result.data.username)
         setAccessToken(result.data.accessToken)
         setUserId(result.data.userId)
+        setSiteType(result.data.siteType)
+        setDetectedFingerprint(result.data.fingerprint ?? null)
         
         // 设置充值比例默认值
         if (result.data.exchangeRate) {
@@ -130,6 +153,11 @@ export default function AddAccountDialog({ isOpen, onClose }: AddAccountDialogPr
 
 
   const handleSaveAccount = async () => {
+    if (await vaultService.isLocked()) {
+      setShowUnlockDialog(true)
+      return
+    }
+
     setIsSaving(true)
     
     try {
@@ -140,7 +168,8 @@ export default function AddAccountDialog({ isOpen, onClose }: AddAccountDialogPr
           username.trim(),
           accessToken.trim(),
           userId.trim(),
-          exchangeRate
+          exchangeRate,
+          siteType
         ),
         {
           loading: '正在添加账号...',
@@ -416,6 +445,32 @@ export default function AddAccountDialog({ isOpen, onClose }: AddAccountDialogPr
                         </div>
                       </div>
 
+                      {/* 站点类型 */}
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          站点类型
+                        </label>
+                        <div className="relative">
+                          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                            <ServerStackIcon className="h-5 w-5 text-gray-400" />
+                          </div>
+                          <select
+                            value={siteType}
+                            onChange={(e) => setSiteType(e.target.value as SiteType)}
+                            className="block w-full pl-10 py-3 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+                          >
+                            {(Object.keys(SITE_ADAPTERS) as SiteType[]).map((type) => (
+                              <option key={type} value={type}>{SITE_ADAPTERS[type].name}</option>
+                            ))}
+                          </select>
+                        </div>
+                        <p className="mt-1 text-xs text-gray-500">
+                          {detectedFingerprint
+                            ? `已识别为 ${getSiteProductLabel(siteType, detectedFingerprint)}${detectedFingerprint.system_name ? `（${detectedFingerprint.system_name}）` : ''}，识别有误时可手动调整`
+                            : '自动识别时会根据站点信息判断，识别有误时可手动调整'}
+                        </p>
+                      </div>
+
                       {/* 充值金额比例 */}
                       <div>
                         <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -456,6 +511,22 @@ export default function AddAccountDialog({ isOpen, onClose }: AddAccountDialogPr
                     </>
                   )}
 
+                  {/* 重复账号提示 */}
+                  {(isDetected || showManualForm) && duplicateCheck && duplicateCheck.kind !== 'none' && (
+                    <div className={`flex items-start space-x-2 p-3 rounded-lg text-xs ${
+                      isDuplicate ? 'bg-red-50 border border-red-200 text-red-700' : 'bg-blue-50 border border-blue-200 text-blue-700'
+                    }`}>
+                      {isDuplicate
+                        ? <ExclamationTriangleIcon className="w-4 h-4 flex-shrink-0" />
+                        : <UsersIcon className="w-4 h-4 flex-shrink-0" />}
+                      <span>
+                        {isDuplicate
+                          ? `该用户已添加过（${duplicateCheck.account?.site_name} · ${duplicateCheck.account?.account_info.username}），无需重复添加`
+                          : `该站点已有账号（${duplicateCheck.account?.site_name}），将作为同一站点的另一个用户添加，并在列表中归为一组`}
+                      </span>
+                    </div>
+                  )}
+
                   {/* 按钮组 */}
                   <div className="flex space-x-3 pt-2">
                     <button
@@ -468,7 +539,7 @@ export default function AddAccountDialog({ isOpen, onClose }: AddAccountDialogPr
                     {isDetected ? (
                       <button
                         type="submit"
-                        disabled={!siteName.trim() || !username.trim() || !accessToken.trim() || !userId.trim() || !isValidExchangeRate(exchangeRate) || isSaving}
+                        disabled={!siteName.trim() || !username.trim() || !accessToken.trim() || !userId.trim() || !isValidExchangeRate(exchangeRate) || isDuplicate || isSaving}
                         className="flex-1 flex items-center justify-center space-x-2 px-4 py-2.5 text-sm font-medium text-white bg-gradient-to-r from-green-500 to-emerald-600 rounded-lg hover:from-green-600 hover:to-emerald-700 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed shadow-sm"
                       >
                         {isSaving ? (
@@ -486,7 +557,7 @@ export default function AddAccountDialog({ isOpen, onClose }: AddAccountDialogPr
                     ) : showManualForm ? (
                       <button
                         type="submit"
-                        disabled={!siteName.trim() || !username.trim() || !accessToken.trim() || !userId.trim() || !isValidExchangeRate(exchangeRate) || isSaving}
+                        disabled={!siteName.trim() || !username.trim() || !accessToken.trim() || !userId.trim() || !isValidExchangeRate(exchangeRate) || isDuplicate || isSaving}
                         className="flex-1 flex items-center justify-center space-x-2 px-4 py-2.5 text-sm font-medium text-white bg-gradient-to-r from-green-500 to-emerald-600 rounded-lg hover:from-green-600 hover:to-emerald-700 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed shadow-sm"
                       >
                         {isSaving ? (
@@ -566,6 +637,12 @@ export default function AddAccountDialog({ isOpen, onClose }: AddAccountDialogPr
             </DialogPanel>
           </TransitionChild>
         </div>
+
+        <VaultUnlockDialog
+          isOpen={showUnlockDialog}
+          onClose={() => setShowUnlockDialog(false)}
+          onUnlocked={() => accountStorage.getAllAccounts().then(setExistingAccounts)}
+        />
       </Dialog>
     </Transition>
   )
@@ -16,6 +16,7 @@ import {
   type ApiToken
 } from '../services/apiService'
 import { UI_CONSTANTS } from '../constants/ui'
+import type { SiteType } from '../types'
 import toast from 'react-hot-toast'
 
 interface AddTokenDialogProps {
@@ -27,6 +28,7 @@ interface AddTokenDialogProps {
     baseUrl: string
     userId: number
     token: string
+    siteType?: SiteType
   }>
   preSelectedAccountId?: string | null
   editingToken?: ApiToken & { accountName: string } | null
@@ -119,8 +121,8 @@ export default function AddTokenDialog({ isOpen, onClose, availableAccounts, pre
     setIsLoading(true)
     try {
       const [models, groupsData] = await Promise.all([
-        fetchAvailableModels(currentAccount.baseUrl, currentAccount.userId, currentAccount.token),
-        fetchUserGroups(currentAccount.baseUrl, currentAccount.userId, currentAccount.token)
+        fetchAvailableModels(currentAccount.baseUrl, currentAccount.userId, currentAccount.token, currentAccount.siteType),
+        fetchUserGroups(currentAccount.baseUrl, currentAccount.userId, currentAccount.token, currentAccount.siteType)
       ])
       
       setAvailableModels(models)
@@ -212,11 +214,11 @@ export default function AddTokenDialog({ isOpen, onClose, availableAccounts, pre
 
       if (isEditMode && editingToken) {
         // 编辑模式
-        await updateApiToken(currentAccount.baseUrl, currentAccount.userId, currentAccount.token, editingToken.id, tokenData)
+        await updateApiToken(currentAccount.baseUrl, currentAccount.userId, currentAccount.token, editingToken.id, tokenData, currentAccount.siteType)
         toast.success('密钥更新成功')
       } else {
         // 创建模式
-        await createApiToken(currentAccount.baseUrl, currentAccount.userId, currentAccount.token, tokenData)
+        await createApiToken(currentAccount.baseUrl, currentAccount.userId, currentAccount.token, tokenData, currentAccount.siteType)
         toast.success('密钥创建成功')
       }
       
@@ -0,0 +1,155 @@
+import { Fragment, useState, useEffect } from "react"
+import { Dialog, DialogPanel, DialogTitle, Transition, TransitionChild } from "@headlessui/react"
+import { XMarkIcon, KeyIcon } from "@heroicons/react/24/outline"
+
+interface BackupPassphraseDialogProps {
+  isOpen: boolean
+  mode: 'encrypt' | 'decrypt' // 加密上传时需要再次输入确认，解密恢复时只需输入一次
+  description: string
+  error?: string | null // 上一次输入的口令不正确等错误信息
+  isSubmitting: boolean
+  onClose: () => void
+  onSubmit: (passphrase: string) => void
+}
+
+export default function BackupPassphraseDialog({
+  isOpen,
+  mode,
+  description,
+  error,
+  isSubmitting,
+  onClose,
+  onSubmit
+}: BackupPassphraseDialogProps) {
+  const [passphrase, setPassphrase] = useState("")
+  const [confirmation, setConfirmation] = useState("")
+
+  // 关闭时重置状态
+  useEffect(() => {
+    if (!isOpen) {
+      setPassphrase("")
+      setConfirmation("")
+    }
+  }, [isOpen])
+
+  const needsConfirmation = mode === 'encrypt'
+  const mismatch = needsConfirmation && confirmation.length > 0 && passphrase !== confirmation
+  const canSubmit = !!passphrase && (!needsConfirmation || passphrase === confirmation) && !isSubmitting
+
+  const handleSubmit = () => {
+    if (!canSubmit) return
+    onSubmit(passphrase)
+  }
+
+  return (
+    <Transition show={isOpen} as={Fragment}>
+      <Dialog
+        onClose={() => !isSubmitting && onClose()}
+        className="relative z-50"
+      >
+        {/* 背景遮罩动画 */}
+        <TransitionChild
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black/30 backdrop-blur-sm" aria-hidden="true" />
+        </TransitionChild>
+
+        {/* 居中容器 */}
+        <div className="fixed inset-0 flex items-center justify-center p-4">
+          {/* 弹窗面板动画 */}
+          <TransitionChild
+            as={Fragment}
+            enter="ease-out duration-300"
+            enterFrom="opacity-0 scale-95 translate-y-4"
+            enterTo="opacity-100 scale-100 translate-y-0"
+            leave="ease-in duration-200"
+            leaveFrom="opacity-100 scale-100 translate-y-0"
+            leaveTo="opacity-0 scale-95 translate-y-4"
+          >
+            <DialogPanel className="w-full max-w-sm bg-white rounded-lg shadow-xl transform transition-all">
+              {/* 头部 */}
+              <div className="flex items-center justify-between p-4 border-b border-gray-100">
+                <div className="flex items-center space-x-3">
+                  <div className="w-8 h-8 bg-gradient-to-r from-blue-500 to-indigo-600 rounded-lg flex items-center justify-center">
+                    <KeyIcon className="w-4 h-4 text-white" />
+                  </div>
+                  <div>
+                    <DialogTitle className="text-lg font-semibold text-gray-900">
+                      {mode === 'encrypt' ? '设置本次备份口令' : '输入备份口令'}
+                    </DialogTitle>
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      {description}
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={onClose}
+                  disabled={isSubmitting}
+                  className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  <XMarkIcon className="w-4 h-4" />
+                </button>
+              </div>
+
+              {/* 内容区域 */}
+              <div className="p-4 space-y-2">
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+                  disabled={isSubmitting}
+                  autoFocus
+                  placeholder="请输入备份口令"
+                  className="block w-full px-3 py-3 border border-gray-200 rounded-lg text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                {needsConfirmation && (
+                  <input
+                    type="password"
+                    value={confirmation}
+                    onChange={(e) => setConfirmation(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+                    disabled={isSubmitting}
+                    placeholder="再次输入备份口令"
+                    className="block w-full px-3 py-3 border border-gray-200 rounded-lg text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                )}
+                {mismatch && <p className="text-xs text-red-500">两次输入的口令不一致</p>}
+                {error && <p className="text-xs text-red-500">{error}</p>}
+                {needsConfirmation && (
+                  <p className="text-xs text-gray-400">口令丢失后将无法恢复这份备份，请妥善保管</p>
+                )}
+              </div>
+
+              {/* 底部操作区 */}
+              <div className="px-4 py-3 border-t border-gray-100 bg-gray-50/50 flex items-center justify-end space-x-2">
+                <button
+                  onClick={onClose}
+                  disabled={isSubmitting}
+                  className="px-4 py-1.5 text-sm text-gray-600 rounded hover:bg-gray-100 disabled:opacity-50 transition-colors"
+                >
+                  取消
+                </button>
+                <button
+                  onClick={handleSubmit}
+                  disabled={!canSubmit}
+                  className="px-4 py-1.5 text-sm font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {isSubmitting
+                    ? (mode === 'encrypt' ? '备份中...' : '恢复中...')
+                    : (mode === 'encrypt' ? '加密并备份' : '恢复')}
+                </button>
+              </div>
+            </DialogPanel>
+          </TransitionChild>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
@@ -1,5 +1,5 @@
 import { Tab, TabGroup, TabList, TabPanel, TabPanels } from "@headlessui/react"
-import { ArrowUpIcon, ArrowDownIcon } from "@heroicons/react/24/outline"
+import { ArrowUpIcon, ArrowDownIcon, ChartPieIcon } from "@heroicons/react/24/outline"
 import CountUp from "react-countup"
 import { UI_CONSTANTS } from "../constants/ui"
 import { getCurrencySymbol, formatTokenCount } from "../utils/formatters"
@@ -11,12 +11,14 @@ interface BalanceSectionProps {
   totalConsumption: { USD: number; CNY: number }
   totalBalance: { USD: number; CNY: number }
   todayTokens: { upload: number; download: number }
+  tokensCombined?: boolean // 部分账号只有 token 总数（已计入提示 tokens）
   
   // 状态
   currencyType: 'USD' | 'CNY'
   activeTab: 'consumption' | 'balance'
   isInitialLoad: boolean
   lastUpdateTime: Date
+  nextRefreshTime?: Date | null // 下次后台自动刷新时间，未启用自动刷新时为空
   
   // 动画相关
   prevTotalConsumption: { USD: number; CNY: number }
@@ -24,19 +26,23 @@ interface BalanceSectionProps {
   // 事件处理
   onCurrencyToggle: () => void
   onTabChange: (index: number) => void
+  onViewBreakdown?: () => void // 查看今日消耗明细
 }
 
 export default function BalanceSection({
   totalConsumption,
   totalBalance,
   todayTokens,
+  tokensCombined = false,
   currencyType,
   activeTab,
   isInitialLoad,
   lastUpdateTime,
+  nextRefreshTime,
   prevTotalConsumption,
   onCurrencyToggle,
-  onTabChange
+  onTabChange,
+  onViewBreakdown
 }: BalanceSectionProps) {
   const { formatRelativeTime, formatFullTime } = useTimeFormatter()
   
@@ -114,12 +120,15 @@ export default function BalanceSection({
         </div>
         
         {/* Token 统计信息 */}
-        <div>
+        <div className="flex items-center justify-between">
           <Tooltip
             content={
               <div>
                 <div>提示: {todayTokens.upload.toLocaleString()} tokens</div>
                 <div>补全: {todayTokens.download.toLocaleString()} tokens</div>
+                {tokensCombined && (
+                  <div className="mt-1 text-gray-300">部分站点通过聚合接口统计，只有 token 总数，已计入提示 tokens</div>
+                )}
               </div>
             }
           >
@@ -138,17 +147,34 @@ export default function BalanceSection({
               </div>
             </div>
           </Tooltip>
+          {onViewBreakdown && (
+            <button
+              onClick={onViewBreakdown}
+              className="flex items-center space-x-1 text-xs text-gray-400 hover:text-blue-600 transition-colors"
+              title="按模型和令牌查看今日消耗"
+            >
+              <ChartPieIcon className="w-4 h-4" />
+              <span>明细</span>
+            </button>
+          )}
         </div>
       </div>
       
       {/* 最后更新时间 */}
       <div className="mt-4 pt-3 border-t border-gray-100">
-        <div className="ml-2">
+        <div className="ml-2 flex items-center justify-between">
           <Tooltip content={formatFullTime(lastUpdateTime)}>
             <p className="text-xs text-gray-400 cursor-help">
               更新于 {formatRelativeTime(lastUpdateTime)}
             </p>
           </Tooltip>
+          {nextRefreshTime && (
+            <Tooltip content={formatFullTime(nextRefreshTime)}>
+              <p className="text-xs text-gray-400 cursor-help">
+                下次自动刷新 {formatRelativeTime(nextRefreshTime)}
+              </p>
+            </Tooltip>
+          )}
         </div>
       </div>
     </div>
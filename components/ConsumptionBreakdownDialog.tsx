@@ -0,0 +1,118 @@
+import { Fragment, useMemo } from "react"
+import { Dialog, DialogPanel, DialogTitle, Transition, TransitionChild, Tab, TabGroup, TabList, TabPanel, TabPanels } from "@headlessui/react"
+import { ChartPieIcon, XMarkIcon } from "@heroicons/react/24/outline"
+import UsageBreakdownTable from "./UsageBreakdownTable"
+import { summarizeBreakdown, hasMissingTokenBreakdown } from "../utils/usageBreakdown"
+import type { SiteAccount } from "../types"
+
+interface ConsumptionBreakdownDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  accounts: SiteAccount[]
+  currencyType: 'USD' | 'CNY'
+  onOpenDetails: () => void // 在设置页中查看完整明细
+}
+
+const tabClassName = ({ selected }: { selected: boolean }) =>
+  `px-2.5 py-1 text-xs font-medium rounded-md transition-colors ${
+    selected
+      ? 'bg-white text-gray-900 shadow-sm'
+      : 'text-gray-500 hover:text-gray-700'
+  }`
+
+export default function ConsumptionBreakdownDialog({
+  isOpen,
+  onClose,
+  accounts,
+  currencyType,
+  onOpenDetails
+}: ConsumptionBreakdownDialogProps) {
+  const modelRows = useMemo(() => summarizeBreakdown(accounts, 'by_model'), [accounts])
+  const tokenRows = useMemo(() => summarizeBreakdown(accounts, 'by_token'), [accounts])
+  const missingTokenBreakdown = useMemo(() => hasMissingTokenBreakdown(accounts), [accounts])
+
+  return (
+    <Transition show={isOpen} as={Fragment}>
+      <Dialog
+        onClose={onClose}
+        className="relative z-50"
+      >
+        {/* 背景遮罩动画 */}
+        <TransitionChild
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black/30 backdrop-blur-sm" aria-hidden="true" />
+        </TransitionChild>
+
+        {/* 居中容器 */}
+        <div className="fixed inset-0 flex items-center justify-center p-4">
+          {/* 弹窗面板动画 */}
+          <TransitionChild
+            as={Fragment}
+            enter="ease-out duration-300"
+            enterFrom="opacity-0 scale-95 translate-y-4"
+            enterTo="opacity-100 scale-100 translate-y-0"
+            leave="ease-in duration-200"
+            leaveFrom="opacity-100 scale-100 translate-y-0"
+            leaveTo="opacity-0 scale-95 translate-y-4"
+          >
+            <DialogPanel className="w-full max-w-sm bg-white rounded-lg shadow-xl transform transition-all">
+              {/* 头部 */}
+              <div className="flex items-center justify-between p-4 border-b border-gray-100">
+                <div className="flex items-center space-x-3">
+                  <div className="w-8 h-8 bg-gradient-to-r from-green-500 to-emerald-600 rounded-lg flex items-center justify-center">
+                    <ChartPieIcon className="w-4 h-4 text-white" />
+                  </div>
+                  <DialogTitle className="text-lg font-semibold text-gray-900">
+                    今日消耗明细
+                  </DialogTitle>
+                </div>
+                <button
+                  onClick={onClose}
+                  className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                >
+                  <XMarkIcon className="w-5 h-5" />
+                </button>
+              </div>
+
+              {/* 内容区域 */}
+              <div className="p-4">
+                <TabGroup>
+                  <TabList className="flex space-x-1 bg-gray-100 rounded-lg p-1 mb-3 w-fit">
+                    <Tab className={tabClassName}>按模型</Tab>
+                    <Tab className={tabClassName}>按令牌</Tab>
+                  </TabList>
+                  <TabPanels className="max-h-72 overflow-y-auto">
+                    <TabPanel>
+                      <UsageBreakdownTable rows={modelRows} dimension="by_model" currencyType={currencyType} compact />
+                    </TabPanel>
+                    <TabPanel>
+                      <UsageBreakdownTable rows={tokenRows} dimension="by_token" currencyType={currencyType} compact />
+                      {missingTokenBreakdown && (
+                        <p className="mt-2 text-xs text-gray-400">部分站点通过聚合接口统计，无法按令牌拆分</p>
+                      )}
+                    </TabPanel>
+                  </TabPanels>
+                </TabGroup>
+
+                <button
+                  type="button"
+                  onClick={onOpenDetails}
+                  className="mt-4 w-full px-4 py-2 text-sm font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  查看完整明细
+                </button>
+              </div>
+            </DialogPanel>
+          </TransitionChild>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
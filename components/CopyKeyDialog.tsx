@@ -38,7 +38,7 @@ export default function CopyKeyDialog({ isOpen, onClose, account }: CopyKeyDialo
     
     try {
       // 使用 DisplaySiteData 中的 userId 字段
-      const tokensResponse = await fetchAccountTokens(account.baseUrl, account.userId, account.token)
+      const tokensResponse = await fetchAccountTokens(account.baseUrl, account.userId, account.token, undefined, undefined, account.siteType)
       
       // 确保返回的是数组
       if (Array.isArray(tokensResponse)) {
@@ -3,6 +3,7 @@ import toast from 'react-hot-toast'
 import { Dialog, DialogPanel, DialogTitle, Transition, TransitionChild } from "@headlessui/react"
 import { ExclamationTriangleIcon, XMarkIcon, TrashIcon } from "@heroicons/react/24/outline"
 import { accountStorage } from "../services/accountStorage"
+import { pricingCache } from "../services/pricingCache"
 import type { DisplaySiteData } from "../types"
 
 interface DelAccountDialogProps {
@@ -21,8 +22,17 @@ export default function DelAccountDialog({ isOpen, onClose, account, onDeleted }
     try {
       console.log('准备删除账号:', { id: account.id, name: account.name })
       
+      const deleteAccount = async () => {
+        const success = await accountStorage.deleteAccount(account.id)
+        if (success) {
+          // 后台刷新才会清理失效的定价缓存，删除时立即移除
+          await pricingCache.invalidate(account.baseUrl, account.userId)
+        }
+        return success
+      }
+
       await toast.promise(
-        accountStorage.deleteAccount(account.id),
+        deleteAccount(),
         {
           loading: `正在删除账号 ${account.name}...`,
           success: (success) => {
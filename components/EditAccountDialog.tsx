@@ -1,12 +1,18 @@
 import { useState, useEffect, Fragment } from "react"
 import toast from 'react-hot-toast'
-import { Dialog, DialogPanel, DialogTitle, Transition, TransitionChild } from "@headlessui/react"
-import { GlobeAltIcon, XMarkIcon, PencilIcon, UserIcon, KeyIcon, EyeIcon, EyeSlashIcon, CurrencyDollarIcon, SparklesIcon, CheckIcon, UsersIcon } from "@heroicons/react/24/outline"
+import { Dialog, DialogPanel, DialogTitle, Switch, Transition, TransitionChild } from "@headlessui/react"
+import { GlobeAltIcon, XMarkIcon, PencilIcon, UserIcon, KeyIcon, EyeIcon, EyeSlashIcon, CurrencyDollarIcon, SparklesIcon, CheckIcon, UsersIcon, BellAlertIcon, BanknotesIcon, ArrowPathIcon, ServerStackIcon, CalendarDaysIcon, TagIcon } from "@heroicons/react/24/outline"
 import { accountStorage } from "../services/accountStorage"
-import { autoDetectAccount, validateAndUpdateAccount, extractDomainPrefix, isValidExchangeRate } from "../services/accountOperations"
+import { siteCapabilities } from "../services/siteCapabilities"
+import { vaultService } from "../services/vaultService"
+import { autoDetectAccount, validateAndUpdateAccount, extractDomainPrefix, isValidExchangeRate, isValidLowBalanceThreshold, isValidDailyBudget, isValidRefreshInterval } from "../services/accountOperations"
 import AutoDetectErrorAlert from "./AutoDetectErrorAlert"
+import VaultUnlockDialog from "./VaultUnlockDialog"
 import type { AutoDetectError } from "../utils/autoDetectUtils"
-import type { DisplaySiteData } from "../types"
+import { SITE_ADAPTERS, DEFAULT_SITE_TYPE, getSiteProductLabel, supportsCheckIn } from "../services/siteAdapters"
+import { REFRESH_MODE_LABELS, MIN_REFRESH_INTERVAL } from "../utils/refreshPolicy"
+import { normalizeTags } from "../utils/accountFilter"
+import type { DisplaySiteData, CurrencyType, AccountRefreshMode, SiteType, SiteFingerprint } from "../types"
 
 interface EditAccountDialogProps {
   isOpen: boolean
@@ -27,6 +33,18 @@ export default function EditAccountDialog({ isOpen, onClose, account }: EditAcco
   const [detectionError, setDetectionError] = useState<AutoDetectError | null>(null)
   const [showManualForm, setShowManualForm] = useState(true) // 编辑模式默认显示表单
   const [exchangeRate, setExchangeRate] = useState("")
+  const [siteType, setSiteType] = useState<SiteType>(DEFAULT_SITE_TYPE)
+  const [detectedFingerprint, setDetectedFingerprint] = useState<SiteFingerprint | null>(null)
+  const [lowBalanceThreshold, setLowBalanceThreshold] = useState("")
+  const [dailyBudget, setDailyBudget] = useState("")
+  const [dailyBudgetCurrency, setDailyBudgetCurrency] = useState<CurrencyType>('USD')
+  const [refreshMode, setRefreshMode] = useState<AccountRefreshMode>('auto')
+  const [refreshInterval, setRefreshInterval] = useState("")
+  const [autoCheckIn, setAutoCheckIn] = useState(false)
+  const [checkInUnavailable, setCheckInUnavailable] = useState(false) // 签到接口已被探测为不可用
+  const [showUnlockDialog, setShowUnlockDialog] = useState(false) // 保险库锁定时访问令牌为密文，需先解锁
+  const [tags, setTags] = useState("")
+  const [notes, setNotes] = useState("")
   
   // 重置表单数据
   const resetForm = () => {
@@ -40,6 +58,18 @@ export default function EditAccountDialog({ isOpen, onClose, account }: EditAcco
     setDetectionError(null)
     setShowManualForm(true)
     setExchangeRate("")
+    setSiteType(DEFAULT_SITE_TYPE)
+    setDetectedFingerprint(null)
+    setLowBalanceThreshold("")
+    setDailyBudget("")
+    setDailyBudgetCurrency('USD')
+    setRefreshMode('auto')
+    setRefreshInterval("")
+    setAutoCheckIn(false)
+    setCheckInUnavailable(false)
+    setShowUnlockDialog(false)
+    setTags("")
+    setNotes("")
   }
 
   // 加载账号数据到表单
@@ -53,6 +83,17 @@ export default function EditAccountDialog({ isOpen, onClose, account }: EditAcco
         setAccessToken(siteAccount.account_info.access_token)
         setUserId(siteAccount.account_info.id.toString())
         setExchangeRate(siteAccount.exchange_rate.toString())
+        setSiteType(siteAccount.site_type ?? DEFAULT_SITE_TYPE)
+        setDetectedFingerprint(siteAccount.site_fingerprint ?? null)
+        setLowBalanceThreshold(siteAccount.low_balance_threshold?.toString() ?? "")
+        setDailyBudget(siteAccount.daily_budget?.amount.toString() ?? "")
+        setDailyBudgetCurrency(siteAccount.daily_budget?.currency ?? 'USD')
+        setRefreshMode(siteAccount.refresh_policy?.mode ?? 'auto')
+        setRefreshInterval(siteAccount.refresh_policy?.interval?.toString() ?? "")
+        setAutoCheckIn(!!siteAccount.auto_check_in)
+        setCheckInUnavailable((await siteCapabilities.get(siteAccount.site_url))?.check_in === false)
+        setTags(siteAccount.tags?.join(', ') ?? "")
+        setNotes(siteAccount.notes ?? "")
       }
     } catch (error) {
       console.error('加载账号数据失败:', error)
@@ -63,11 +104,15 @@ export default function EditAccountDialog({ isOpen, onClose, account }: EditAcco
     if (isOpen && account) {
       resetForm()
       loadAccountData(account.id)
+      vaultService.isLocked().then(setShowUnlockDialog)
     } else if (!isOpen) {
       resetForm()
     }
   }, [isOpen, account])
 
+  // 站点是否支持签到，随站点类型和识别结果变化
+  const checkInSupported = supportsCheckIn(siteType, detectedFingerprint ?? undefined)
+
   const handleAutoDetect = async () => {
     if (!url.trim()) {
       return
@@ -89,6 +134,8 @@ export default function EditAccountDialog({ isOpen, onClose, account }: EditAcco
         setUsername(result.data.username)
         setAccessToken(result.data.accessToken)
         setUserId(result.data.userId)
+        setSiteType(result.data.siteType)
+        setDetectedFingerprint(result.data.fingerprint ?? null)
         
         // 设置充值比例默认值
         if (result.data.exchangeRate) {
@@ -126,7 +173,13 @@ export default function EditAccountDialog({ isOpen, onClose, account }: EditAcco
       return
     }
 
+    if (await vaultService.isLocked()) {
+      setShowUnlockDialog(true)
+      return
+    }
+
     setIsSaving(true)
+    const parsedTags = normalizeTags(tags)
     
     try {
       await toast.promise(
@@ -137,7 +190,23 @@ export default function EditAccountDialog({ isOpen, onClose, account }: EditAcco
           username.trim(),
           accessToken.trim(),
           userId.trim(),
-          exchangeRate
+          exchangeRate,
+          siteType,
+          {
+            low_balance_threshold: lowBalanceThreshold.trim() ? parseFloat(lowBalanceThreshold) : undefined,
+            daily_budget: dailyBudget.trim()
+              ? { amount: parseFloat(dailyBudget), currency: dailyBudgetCurrency }
+              : undefined,
+            refresh_policy: refreshMode === 'auto'
+              ? undefined
+              : {
+                  mode: refreshMode,
+                  interval: refreshMode === 'custom' ? Number(refreshInterval) : undefined
+                },
+            auto_check_in: checkInSupported && autoCheckIn ? true : undefined,
+            tags: parsedTags.length > 0 ? parsedTags : undefined,
+            notes: notes.trim() || undefined
+          }
         ),
         {
           loading: '正在保存更改...',
@@ -386,6 +455,32 @@ export default function EditAccountDialog({ isOpen, onClose, account }: EditAcco
                       </div>
                     </div>
 
+                    {/* 站点类型 */}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        站点类型
+                      </label>
+                      <div className="relative">
+                        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                          <ServerStackIcon className="h-5 w-5 text-gray-400" />
+                        </div>
+                        <select
+                          value={siteType}
+                          onChange={(e) => setSiteType(e.target.value as SiteType)}
+                          className="block w-full pl-10 py-3 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent transition-colors"
+                        >
+                          {(Object.keys(SITE_ADAPTERS) as SiteType[]).map((type) => (
+                            <option key={type} value={type}>{SITE_ADAPTERS[type].name}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <p className="mt-1 text-xs text-gray-500">
+                        {detectedFingerprint
+                          ? `已识别为 ${getSiteProductLabel(siteType, detectedFingerprint)}${detectedFingerprint.system_name ? `（${detectedFingerprint.system_name}）` : ''}，识别有误时可手动调整`
+                          : '自动识别时会根据站点信息判断，识别有误时可手动调整'}
+                      </p>
+                    </div>
+
                     {/* 充值金额比例 */}
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -423,6 +518,206 @@ export default function EditAccountDialog({ isOpen, onClose, account }: EditAcco
                         </p>
                       )}
                     </div>
+
+                    {/* 低余额提醒阈值 */}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        低余额提醒阈值 (USD)
+                      </label>
+                      <div className="relative">
+                        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                          <BellAlertIcon className="h-5 w-5 text-gray-400" />
+                        </div>
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={lowBalanceThreshold}
+                          onChange={(e) => setLowBalanceThreshold(e.target.value)}
+                          placeholder="留空使用全局默认值"
+                          className={`block w-full pl-10 py-3 border rounded-lg text-sm placeholder-gray-400 focus:outline-none focus:ring-2 transition-colors ${
+                            isValidLowBalanceThreshold(lowBalanceThreshold)
+                              ? 'border-gray-200 focus:ring-green-500 focus:border-transparent'
+                              : 'border-red-300 focus:ring-red-500 focus:border-red-500'
+                          }`}
+                        />
+                        <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
+                          <span className="text-sm text-gray-500">USD</span>
+                        </div>
+                      </div>
+                      <p className="mt-1 text-xs text-gray-500">
+                        余额低于此值时发送桌面通知，设置为 0 表示此账号不提醒
+                      </p>
+                      {!isValidLowBalanceThreshold(lowBalanceThreshold) && (
+                        <p className="mt-1 text-xs text-red-600">
+                          请输入有效的阈值 (大于等于 0)
+                        </p>
+                      )}
+                    </div>
+
+                    {/* 每日预算 */}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        每日预算
+                      </label>
+                      <div className="flex space-x-2">
+                        <div className="relative flex-1">
+                          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                            <BanknotesIcon className="h-5 w-5 text-gray-400" />
+                          </div>
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={dailyBudget}
+                            onChange={(e) => setDailyBudget(e.target.value)}
+                            placeholder="留空表示不限制"
+                            className={`block w-full pl-10 py-3 border rounded-lg text-sm placeholder-gray-400 focus:outline-none focus:ring-2 transition-colors ${
+                              isValidDailyBudget(dailyBudget)
+                                ? 'border-gray-200 focus:ring-green-500 focus:border-transparent'
+                                : 'border-red-300 focus:ring-red-500 focus:border-red-500'
+                            }`}
+                          />
+                        </div>
+                        <div className="flex bg-gray-100 rounded-lg p-1">
+                          {(['USD', 'CNY'] as const).map((currency) => (
+                            <button
+                              key={currency}
+                              type="button"
+                              onClick={() => setDailyBudgetCurrency(currency)}
+                              className={`px-3 text-sm font-medium rounded-md transition-colors ${
+                                dailyBudgetCurrency === currency
+                                  ? 'bg-white text-gray-900 shadow-sm'
+                                  : 'text-gray-500 hover:text-gray-700'
+                              }`}
+                            >
+                              {currency}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      <p className="mt-1 text-xs text-gray-500">
+                        今日消耗达到预算的设定比例时提醒，人民币按充值比例换算
+                      </p>
+                      {!isValidDailyBudget(dailyBudget) && (
+                        <p className="mt-1 text-xs text-red-600">
+                          请输入有效的预算金额 (大于 0)
+                        </p>
+                      )}
+                    </div>
+
+                    {/* 刷新策略 */}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        刷新策略
+                      </label>
+                      <div className="relative">
+                        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                          <ArrowPathIcon className="h-5 w-5 text-gray-400" />
+                        </div>
+                        <select
+                          value={refreshMode}
+                          onChange={(e) => setRefreshMode(e.target.value as AccountRefreshMode)}
+                          className="block w-full pl-10 py-3 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent transition-colors"
+                        >
+                          {(Object.keys(REFRESH_MODE_LABELS) as AccountRefreshMode[]).map((mode) => (
+                            <option key={mode} value={mode}>{REFRESH_MODE_LABELS[mode]}</option>
+                          ))}
+                        </select>
+                      </div>
+                      {refreshMode === 'custom' && (
+                        <div className="relative mt-2">
+                          <input
+                            type="number"
+                            min={MIN_REFRESH_INTERVAL}
+                            value={refreshInterval}
+                            onChange={(e) => setRefreshInterval(e.target.value)}
+                            placeholder="请输入刷新间隔"
+                            className={`block w-full px-3 py-3 border rounded-lg text-sm placeholder-gray-400 focus:outline-none focus:ring-2 transition-colors ${
+                              isValidRefreshInterval(refreshInterval)
+                                ? 'border-gray-200 focus:ring-green-500 focus:border-transparent'
+                                : 'border-red-300 focus:ring-red-500 focus:border-red-500'
+                            }`}
+                          />
+                          <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
+                            <span className="text-sm text-gray-500">秒</span>
+                          </div>
+                        </div>
+                      )}
+                      <p className="mt-1 text-xs text-gray-500">
+                        {refreshMode === 'manual' && '不参与后台自动刷新，仍可手动刷新'}
+                        {refreshMode === 'paused' && '不参与任何批量刷新，仅可在列表中单独刷新'}
+                        {refreshMode === 'custom' && `开启自动刷新时按此间隔在后台刷新（不小于 ${MIN_REFRESH_INTERVAL} 秒）`}
+                        {refreshMode === 'auto' && '按全局自动刷新间隔在后台刷新'}
+                      </p>
+                    </div>
+
+                    {/* 每日签到 */}
+                    <div>
+                      <div className="flex items-center justify-between">
+                        <label className="flex items-center text-sm font-medium text-gray-700">
+                          <CalendarDaysIcon className="h-5 w-5 text-gray-400 mr-2" />
+                          每日自动签到
+                        </label>
+                        <Switch
+                          checked={checkInSupported && autoCheckIn}
+                          onChange={setAutoCheckIn}
+                          disabled={!checkInSupported}
+                          className={`${
+                            checkInSupported && autoCheckIn ? 'bg-green-600' : 'bg-gray-200'
+                          } relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed`}
+                        >
+                          <span
+                            className={`${
+                              checkInSupported && autoCheckIn ? 'translate-x-6' : 'translate-x-1'
+                            } inline-block h-4 w-4 transform rounded-full bg-white transition-transform`}
+                          />
+                        </Switch>
+                      </div>
+                      <p className="mt-1 text-xs text-gray-500">
+                        {!checkInSupported
+                          ? '当前站点类型不支持签到，或站点未开启签到功能'
+                          : checkInUnavailable
+                            ? '上次签到时站点签到接口不可用，自动签到已暂停，一天后重新尝试'
+                            : '开启后每天在后台自动签到一次，签到结果和奖励额度记录在历史数据中'}
+                      </p>
+                    </div>
+
+                    {/* 标签 */}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        标签
+                      </label>
+                      <div className="relative">
+                        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                          <TagIcon className="h-5 w-5 text-gray-400" />
+                        </div>
+                        <input
+                          type="text"
+                          value={tags}
+                          onChange={(e) => setTags(e.target.value)}
+                          placeholder="如：公益, 主力, 备用"
+                          className="block w-full pl-10 py-3 border border-gray-200 rounded-lg text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent transition-colors"
+                        />
+                      </div>
+                      <p className="mt-1 text-xs text-gray-500">
+                        多个标签用逗号或空格分隔，可在账号列表中按标签筛选
+                      </p>
+                    </div>
+
+                    {/* 备注 */}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        备注
+                      </label>
+                      <textarea
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                        rows={2}
+                        placeholder="可选，如充值渠道、到期时间等"
+                        className="block w-full px-3 py-2 border border-gray-200 rounded-lg text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent transition-colors"
+                      />
+                    </div>
                   </div>
 
                   {/* 按钮组 */}
@@ -460,7 +755,7 @@ export default function EditAccountDialog({ isOpen, onClose, account }: EditAcco
                     {/* 保存按钮 */}
                     <button
                       type="submit"
-                      disabled={!siteName.trim() || !username.trim() || !accessToken.trim() || !userId.trim() || !isValidExchangeRate(exchangeRate) || isSaving}
+                      disabled={!siteName.trim() || !username.trim() || !accessToken.trim() || !userId.trim() || !isValidExchangeRate(exchangeRate) || !isValidLowBalanceThreshold(lowBalanceThreshold) || !isValidDailyBudget(dailyBudget) || (refreshMode === 'custom' && !isValidRefreshInterval(refreshInterval)) || isSaving}
                       className="flex-1 flex items-center justify-center space-x-2 px-4 py-2.5 text-sm font-medium text-white bg-gradient-to-r from-green-500 to-emerald-600 rounded-lg hover:from-green-600 hover:to-emerald-700 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed shadow-sm"
                     >
                       {isSaving ? (
@@ -505,6 +800,12 @@ export default function EditAccountDialog({ isOpen, onClose, account }: EditAcco
             </DialogPanel>
           </TransitionChild>
         </div>
+
+        <VaultUnlockDialog
+          isOpen={showUnlockDialog}
+          onClose={() => setShowUnlockDialog(false)}
+          onUnlocked={() => account && loadAccountData(account.id)}
+        />
       </Dialog>
     </Transition>
   )
@@ -2,9 +2,11 @@ import { ArrowsPointingOutIcon, Cog6ToothIcon, ArrowPathIcon } from "@heroicons/
 import { UI_CONSTANTS } from "../constants/ui"
 import Tooltip from "./Tooltip"
 import iconImage from "../assets/icon.png"
+import type { RefreshProgress } from "../types"
 
 interface HeaderSectionProps {
   isRefreshing: boolean
+  refreshProgress?: RefreshProgress | null
   onRefresh: () => void
   onOpenTab: () => void
   onOpenSettings: () => void
@@ -12,12 +14,13 @@ interface HeaderSectionProps {
 
 export default function HeaderSection({ 
   isRefreshing, 
+  refreshProgress,
   onRefresh, 
   onOpenTab,
   onOpenSettings
 }: HeaderSectionProps) {
   return (
-    <div className="flex items-center justify-between px-5 py-4 bg-white border-b border-gray-100 flex-shrink-0">
+    <div className="relative flex items-center justify-between px-5 py-4 bg-white border-b border-gray-100 flex-shrink-0">
       <div className="flex items-center space-x-3">
         <img 
           src={iconImage} 
@@ -31,6 +34,11 @@ export default function HeaderSection({
       </div>
       
       <div className="flex items-center space-x-2">
+        {refreshProgress && refreshProgress.total > 0 && (
+          <span className="text-xs text-gray-400">
+            {refreshProgress.completed}/{refreshProgress.total}
+          </span>
+        )}
         <Tooltip content="刷新数据">
           <button
             onClick={onRefresh}
@@ -56,6 +64,16 @@ export default function HeaderSection({
           <Cog6ToothIcon className="w-4 h-4" />
         </button>
       </div>
+
+      {/* 批量刷新进度条 */}
+      {refreshProgress && refreshProgress.total > 0 && (
+        <div className="absolute left-0 bottom-0 h-0.5 w-full bg-gray-100">
+          <div
+            className="h-full bg-blue-500 transition-all duration-300"
+            style={{ width: `${(refreshProgress.completed / refreshProgress.total) * 100}%` }}
+          />
+        </div>
+      )}
     </div>
   )
 }
\ No newline at end of file
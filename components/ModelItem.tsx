@@ -9,8 +9,10 @@ import {
   ChevronUpIcon,
   TagIcon,
   CurrencyDollarIcon,
-  ServerIcon
+  ServerIcon,
+  StarIcon
 } from '@heroicons/react/24/outline'
+import { StarIcon as StarSolidIcon } from '@heroicons/react/24/solid'
 import toast from 'react-hot-toast'
 import type { ModelPricing } from '../services/apiService'
 import type { CalculatedPrice } from '../utils/modelPricing'
@@ -23,7 +25,9 @@ import {
   formatPriceCompact, 
   getBillingModeText, 
   getBillingModeStyle,
-  getEndpointTypesText 
+  getEndpointTypesText,
+  getExtraPrices,
+  formatTierThreshold
 } from '../utils/modelPricing'
 
 interface ModelItemProps {
@@ -37,6 +41,8 @@ interface ModelItemProps {
   onGroupClick?: (group: string) => void // 新增：点击分组时的回调函数
   availableGroups?: string[] // 新增：用户的所有可用分组列表
   isAllGroupsMode?: boolean // 新增：是否为"所有分组"模式
+  isWatched?: boolean // 是否已关注（涨价提醒）
+  onToggleWatch?: (modelName: string) => void // 切换关注状态
 }
 
 export default function ModelItem({
@@ -49,7 +55,9 @@ export default function ModelItem({
   userGroup,
   onGroupClick,
   availableGroups = [],
-  isAllGroupsMode = false
+  isAllGroupsMode = false,
+  isWatched = false,
+  onToggleWatch
 }: ModelItemProps) {
   const [isExpanded, setIsExpanded] = useState(false)
   
@@ -60,6 +68,10 @@ export default function ModelItem({
   // 获取计费模式样式
   const billingStyle = getBillingModeStyle(model.quota_type)
   
+  // 缓存、图片、音频等附加价格
+  const extraPrices = getExtraPrices(calculatedPrice)
+  const cacheReadPrice = calculatedPrice.cacheRead
+  
   // 检查模型是否对当前用户分组可用
   const isAvailableForUser = isAllGroupsMode 
     ? availableGroups.some(group => model.enable_groups.includes(group)) // 所有分组模式：任何一个用户分组可用即可
@@ -108,6 +120,19 @@ export default function ModelItem({
                 >
                   <DocumentDuplicateIcon className="w-3 h-3 text-gray-400" />
                 </button>
+                
+                {/* 关注按钮 */}
+                {onToggleWatch && (
+                  <button
+                    onClick={() => onToggleWatch(model.model_name)}
+                    className="p-1 hover:bg-gray-100 rounded transition-colors"
+                    title={isWatched ? '取消关注' : '关注此模型，涨价时提醒'}
+                  >
+                    {isWatched
+                      ? <StarSolidIcon className="w-3.5 h-3.5 text-yellow-500" />
+                      : <StarIcon className="w-3.5 h-3.5 text-gray-400" />}
+                  </button>
+                )}
               </div>
               
               {/* 计费模式标签 */}
@@ -173,6 +198,28 @@ export default function ModelItem({
                     </span>
                   </div>
                   
+                  {/* 缓存读取价格 */}
+                  {cacheReadPrice && (
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm text-gray-600">缓存:</span>
+                      <span className={`text-sm ${
+                        isAvailableForUser ? 'text-amber-600' : 'text-gray-500'
+                      }`}>
+                        {showRealPrice 
+                          ? `${formatPriceCompact(cacheReadPrice.CNY, 'CNY')}/M`
+                          : `${formatPriceCompact(cacheReadPrice.USD, 'USD')}/M`
+                        }
+                      </span>
+                    </div>
+                  )}
+                  
+                  {/* 分档计费标记 */}
+                  {calculatedPrice.tiers && calculatedPrice.tiers.length > 0 && (
+                    <span className="inline-flex items-center px-2 py-0.5 rounded text-xs bg-orange-50 text-orange-700" title="提示长度超过阈值后价格变化，展开查看详情">
+                      分档计费
+                    </span>
+                  )}
+                  
                   {/* 倍率显示 */}
                   {showRatioColumn && (
                     <div className="flex items-center space-x-2">
@@ -292,7 +339,50 @@ export default function ModelItem({
                       CNY: {formatPrice(calculatedPrice.outputCNY, 'CNY')}
                     </div>
                   </div>
+                  {extraPrices.map(item => (
+                    <div key={item.key} className="space-y-1">
+                      <div className="text-gray-500">{item.label}(1M tokens)</div>
+                      <div className="font-medium">
+                        USD: {formatPrice(item.price.USD, 'USD')}
+                      </div>
+                      <div className="font-medium">
+                        CNY: {formatPrice(item.price.CNY, 'CNY')}
+                      </div>
+                    </div>
+                  ))}
                 </div>
+                
+                {/* 分档计费 */}
+                {calculatedPrice.tiers && calculatedPrice.tiers.length > 0 && (
+                  <div className="mt-3">
+                    <div className="text-xs text-gray-500 mb-1">分档计费（按单次请求的提示 tokens，每 1M tokens）</div>
+                    <table className="min-w-full text-xs">
+                      <thead className="bg-gray-50 text-gray-500">
+                        <tr>
+                          <th className="px-2 py-1 text-left font-medium">提示长度</th>
+                          <th className="px-2 py-1 text-right font-medium">输入</th>
+                          <th className="px-2 py-1 text-right font-medium">输出</th>
+                          <th className="px-2 py-1 text-right font-medium">缓存读取</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {calculatedPrice.tiers.map(tier => {
+                          const currency = showRealPrice ? 'CNY' : 'USD'
+                          return (
+                            <tr key={tier.minPromptTokens}>
+                              <td className="px-2 py-1 text-gray-600">≥ {formatTierThreshold(tier.minPromptTokens)}</td>
+                              <td className="px-2 py-1 text-right font-medium">{formatPrice(tier.input[currency], currency)}</td>
+                              <td className="px-2 py-1 text-right font-medium">{formatPrice(tier.output[currency], currency)}</td>
+                              <td className="px-2 py-1 text-right font-medium">
+                                {tier.cacheRead ? formatPrice(tier.cacheRead[currency], currency) : '-'}
+                              </td>
+                            </tr>
+                          )
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
               </div>
             )}
           </div>
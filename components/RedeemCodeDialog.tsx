@@ -0,0 +1,216 @@
+import { Fragment, useState, useEffect } from "react"
+import toast from 'react-hot-toast'
+import { Dialog, DialogPanel, DialogTitle, Transition, TransitionChild } from "@headlessui/react"
+import { XMarkIcon, GiftIcon, CheckCircleIcon, XCircleIcon } from "@heroicons/react/24/outline"
+import { UI_CONSTANTS } from "../constants/ui"
+import { parseRedeemCodes, redeemCodesForAccount, type RedeemCodeResult } from "../services/accountOperations"
+import type { DisplaySiteData } from "../types"
+
+interface RedeemCodeDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  account: DisplaySiteData | null
+  onRedeemed: () => void
+}
+
+// 将额度 quota 转换为美元显示
+const formatQuotaUSD = (quota: number) => `$${(quota / UI_CONSTANTS.EXCHANGE_RATE.CONVERSION_FACTOR).toFixed(2)}`
+
+export default function RedeemCodeDialog({ isOpen, onClose, account, onRedeemed }: RedeemCodeDialogProps) {
+  const [isBatchMode, setIsBatchMode] = useState(false)
+  const [input, setInput] = useState("")
+  const [isRedeeming, setIsRedeeming] = useState(false)
+  const [results, setResults] = useState<RedeemCodeResult[]>([])
+
+  const codes = isBatchMode ? parseRedeemCodes(input) : (input.trim() ? [input.trim()] : [])
+  const totalQuota = results.reduce((sum, result) => sum + result.quota, 0)
+
+  // 关闭时重置状态
+  useEffect(() => {
+    if (!isOpen) {
+      setIsBatchMode(false)
+      setInput("")
+      setResults([])
+    }
+  }, [isOpen])
+
+  const handleRedeem = async () => {
+    if (!account || codes.length === 0) return
+
+    setIsRedeeming(true)
+    setResults([])
+    try {
+      const redeemed = await redeemCodesForAccount(account.id, codes, (result) => {
+        setResults(prev => [...prev, result])
+      })
+
+      const successResults = redeemed.filter(result => result.success)
+      if (successResults.length === 0) {
+        toast.error(redeemed.length === 1 ? `兑换失败: ${redeemed[0].error}` : '所有兑换码均兑换失败')
+        return
+      }
+
+      const addedQuota = successResults.reduce((sum, result) => sum + result.quota, 0)
+      toast.success(`成功兑换 ${successResults.length} 个兑换码，增加 ${formatQuotaUSD(addedQuota)}`)
+      onRedeemed()
+      // 单个兑换成功后直接关闭，批量模式保留结果供查看
+      if (!isBatchMode) {
+        onClose()
+      } else {
+        setInput(redeemed.filter(result => !result.success).map(result => result.code).join('\n'))
+      }
+    } catch (error) {
+      console.error('兑换失败:', error)
+      const errorMessage = error instanceof Error ? error.message : '未知错误'
+      toast.error(`兑换失败: ${errorMessage}`)
+    } finally {
+      setIsRedeeming(false)
+    }
+  }
+
+  return (
+    <Transition show={isOpen} as={Fragment}>
+      <Dialog
+        onClose={() => !isRedeeming && onClose()}
+        className="relative z-50"
+      >
+        {/* 背景遮罩动画 */}
+        <TransitionChild
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black/30 backdrop-blur-sm" aria-hidden="true" />
+        </TransitionChild>
+
+        {/* 居中容器 */}
+        <div className="fixed inset-0 flex items-center justify-center p-4">
+          {/* 弹窗面板动画 */}
+          <TransitionChild
+            as={Fragment}
+            enter="ease-out duration-300"
+            enterFrom="opacity-0 scale-95 translate-y-4"
+            enterTo="opacity-100 scale-100 translate-y-0"
+            leave="ease-in duration-200"
+            leaveFrom="opacity-100 scale-100 translate-y-0"
+            leaveTo="opacity-0 scale-95 translate-y-4"
+          >
+            <DialogPanel className="w-full max-w-md bg-white rounded-lg shadow-xl transform transition-all max-h-[85vh] overflow-hidden flex flex-col">
+              {/* 头部 */}
+              <div className="flex items-center justify-between p-4 border-b border-gray-100">
+                <div className="flex items-center space-x-3">
+                  <div className="w-8 h-8 bg-gradient-to-r from-orange-400 to-pink-500 rounded-lg flex items-center justify-center">
+                    <GiftIcon className="w-4 h-4 text-white" />
+                  </div>
+                  <div>
+                    <DialogTitle className="text-lg font-semibold text-gray-900">
+                      兑换码充值
+                    </DialogTitle>
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      {account?.name}
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={onClose}
+                  disabled={isRedeeming}
+                  className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  <XMarkIcon className="w-4 h-4" />
+                </button>
+              </div>
+
+              {/* 内容区域 */}
+              <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                {/* 模式切换 */}
+                <div className="flex bg-gray-100 rounded-lg p-1">
+                  {[false, true].map(batch => (
+                    <button
+                      key={batch ? 'batch' : 'single'}
+                      onClick={() => setIsBatchMode(batch)}
+                      disabled={isRedeeming}
+                      className={`flex-1 py-1.5 text-sm rounded-md transition-colors ${
+                        isBatchMode === batch ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                      }`}
+                    >
+                      {batch ? '批量兑换' : '单个兑换'}
+                    </button>
+                  ))}
+                </div>
+
+                {isBatchMode ? (
+                  <div>
+                    <textarea
+                      value={input}
+                      onChange={(e) => setInput(e.target.value)}
+                      disabled={isRedeeming}
+                      rows={6}
+                      placeholder="粘贴多个兑换码，每行一个（也支持空格或逗号分隔）"
+                      className="block w-full px-3 py-2 border border-gray-200 rounded-lg text-sm font-mono placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-orange-400 focus:border-transparent"
+                    />
+                    <p className="mt-1 text-xs text-gray-500">
+                      已识别 {codes.length} 个兑换码（已去除重复项），将依次兑换
+                    </p>
+                  </div>
+                ) : (
+                  <input
+                    type="text"
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleRedeem()}
+                    disabled={isRedeeming}
+                    placeholder="请输入兑换码"
+                    className="block w-full px-3 py-3 border border-gray-200 rounded-lg text-sm font-mono placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-orange-400 focus:border-transparent"
+                  />
+                )}
+
+                {/* 兑换结果 */}
+                {results.length > 0 && (
+                  <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                    {results.map(result => (
+                      <div key={result.code} className="flex items-center justify-between px-3 py-2 text-xs">
+                        <div className="flex items-center space-x-2 min-w-0">
+                          {result.success
+                            ? <CheckCircleIcon className="w-4 h-4 text-green-500 flex-shrink-0" />
+                            : <XCircleIcon className="w-4 h-4 text-red-500 flex-shrink-0" />}
+                          <span className="font-mono text-gray-700 truncate">{result.code}</span>
+                        </div>
+                        <span className={`ml-2 flex-shrink-0 ${result.success ? 'text-green-600' : 'text-red-500'}`}>
+                          {result.success ? `+${formatQuotaUSD(result.quota)}` : result.error}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* 底部操作区 */}
+              <div className="px-4 py-3 border-t border-gray-100 bg-gray-50/50">
+                <div className="flex items-center justify-between">
+                  <div className="text-xs text-gray-500">
+                    {results.length > 0 && (
+                      <span>
+                        {isRedeeming ? `正在兑换 ${results.length}/${codes.length}` : `共增加 ${formatQuotaUSD(totalQuota)}`}
+                      </span>
+                    )}
+                  </div>
+                  <button
+                    onClick={handleRedeem}
+                    disabled={codes.length === 0 || isRedeeming}
+                    className="px-4 py-1.5 text-sm font-medium text-white bg-orange-500 rounded hover:bg-orange-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {isRedeeming ? '兑换中...' : '兑换'}
+                  </button>
+                </div>
+              </div>
+            </DialogPanel>
+          </TransitionChild>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
@@ -0,0 +1,68 @@
+import { getCurrencySymbol, formatTokenCount } from "../utils/formatters"
+import type { BreakdownDimension, BreakdownRow } from "../utils/usageBreakdown"
+
+interface UsageBreakdownTableProps {
+  rows: BreakdownRow[]
+  dimension: BreakdownDimension
+  currencyType: 'USD' | 'CNY'
+  compact?: boolean // 弹出页中使用紧凑样式
+}
+
+export default function UsageBreakdownTable({ rows, dimension, currencyType, compact = false }: UsageBreakdownTableProps) {
+  const symbol = getCurrencySymbol(currencyType)
+  const total = rows.reduce((sum, row) => sum + row.consumption[currencyType], 0)
+  const cellPadding = compact ? 'px-2 py-1.5' : 'px-4 py-2'
+  const emptyName = dimension === 'by_model' ? '未知模型' : '未命名令牌'
+
+  if (rows.length === 0) {
+    return (
+      <p className={`text-center text-gray-400 ${compact ? 'py-6 text-xs' : 'py-8 text-sm'}`}>
+        今日暂无消耗记录
+      </p>
+    )
+  }
+
+  return (
+    <table className={`min-w-full ${compact ? 'text-xs' : 'text-sm'}`}>
+      <thead className="bg-gray-50 text-gray-500">
+        <tr>
+          <th className={`${cellPadding} text-left font-medium`}>{dimension === 'by_model' ? '模型' : '令牌'}</th>
+          <th className={`${cellPadding} text-right font-medium`}>请求数</th>
+          {!compact && <th className={`${cellPadding} text-right font-medium`}>提示 / 补全 Tokens</th>}
+          <th className={`${cellPadding} text-right font-medium`}>消耗</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {rows.map(row => {
+          const amount = row.consumption[currencyType]
+          const percent = total > 0 ? (amount / total) * 100 : 0
+          return (
+            <tr key={row.name}>
+              <td className={`${cellPadding} text-gray-900`}>
+                <div className="truncate max-w-xs" title={row.name || emptyName}>
+                  {row.name || <span className="text-gray-400">{emptyName}</span>}
+                </div>
+                {/* 占今日总消耗的比例 */}
+                <div className="mt-1 h-1 bg-gray-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-green-400" style={{ width: `${percent}%` }} />
+                </div>
+              </td>
+              <td className={`${cellPadding} text-right text-gray-600`}>{row.requests}</td>
+              {!compact && (
+                <td className={`${cellPadding} text-right text-gray-600`}>
+                  {row.tokensCombined
+                    ? <span title="部分站点只提供 token 总数">合计 {formatTokenCount(row.promptTokens + row.completionTokens)}</span>
+                    : <>{formatTokenCount(row.promptTokens)} / {formatTokenCount(row.completionTokens)}</>}
+                </td>
+              )}
+              <td className={`${cellPadding} text-right text-green-600 whitespace-nowrap`}>
+                {symbol}{amount.toFixed(amount < 0.01 && amount > 0 ? 4 : 2)}
+                <span className="ml-1 text-gray-400">{percent.toFixed(0)}%</span>
+              </td>
+            </tr>
+          )
+        })}
+      </tbody>
+    </table>
+  )
+}
@@ -0,0 +1,216 @@
+import { useState, useEffect, useCallback } from "react"
+import toast from 'react-hot-toast'
+import { ShieldCheckIcon, LockClosedIcon, LockOpenIcon } from "@heroicons/react/24/outline"
+import { vaultService } from "../services/vaultService"
+import {
+  enableVault,
+  disableVault,
+  changeVaultPassphrase,
+  validatePassphrase
+} from "../services/vaultOperations"
+import type { VaultStatus } from "../types"
+
+// 当前正在进行的操作
+type VaultAction = 'enable' | 'unlock' | 'change' | 'disable' | null
+
+const INPUT_CLASS = "w-full px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+
+/**
+ * 保险库设置：启用后访问令牌和 WebDAV 密码使用口令加密保存
+ */
+export default function VaultSettings() {
+  const [status, setStatus] = useState<VaultStatus | null>(null)
+  const [action, setAction] = useState<VaultAction>(null)
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [passphrase, setPassphrase] = useState("")
+  const [newPassphrase, setNewPassphrase] = useState("")
+  const [confirmation, setConfirmation] = useState("")
+
+  const loadStatus = useCallback(async () => {
+    setStatus(await vaultService.getStatus())
+  }, [])
+
+  useEffect(() => {
+    loadStatus()
+  }, [loadStatus])
+
+  const startAction = (next: VaultAction) => {
+    setAction(next)
+    setPassphrase("")
+    setNewPassphrase("")
+    setConfirmation("")
+  }
+
+  // 执行操作，成功后重新读取状态并收起表单
+  const runAction = async (task: () => Promise<boolean>, successMessage: string) => {
+    setIsProcessing(true)
+    try {
+      const success = await task()
+      if (!success) {
+        toast.error('口令错误')
+        return
+      }
+      toast.success(successMessage)
+      startAction(null)
+      await loadStatus()
+    } catch (error) {
+      console.error('保险库操作失败:', error)
+      toast.error(`操作失败: ${error instanceof Error ? error.message : '未知错误'}`)
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleSubmit = () => {
+    switch (action) {
+      case 'enable': {
+        const error = validatePassphrase(newPassphrase, confirmation)
+        if (error) return toast.error(error)
+        return runAction(async () => {
+          await enableVault(newPassphrase)
+          return true
+        }, '保险库已启用，访问令牌和 WebDAV 密码已加密')
+      }
+      case 'unlock':
+        return runAction(() => vaultService.unlock(passphrase), '保险库已解锁')
+      case 'change': {
+        const error = validatePassphrase(newPassphrase, confirmation)
+        if (error) return toast.error(error)
+        return runAction(() => changeVaultPassphrase(passphrase, newPassphrase), '口令已修改')
+      }
+      case 'disable':
+        return runAction(() => disableVault(passphrase), '保险库已停用，数据已恢复为明文保存')
+    }
+  }
+
+  const handleLock = async () => {
+    await vaultService.lock()
+    toast.success('保险库已锁定')
+    await loadStatus()
+  }
+
+  if (!status) {
+    return null
+  }
+
+  const needsCurrent = action === 'unlock' || action === 'change' || action === 'disable'
+  const needsNew = action === 'enable' || action === 'change'
+
+  return (
+    <div className="py-4 border-b border-gray-100 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <ShieldCheckIcon className="w-5 h-5 text-gray-400" />
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 flex items-center">
+              保险库
+              {status.enabled && (
+                <span className={`ml-2 px-1.5 py-0.5 text-xs rounded flex items-center ${
+                  status.unlocked ? 'bg-green-50 text-green-600' : 'bg-gray-100 text-gray-500'
+                }`}>
+                  {status.unlocked
+                    ? <LockOpenIcon className="w-3 h-3 mr-0.5" />
+                    : <LockClosedIcon className="w-3 h-3 mr-0.5" />}
+                  {status.unlocked ? '已解锁' : '已锁定'}
+                </span>
+              )}
+            </h3>
+            <p className="text-sm text-gray-500">
+              使用口令加密保存访问令牌和 WebDAV 密码，每次打开浏览器后需要解锁一次。口令无法找回，请牢记
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2 flex-shrink-0 ml-4">
+          {!status.enabled && (
+            <button
+              onClick={() => startAction('enable')}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+            >
+              启用
+            </button>
+          )}
+          {status.enabled && !status.unlocked && (
+            <button
+              onClick={() => startAction('unlock')}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+            >
+              解锁
+            </button>
+          )}
+          {status.enabled && status.unlocked && (
+            <>
+              <button
+                onClick={handleLock}
+                className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                立即锁定
+              </button>
+              <button
+                onClick={() => startAction('change')}
+                className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                修改口令
+              </button>
+              <button
+                onClick={() => startAction('disable')}
+                className="px-3 py-1.5 text-sm text-red-600 border border-red-200 rounded-md hover:bg-red-50 transition-colors"
+              >
+                停用
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {action && (
+        <div className="ml-8 p-4 bg-gray-50 rounded-lg space-y-3 max-w-md">
+          {needsCurrent && (
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder={action === 'change' ? '当前口令' : '口令'}
+              className={INPUT_CLASS}
+            />
+          )}
+          {needsNew && (
+            <>
+              <input
+                type="password"
+                value={newPassphrase}
+                onChange={(e) => setNewPassphrase(e.target.value)}
+                placeholder="新口令"
+                className={INPUT_CLASS}
+              />
+              <input
+                type="password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                placeholder="再次输入新口令"
+                className={INPUT_CLASS}
+              />
+            </>
+          )}
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => startAction(null)}
+              disabled={isProcessing}
+              className="px-3 py-1.5 text-sm text-gray-600 rounded-md hover:bg-gray-100 disabled:opacity-50 transition-colors"
+            >
+              取消
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={isProcessing || (needsCurrent && !passphrase) || (needsNew && !newPassphrase)}
+              className={`px-3 py-1.5 text-sm font-medium text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${
+                action === 'disable' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              {isProcessing ? '处理中...' : '确认'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
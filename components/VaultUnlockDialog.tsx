@@ -0,0 +1,143 @@
+import { Fragment, useState, useEffect } from "react"
+import toast from 'react-hot-toast'
+import { Dialog, DialogPanel, DialogTitle, Transition, TransitionChild } from "@headlessui/react"
+import { XMarkIcon, LockClosedIcon } from "@heroicons/react/24/outline"
+import { vaultService } from "../services/vaultService"
+
+interface VaultUnlockDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  onUnlocked: () => void
+}
+
+export default function VaultUnlockDialog({ isOpen, onClose, onUnlocked }: VaultUnlockDialogProps) {
+  const [passphrase, setPassphrase] = useState("")
+  const [isUnlocking, setIsUnlocking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // 关闭时重置状态
+  useEffect(() => {
+    if (!isOpen) {
+      setPassphrase("")
+      setError(null)
+    }
+  }, [isOpen])
+
+  const handleUnlock = async () => {
+    if (!passphrase || isUnlocking) return
+
+    setIsUnlocking(true)
+    setError(null)
+    try {
+      const success = await vaultService.unlock(passphrase)
+      if (!success) {
+        setError('口令错误，请重试')
+        return
+      }
+      toast.success('保险库已解锁')
+      onUnlocked()
+      onClose()
+    } catch (error) {
+      console.error('解锁保险库失败:', error)
+      setError(error instanceof Error ? error.message : '未知错误')
+    } finally {
+      setIsUnlocking(false)
+    }
+  }
+
+  return (
+    <Transition show={isOpen} as={Fragment}>
+      <Dialog
+        onClose={() => !isUnlocking && onClose()}
+        className="relative z-50"
+      >
+        {/* 背景遮罩动画 */}
+        <TransitionChild
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black/30 backdrop-blur-sm" aria-hidden="true" />
+        </TransitionChild>
+
+        {/* 居中容器 */}
+        <div className="fixed inset-0 flex items-center justify-center p-4">
+          {/* 弹窗面板动画 */}
+          <TransitionChild
+            as={Fragment}
+            enter="ease-out duration-300"
+            enterFrom="opacity-0 scale-95 translate-y-4"
+            enterTo="opacity-100 scale-100 translate-y-0"
+            leave="ease-in duration-200"
+            leaveFrom="opacity-100 scale-100 translate-y-0"
+            leaveTo="opacity-0 scale-95 translate-y-4"
+          >
+            <DialogPanel className="w-full max-w-sm bg-white rounded-lg shadow-xl transform transition-all">
+              {/* 头部 */}
+              <div className="flex items-center justify-between p-4 border-b border-gray-100">
+                <div className="flex items-center space-x-3">
+                  <div className="w-8 h-8 bg-gradient-to-r from-slate-500 to-gray-700 rounded-lg flex items-center justify-center">
+                    <LockClosedIcon className="w-4 h-4 text-white" />
+                  </div>
+                  <div>
+                    <DialogTitle className="text-lg font-semibold text-gray-900">
+                      解锁保险库
+                    </DialogTitle>
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      访问令牌已加密保存，解锁后才能刷新账号
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={onClose}
+                  disabled={isUnlocking}
+                  className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  <XMarkIcon className="w-4 h-4" />
+                </button>
+              </div>
+
+              {/* 内容区域 */}
+              <div className="p-4 space-y-2">
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+                  disabled={isUnlocking}
+                  autoFocus
+                  placeholder="请输入保险库口令"
+                  className="block w-full px-3 py-3 border border-gray-200 rounded-lg text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-transparent"
+                />
+                {error && <p className="text-xs text-red-500">{error}</p>}
+                <p className="text-xs text-gray-400">解锁状态保持到浏览器关闭</p>
+              </div>
+
+              {/* 底部操作区 */}
+              <div className="px-4 py-3 border-t border-gray-100 bg-gray-50/50 flex items-center justify-end space-x-2">
+                <button
+                  onClick={onClose}
+                  disabled={isUnlocking}
+                  className="px-4 py-1.5 text-sm text-gray-600 rounded hover:bg-gray-100 disabled:opacity-50 transition-colors"
+                >
+                  稍后
+                </button>
+                <button
+                  onClick={handleUnlock}
+                  disabled={!passphrase || isUnlocking}
+                  className="px-4 py-1.5 text-sm font-medium text-white bg-gray-800 rounded hover:bg-gray-900 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {isUnlocking ? '解锁中...' : '解锁'}
+                </button>
+              </div>
+            </DialogPanel>
+          </TransitionChild>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
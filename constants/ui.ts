@@ -39,6 +39,12 @@ export const UI_CONSTANTS = {
     CONVERSION_FACTOR: 500000 // USD to quota conversion
   },
 
+  // 每日预算相关
+  BUDGET: {
+    WARNING_PERCENT: 80, // 今日消耗达到预算此比例时高亮提示
+    EXCEEDED_PERCENT: 100
+  },
+
   // 样式类名
   STYLES: {
     // 按钮样式
@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback } from "react"
 import { accountStorage } from "../services/accountStorage"
-import type { SiteAccount, AccountStats, DisplaySiteData } from "../types"
+import type { SiteAccount, AccountStats, DisplaySiteData, RefreshProgress } from "../types"
 
 interface UseAccountDataResult {
   // 数据状态
@@ -12,6 +12,7 @@ interface UseAccountDataResult {
   // 加载状态
   isInitialLoad: boolean
   isRefreshing: boolean
+  refreshProgress: RefreshProgress | null
   
   // 动画相关状态
   prevTotalConsumption: { USD: number; CNY: number }
@@ -38,6 +39,7 @@ export const useAccountData = (): UseAccountDataResult => {
   // 加载状态
   const [isInitialLoad, setIsInitialLoad] = useState(true)
   const [isRefreshing, setIsRefreshing] = useState(false)
+  const [refreshProgress, setRefreshProgress] = useState<RefreshProgress | null>(null)
   
   // 动画相关状态
   const [prevTotalConsumption, setPrevTotalConsumption] = useState({ USD: 0, CNY: 0 })
@@ -97,7 +99,9 @@ export const useAccountData = (): UseAccountDataResult => {
     setIsRefreshing(true)
     try {
       // 刷新所有账号数据
-      const refreshResult = await accountStorage.refreshAllAccounts()
+      const refreshResult = await accountStorage.refreshAllAccounts({
+        onProgress: setRefreshProgress
+      })
       console.log('刷新结果:', refreshResult)
       
       // 重新加载显示数据
@@ -113,6 +117,7 @@ export const useAccountData = (): UseAccountDataResult => {
       throw error
     } finally {
       setIsRefreshing(false)
+      setRefreshProgress(null)
     }
   }, [loadAccountData])
 
@@ -131,6 +136,7 @@ export const useAccountData = (): UseAccountDataResult => {
     // 加载状态
     isInitialLoad,
     isRefreshing,
+    refreshProgress,
     
     // 动画相关状态
     prevTotalConsumption,
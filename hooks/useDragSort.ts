@@ -0,0 +1,94 @@
+import { useState, useCallback } from "react"
+import type { DragEvent } from "react"
+
+interface DragItemProps {
+  draggable: boolean
+  onDragStart: (e: DragEvent) => void
+  onDragOver: (e: DragEvent) => void
+  onDragLeave: () => void
+  onDrop: (e: DragEvent) => void
+  onDragEnd: () => void
+}
+
+interface UseDragSortResult {
+  draggingId: string | null
+  overId: string | null
+  getDragProps: (id: string) => DragItemProps
+}
+
+/**
+ * 将 fromId 移动到 toId 的位置，返回新的 ID 顺序
+ * 向下拖动时放在目标之后，向上拖动时放在目标之前
+ */
+export const moveId = (ids: string[], fromId: string, toId: string): string[] => {
+  const fromIndex = ids.indexOf(fromId)
+  const toIndex = ids.indexOf(toId)
+  if (fromIndex === -1 || toIndex === -1 || fromIndex === toIndex) {
+    return ids
+  }
+  const next = [...ids]
+  next.splice(fromIndex, 1)
+  next.splice(toIndex, 0, fromId)
+  return next
+}
+
+/**
+ * 基于原生拖放事件的列表排序
+ * @param ids 当前列表的 ID 顺序
+ * @param onReorder 拖放完成后回调新的 ID 顺序；设置了 getGroup 时只包含被拖动项所在分段的 ID
+ * @param enabled 是否允许拖动
+ * @param getGroup 获取列表项所在的分段（如置顶 / 未置顶），只允许在同一分段内拖动
+ */
+export const useDragSort = (
+  ids: string[],
+  onReorder: (orderedIds: string[]) => void,
+  enabled = true,
+  getGroup?: (id: string) => string
+): UseDragSortResult => {
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [overId, setOverId] = useState<string | null>(null)
+
+  const reset = useCallback(() => {
+    setDraggingId(null)
+    setOverId(null)
+  }, [])
+
+  const isSameGroup = useCallback((fromId: string, toId: string) => {
+    return !getGroup || getGroup(fromId) === getGroup(toId)
+  }, [getGroup])
+
+  const getDragProps = useCallback((id: string): DragItemProps => ({
+    draggable: enabled,
+    onDragStart: (e: DragEvent) => {
+      e.dataTransfer.effectAllowed = 'move'
+      e.dataTransfer.setData('text/plain', id)
+      setDraggingId(id)
+    },
+    onDragOver: (e: DragEvent) => {
+      if (!draggingId || !isSameGroup(draggingId, id)) return
+      e.preventDefault()
+      e.dataTransfer.dropEffect = 'move'
+      if (overId !== id) setOverId(id)
+    },
+    onDragLeave: () => {
+      setOverId(prev => prev === id ? null : prev)
+    },
+    onDrop: (e: DragEvent) => {
+      e.preventDefault()
+      if (draggingId && draggingId !== id && isSameGroup(draggingId, id)) {
+        const next = moveId(ids, draggingId, id)
+        if (next !== ids) {
+          onReorder(getGroup ? next.filter(itemId => isSameGroup(draggingId, itemId)) : next)
+        }
+      }
+      reset()
+    },
+    onDragEnd: reset
+  }), [enabled, draggingId, overId, ids, onReorder, reset, isSameGroup, getGroup])
+
+  return {
+    draggingId,
+    overId,
+    getDragProps
+  }
+}
@@ -3,7 +3,7 @@ import { UI_CONSTANTS } from "../constants/ui"
 import { createSortComparator } from "../utils/formatters"
 import type { DisplaySiteData } from "../types"
 
-type SortField = 'name' | 'balance' | 'consumption'
+type SortField = 'name' | 'balance' | 'consumption' | 'manual'
 type SortOrder = 'asc' | 'desc'
 
 interface UseSortResult {
@@ -44,7 +44,11 @@ export const useSort = (
   const handleSort = useCallback((field: SortField) => {
     let newOrder: SortOrder
     
-    if (sortField === field) {
+    if (field === 'manual') {
+      // 手动排序按存储顺序排列，不区分升降序
+      newOrder = sortOrder
+      setSortField(field)
+    } else if (sortField === field) {
       newOrder = sortOrder === 'asc' ? 'desc' : 'asc'
       setSortOrder(newOrder)
     } else {
@@ -57,9 +61,13 @@ export const useSort = (
     onSortChange?.(field === sortField ? sortField : field, newOrder)
   }, [sortField, sortOrder, onSortChange])
 
-  // 排序数据
+  // 排序数据，置顶账号始终排在最前，手动排序时保持存储顺序
   const sortedData = useMemo(() => {
     return [...data].sort((a, b) => {
+      if (!!a.pinned !== !!b.pinned) {
+        return a.pinned ? -1 : 1
+      }
+
       let aValue: string | number, bValue: string | number
       
       switch (sortField) {
@@ -1,5 +1,9 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { userPreferences, type UserPreferences } from '../services/userPreferences';
+import { EMPTY_ACCOUNT_FILTER, type AccountFilter } from '../utils/accountFilter';
+
+// 筛选条件保存的防抖延迟（毫秒），避免输入关键词时频繁写入存储
+const FILTER_SAVE_DELAY = 400;
 
 /**
  * 用户偏好设置管理Hook
@@ -7,6 +11,7 @@ import { userPreferences, type UserPreferences } from '../services/userPreferenc
 export function useUserPreferences() {
   const [preferences, setPreferences] = useState<UserPreferences | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const filterSaveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   // 加载偏好设置
   const loadPreferences = useCallback(async () => {
@@ -27,6 +32,15 @@ export function useUserPreferences() {
     loadPreferences();
   }, [loadPreferences]);
 
+  // 卸载前清理未执行的筛选条件保存
+  useEffect(() => {
+    return () => {
+      if (filterSaveTimeoutRef.current) {
+        clearTimeout(filterSaveTimeoutRef.current);
+      }
+    };
+  }, []);
+
   // 更新活动标签页
   const updateActiveTab = useCallback(async (activeTab: 'consumption' | 'balance') => {
     try {
@@ -58,7 +72,7 @@ export function useUserPreferences() {
   }, [preferences]);
 
   // 更新排序配置
-  const updateSortConfig = useCallback(async (sortField: 'name' | 'balance' | 'consumption', sortOrder: 'asc' | 'desc') => {
+  const updateSortConfig = useCallback(async (sortField: 'name' | 'balance' | 'consumption' | 'manual', sortOrder: 'asc' | 'desc') => {
     try {
       const success = await userPreferences.updateSortConfig(sortField, sortOrder);
       if (success && preferences) {
@@ -72,6 +86,23 @@ export function useUserPreferences() {
     }
   }, [preferences]);
 
+  // 更新账号列表筛选条件
+  const updateAccountFilter = useCallback((accountFilter: AccountFilter) => {
+    // 立即更新本地状态，保存操作防抖执行
+    setPreferences(prev => prev ? { ...prev, accountFilter } : null);
+
+    if (filterSaveTimeoutRef.current) {
+      clearTimeout(filterSaveTimeoutRef.current);
+    }
+    filterSaveTimeoutRef.current = setTimeout(async () => {
+      filterSaveTimeoutRef.current = null;
+      const success = await userPreferences.updateAccountFilter(accountFilter);
+      if (!success) {
+        console.error('[useUserPreferences] 保存筛选条件失败:', accountFilter);
+      }
+    }, FILTER_SAVE_DELAY);
+  }, []);
+
   // 更新自动刷新设置
   const updateAutoRefresh = useCallback(async (autoRefresh: boolean) => {
     try {
@@ -144,6 +175,78 @@ export function useUserPreferences() {
     }
   }, [preferences]);
 
+  // 更新批量刷新设置
+  const updateRefreshQueueSettings = useCallback(async (settings: {
+    refreshConcurrency?: number;
+    refreshTimeout?: number;
+  }) => {
+    try {
+      const success = await userPreferences.updateRefreshQueueSettings(settings);
+      if (success && preferences) {
+        setPreferences(prev => prev ? { ...prev, ...settings } : null);
+        console.log('[useUserPreferences] 批量刷新设置更新成功:', settings);
+      }
+      return success;
+    } catch (error) {
+      console.error('[useUserPreferences] 更新批量刷新设置失败:', error);
+      return false;
+    }
+  }, [preferences]);
+
+  // 更新低余额提醒设置
+  const updateLowBalanceAlertSettings = useCallback(async (settings: {
+    lowBalanceAlert?: boolean;
+    lowBalanceThreshold?: number;
+  }) => {
+    try {
+      const success = await userPreferences.updateLowBalanceAlertSettings(settings);
+      if (success && preferences) {
+        setPreferences(prev => prev ? { ...prev, ...settings } : null);
+        console.log('[useUserPreferences] 低余额提醒设置更新成功:', settings);
+      }
+      return success;
+    } catch (error) {
+      console.error('[useUserPreferences] 更新低余额提醒设置失败:', error);
+      return false;
+    }
+  }, [preferences]);
+
+  // 更新每日预算提醒设置
+  const updateBudgetAlertSettings = useCallback(async (settings: {
+    budgetAlert?: boolean;
+    budgetAlertPercents?: number[];
+  }) => {
+    try {
+      const success = await userPreferences.updateBudgetAlertSettings(settings);
+      if (success && preferences) {
+        setPreferences(prev => prev ? { ...prev, ...settings } : null);
+        console.log('[useUserPreferences] 预算提醒设置更新成功:', settings);
+      }
+      return success;
+    } catch (error) {
+      console.error('[useUserPreferences] 更新预算提醒设置失败:', error);
+      return false;
+    }
+  }, [preferences]);
+
+  // 更新价格变动提醒设置
+  const updatePriceChangeAlertSettings = useCallback(async (settings: {
+    priceChangeAlert?: boolean;
+    watchedModels?: string[];
+  }) => {
+    try {
+      const success = await userPreferences.updatePriceChangeAlertSettings(settings);
+      if (success && preferences) {
+        setPreferences(prev => prev ? { ...prev, ...settings } : null);
+        console.log('[useUserPreferences] 价格变动提醒设置更新成功:', settings);
+      }
+      return success;
+    } catch (error) {
+      console.error('[useUserPreferences] 更新价格变动提醒设置失败:', error);
+      return false;
+    }
+  }, [preferences]);
+
   // 批量更新偏好设置
   const updatePreferences = useCallback(async (updates: Partial<UserPreferences>) => {
     try {
@@ -184,19 +287,33 @@ export function useUserPreferences() {
     currencyType: preferences?.currencyType || 'USD',
     sortField: preferences?.sortField || 'name',
     sortOrder: preferences?.sortOrder || 'asc',
+    accountFilter: preferences?.accountFilter ?? EMPTY_ACCOUNT_FILTER,
     autoRefresh: preferences?.autoRefresh ?? true,
     refreshInterval: preferences?.refreshInterval ?? 360,
     refreshOnOpen: preferences?.refreshOnOpen ?? true,
+    refreshConcurrency: preferences?.refreshConcurrency ?? 4,
+    refreshTimeout: preferences?.refreshTimeout ?? 15,
     showHealthStatus: preferences?.showHealthStatus ?? true,
+    lowBalanceAlert: preferences?.lowBalanceAlert ?? false,
+    lowBalanceThreshold: preferences?.lowBalanceThreshold ?? 1,
+    budgetAlert: preferences?.budgetAlert ?? true,
+    budgetAlertPercents: preferences?.budgetAlertPercents ?? [50, 80, 100],
+    priceChangeAlert: preferences?.priceChangeAlert ?? true,
+    watchedModels: preferences?.watchedModels ?? [],
 
     // 操作方法
     updateActiveTab,
     updateCurrencyType,
     updateSortConfig,
+    updateAccountFilter,
     updateAutoRefresh,
     updateRefreshInterval,
     updateRefreshOnOpen,
     updateShowHealthStatus,
+    updateRefreshQueueSettings,
+    updateLowBalanceAlertSettings,
+    updateBudgetAlertSettings,
+    updatePriceChangeAlertSettings,
     updatePreferences,
     resetToDefaults,
     loadPreferences
@@ -6,7 +6,12 @@ import {
   KeyIcon,
   ArrowPathIcon,
   CloudIcon,
-  InformationCircleIcon
+  InformationCircleIcon,
+  PresentationChartLineIcon,
+  DocumentTextIcon,
+  ScaleIcon,
+  ArrowTrendingUpIcon,
+  CalculatorIcon
 } from "@heroicons/react/24/outline"
 import { Toaster } from 'react-hot-toast'
 import iconImage from "../assets/icon.png"
@@ -14,7 +19,12 @@ import iconImage from "../assets/icon.png"
 // 页面组件导入
 import BasicSettings from "./pages/BasicSettings"
 import ModelList from "./pages/ModelList"
+import PriceComparison from "./pages/PriceComparison"
+import PriceChanges from "./pages/PriceChanges"
+import CostEstimator from "./pages/CostEstimator"
 import KeyManagement from "./pages/KeyManagement"
+import UsageHistory from "./pages/UsageHistory"
+import UsageLogs from "./pages/UsageLogs"
 import ImportExport from "./pages/ImportExport"
 import WebDAVBackup from "./pages/WebDAVBackup"
 import About from "./pages/About"
@@ -41,12 +51,42 @@ const menuItems: MenuItem[] = [
     icon: CpuChipIcon,
     component: ModelList
   },
+  {
+    id: 'compare',
+    name: '价格对比',
+    icon: ScaleIcon,
+    component: PriceComparison
+  },
+  {
+    id: 'price-changes',
+    name: '价格变动',
+    icon: ArrowTrendingUpIcon,
+    component: PriceChanges
+  },
+  {
+    id: 'estimator',
+    name: '费用估算',
+    icon: CalculatorIcon,
+    component: CostEstimator
+  },
   {
     id: 'keys',
     name: '密钥管理',
     icon: KeyIcon,
     component: KeyManagement
   },
+  {
+    id: 'history',
+    name: '历史趋势',
+    icon: PresentationChartLineIcon,
+    component: UsageHistory
+  },
+  {
+    id: 'logs',
+    name: '使用日志',
+    icon: DocumentTextIcon,
+    component: UsageLogs
+  },
   {
     id: 'import-export',
     name: '导入/导出',
@@ -1,7 +1,15 @@
 import { useState, useEffect } from "react"
 import { Switch } from "@headlessui/react"
-import { CogIcon, GlobeAltIcon, EyeIcon, ArrowPathIcon } from "@heroicons/react/24/outline"
+import { CogIcon, GlobeAltIcon, EyeIcon, ArrowPathIcon, BellAlertIcon, BanknotesIcon, ArrowsUpDownIcon } from "@heroicons/react/24/outline"
 import { useUserPreferences } from "../../hooks/useUserPreferences"
+import { useAccountData } from "../../hooks/useAccountData"
+import { accountStorage } from "../../services/accountStorage"
+import { UserPreferencesUtils } from "../../services/userPreferences"
+import AccountOrderList from "../../components/AccountOrderList"
+import VaultSettings from "../../components/VaultSettings"
+import type { DisplaySiteData } from "../../types"
+import { parseBudgetAlertPercents } from "../../utils/budgetUtils"
+import { MIN_REFRESH_INTERVAL } from "../../utils/refreshPolicy"
 import toast from 'react-hot-toast'
 
 export default function BasicSettings() {
@@ -10,13 +18,26 @@ export default function BasicSettings() {
     isLoading,
     currencyType,
     activeTab,
+    sortField,
+    sortOrder,
     updateCurrencyType,
     updateActiveTab,
+    updateSortConfig,
     updateAutoRefresh,
     updateRefreshInterval,
     updateRefreshOnOpen,
+    updateRefreshQueueSettings,
+    refreshConcurrency,
+    refreshTimeout,
+    updateLowBalanceAlertSettings,
+    lowBalanceAlert,
+    lowBalanceThreshold,
+    updateBudgetAlertSettings,
+    budgetAlert,
+    budgetAlertPercents,
     resetToDefaults
   } = useUserPreferences()
+  const { displayData, loadAccountData } = useAccountData()
 
   // 从偏好设置中获取值，或使用默认值
   const autoRefresh = preferences?.autoRefresh ?? true
@@ -26,11 +47,36 @@ export default function BasicSettings() {
   // 本地状态用于输入框编辑
   const [intervalInput, setIntervalInput] = useState<string>(refreshInterval.toString())
 
+  const [concurrencyInput, setConcurrencyInput] = useState<string>(refreshConcurrency.toString())
+  const [timeoutInput, setTimeoutInput] = useState<string>(refreshTimeout.toString())
+  const [thresholdInput, setThresholdInput] = useState<string>(lowBalanceThreshold.toString())
+
   // 同步刷新间隔值到输入框
   useEffect(() => {
     setIntervalInput(refreshInterval.toString())
   }, [refreshInterval])
 
+  const [percentsInput, setPercentsInput] = useState<string>(budgetAlertPercents.join(', '))
+
+  // 同步批量刷新设置到输入框
+  useEffect(() => {
+    setConcurrencyInput(refreshConcurrency.toString())
+  }, [refreshConcurrency])
+
+  useEffect(() => {
+    setTimeoutInput(refreshTimeout.toString())
+  }, [refreshTimeout])
+
+  // 同步低余额阈值到输入框
+  useEffect(() => {
+    setThresholdInput(lowBalanceThreshold.toString())
+  }, [lowBalanceThreshold])
+
+  // 同步预算提醒百分比到输入框
+  useEffect(() => {
+    setPercentsInput(budgetAlertPercents.join(', '))
+  }, [budgetAlertPercents])
+
   const handleCurrencyChange = async (currency: 'USD' | 'CNY') => {
     const success = await updateCurrencyType(currency)
     if (success) {
@@ -49,6 +95,33 @@ export default function BasicSettings() {
     }
   }
 
+  const handleSortFieldChange = async (field: 'name' | 'balance' | 'consumption' | 'manual') => {
+    const success = await updateSortConfig(field, sortOrder)
+    if (success) {
+      toast.success(`账号列表已设置为按${UserPreferencesUtils.getSortFieldDisplayName(field)}排序`)
+    } else {
+      toast.error('设置保存失败')
+    }
+  }
+
+  const handleTogglePin = async (account: DisplaySiteData) => {
+    const success = await accountStorage.setAccountPinned(account.id, !account.pinned)
+    if (success) {
+      loadAccountData()
+    } else {
+      toast.error('操作失败，请稍后重试')
+    }
+  }
+
+  const handleReorder = async (orderedIds: string[]) => {
+    const success = await accountStorage.reorderAccounts(orderedIds)
+    if (success) {
+      loadAccountData()
+    } else {
+      toast.error('调整顺序失败，请稍后重试')
+    }
+  }
+
   const handleAutoRefreshChange = async (enabled: boolean) => {
     try {
       const success = await updateAutoRefresh(enabled)
@@ -77,8 +150,8 @@ export default function BasicSettings() {
     const interval = Number(intervalInput)
     
     // 验证输入值
-    if (!intervalInput || isNaN(interval) || interval < 10) {
-      toast.error('刷新间隔必须大于等于10秒')
+    if (!intervalInput || isNaN(interval) || interval < MIN_REFRESH_INTERVAL) {
+      toast.error(`刷新间隔必须大于等于${MIN_REFRESH_INTERVAL}秒`)
       setIntervalInput(refreshInterval.toString()) // 恢复原值
       return
     }
@@ -112,6 +185,116 @@ export default function BasicSettings() {
     }
   }
 
+  const handleConcurrencyBlur = async () => {
+    const concurrency = Number(concurrencyInput)
+
+    // 验证输入值
+    if (!concurrencyInput || !Number.isInteger(concurrency) || concurrency < 1 || concurrency > 20) {
+      toast.error('并发数必须是 1-20 之间的整数')
+      setConcurrencyInput(refreshConcurrency.toString()) // 恢复原值
+      return
+    }
+
+    if (concurrency === refreshConcurrency) {
+      return
+    }
+
+    const success = await updateRefreshQueueSettings({ refreshConcurrency: concurrency })
+    if (success) {
+      toast.success(`刷新并发数已设置为 ${concurrency}`)
+    } else {
+      toast.error('设置保存失败')
+      setConcurrencyInput(refreshConcurrency.toString()) // 恢复原值
+    }
+  }
+
+  const handleTimeoutBlur = async () => {
+    const timeout = Number(timeoutInput)
+
+    // 验证输入值
+    if (!timeoutInput || isNaN(timeout) || timeout < 3) {
+      toast.error('超时时间必须大于等于3秒')
+      setTimeoutInput(refreshTimeout.toString()) // 恢复原值
+      return
+    }
+
+    if (timeout === refreshTimeout) {
+      return
+    }
+
+    const success = await updateRefreshQueueSettings({ refreshTimeout: timeout })
+    if (success) {
+      toast.success(`请求超时时间已设置为 ${timeout} 秒`)
+    } else {
+      toast.error('设置保存失败')
+      setTimeoutInput(refreshTimeout.toString()) // 恢复原值
+    }
+  }
+
+  const handleLowBalanceAlertChange = async (enabled: boolean) => {
+    const success = await updateLowBalanceAlertSettings({ lowBalanceAlert: enabled })
+    if (success) {
+      toast.success(`低余额提醒已${enabled ? '启用' : '关闭'}`)
+    } else {
+      toast.error('设置保存失败')
+    }
+  }
+
+  const handleThresholdBlur = async () => {
+    const threshold = Number(thresholdInput)
+
+    // 验证输入值
+    if (thresholdInput === '' || isNaN(threshold) || threshold < 0) {
+      toast.error('提醒阈值必须大于等于0')
+      setThresholdInput(lowBalanceThreshold.toString()) // 恢复原值
+      return
+    }
+
+    if (threshold === lowBalanceThreshold) {
+      return
+    }
+
+    const success = await updateLowBalanceAlertSettings({ lowBalanceThreshold: threshold })
+    if (success) {
+      toast.success(`默认提醒阈值已设置为 $${threshold}`)
+    } else {
+      toast.error('设置保存失败')
+      setThresholdInput(lowBalanceThreshold.toString()) // 恢复原值
+    }
+  }
+
+  const handleBudgetAlertChange = async (enabled: boolean) => {
+    const success = await updateBudgetAlertSettings({ budgetAlert: enabled })
+    if (success) {
+      toast.success(`预算提醒已${enabled ? '启用' : '关闭'}`)
+    } else {
+      toast.error('设置保存失败')
+    }
+  }
+
+  const handlePercentsBlur = async () => {
+    const percents = parseBudgetAlertPercents(percentsInput)
+
+    // 验证输入值
+    if (!percents || percents.length === 0) {
+      toast.error('请输入大于0的百分比，多个值用逗号分隔')
+      setPercentsInput(budgetAlertPercents.join(', ')) // 恢复原值
+      return
+    }
+
+    if (percents.join(',') === budgetAlertPercents.join(',')) {
+      setPercentsInput(percents.join(', '))
+      return
+    }
+
+    const success = await updateBudgetAlertSettings({ budgetAlertPercents: percents })
+    if (success) {
+      toast.success(`预算提醒百分比已设置为 ${percents.join('/')}%`)
+    } else {
+      toast.error('设置保存失败')
+      setPercentsInput(budgetAlertPercents.join(', ')) // 恢复原值
+    }
+  }
 
   const handleResetToDefaults = async () => {
     if (window.confirm('确定要重置所有设置到默认值吗？此操作不可撤销。')) {
@@ -221,6 +404,39 @@ export default function BasicSettings() {
               </div>
             </div>
 
+            {/* 账号排序 */}
+            <div className="py-4 border-b border-gray-100 space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  <ArrowsUpDownIcon className="w-5 h-5 text-gray-400" />
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-900">账号排序</h3>
+                    <p className="text-sm text-gray-500">置顶的账号始终排在最前；选择手动顺序后按下方拖动的顺序排列</p>
+                  </div>
+                </div>
+                <div className="flex bg-gray-100 rounded-lg p-1">
+                  {(['name', 'balance', 'consumption', 'manual'] as const).map(field => (
+                    <button
+                      key={field}
+                      onClick={() => handleSortFieldChange(field)}
+                      className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                        sortField === field
+                          ? 'bg-white text-gray-900 shadow-sm'
+                          : 'text-gray-500 hover:text-gray-700'
+                      }`}
+                    >
+                      {UserPreferencesUtils.getSortFieldDisplayName(field)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <AccountOrderList
+                accounts={displayData}
+                onTogglePin={handleTogglePin}
+                onReorder={handleReorder}
+              />
+            </div>
+
           </div>
         </section>
 
@@ -259,7 +475,7 @@ export default function BasicSettings() {
                 <div className="flex items-center space-x-2">
                   <input
                     type="number"
-                    min="10"
+                    min={MIN_REFRESH_INTERVAL}
                     value={intervalInput}
                     onChange={(e) => handleRefreshIntervalChange(e.target.value)}
                     onBlur={handleRefreshIntervalBlur}
@@ -296,6 +512,170 @@ export default function BasicSettings() {
                 />
               </Switch>
             </div>
+
+            {/* 刷新并发数 */}
+            <div className="flex items-center justify-between py-4 border-b border-gray-100">
+              <div>
+                <h3 className="text-sm font-medium text-gray-900">刷新并发数</h3>
+                <p className="text-sm text-gray-500">刷新全部账号时同时请求的站点数量，站点较多时调小可避免触发限流</p>
+              </div>
+              <input
+                type="number"
+                min="1"
+                max="20"
+                value={concurrencyInput}
+                onChange={(e) => setConcurrencyInput(e.target.value)}
+                onBlur={handleConcurrencyBlur}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.currentTarget.blur() // 触发onBlur事件
+                  }
+                }}
+                placeholder="4"
+                className="w-20 px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+
+            {/* 请求超时时间 */}
+            <div className="flex items-center justify-between py-4 border-b border-gray-100">
+              <div>
+                <h3 className="text-sm font-medium text-gray-900">请求超时时间</h3>
+                <p className="text-sm text-gray-500">刷新时每次请求的超时时间，超时或网络错误时会自动重试</p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="number"
+                  min="3"
+                  value={timeoutInput}
+                  onChange={(e) => setTimeoutInput(e.target.value)}
+                  onBlur={handleTimeoutBlur}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.currentTarget.blur() // 触发onBlur事件
+                    }
+                  }}
+                  placeholder="15"
+                  className="w-20 px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <span className="text-sm text-gray-500">秒</span>
+              </div>
+            </div>
+          </div>
+        </section>
+
+        {/* 提醒设置 */}
+        <section>
+          <h2 className="text-lg font-medium text-gray-900 mb-4">提醒设置</h2>
+          <div className="space-y-6">
+            {/* 低余额提醒 */}
+            <div className="flex items-center justify-between py-4 border-b border-gray-100">
+              <div className="flex items-center space-x-3">
+                <BellAlertIcon className="w-5 h-5 text-gray-400" />
+                <div>
+                  <h3 className="text-sm font-medium text-gray-900">低余额提醒</h3>
+                  <p className="text-sm text-gray-500">后台自动刷新后，账号余额低于阈值时发送桌面通知</p>
+                </div>
+              </div>
+              <Switch
+                checked={lowBalanceAlert}
+                onChange={handleLowBalanceAlertChange}
+                className={`${
+                  lowBalanceAlert ? 'bg-blue-600' : 'bg-gray-200'
+                } relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2`}
+              >
+                <span
+                  className={`${
+                    lowBalanceAlert ? 'translate-x-6' : 'translate-x-1'
+                  } inline-block h-4 w-4 transform rounded-full bg-white transition-transform`}
+                />
+              </Switch>
+            </div>
+
+            {/* 默认提醒阈值 */}
+            {lowBalanceAlert && (
+              <div className="flex items-center justify-between py-4 border-b border-gray-100">
+                <div>
+                  <h3 className="text-sm font-medium text-gray-900">默认提醒阈值</h3>
+                  <p className="text-sm text-gray-500">未单独设置阈值的账号使用此值，设置为 0 表示不提醒（可在编辑账号时单独设置）</p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <span className="text-sm text-gray-500">$</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={thresholdInput}
+                    onChange={(e) => setThresholdInput(e.target.value)}
+                    onBlur={handleThresholdBlur}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.currentTarget.blur() // 触发onBlur事件
+                      }
+                    }}
+                    placeholder="1"
+                    className="w-20 px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* 每日预算提醒 */}
+            <div className="flex items-center justify-between py-4 border-b border-gray-100">
+              <div className="flex items-center space-x-3">
+                <BanknotesIcon className="w-5 h-5 text-gray-400" />
+                <div>
+                  <h3 className="text-sm font-medium text-gray-900">每日预算提醒</h3>
+                  <p className="text-sm text-gray-500">账号今日消耗达到每日预算的指定比例时发送桌面通知（预算在编辑账号时设置）</p>
+                </div>
+              </div>
+              <Switch
+                checked={budgetAlert}
+                onChange={handleBudgetAlertChange}
+                className={`${
+                  budgetAlert ? 'bg-blue-600' : 'bg-gray-200'
+                } relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2`}
+              >
+                <span
+                  className={`${
+                    budgetAlert ? 'translate-x-6' : 'translate-x-1'
+                  } inline-block h-4 w-4 transform rounded-full bg-white transition-transform`}
+                />
+              </Switch>
+            </div>
+
+            {/* 预算提醒百分比 */}
+            {budgetAlert && (
+              <div className="flex items-center justify-between py-4 border-b border-gray-100">
+                <div>
+                  <h3 className="text-sm font-medium text-gray-900">提醒百分比</h3>
+                  <p className="text-sm text-gray-500">达到每个百分比时各提醒一次，多个值用逗号分隔</p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    value={percentsInput}
+                    onChange={(e) => setPercentsInput(e.target.value)}
+                    onBlur={handlePercentsBlur}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.currentTarget.blur() // 触发onBlur事件
+                      }
+                    }}
+                    placeholder="50, 80, 100"
+                    className="w-32 px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <span className="text-sm text-gray-500">%</span>
+                </div>
+              </div>
+            )}
+          </div>
+        </section>
+
+        {/* 安全设置 */}
+        <section>
+          <h2 className="text-lg font-medium text-gray-900 mb-4">安全设置</h2>
+          <div className="space-y-6">
+            <VaultSettings />
           </div>
         </section>
 
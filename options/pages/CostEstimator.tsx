@@ -0,0 +1,236 @@
+import { useState, useEffect, useMemo } from "react"
+import {
+  CalculatorIcon,
+  ArrowPathIcon,
+  ExclamationTriangleIcon,
+  CpuChipIcon
+} from "@heroicons/react/24/outline"
+import toast from 'react-hot-toast'
+import { useAccountData } from "../../hooks/useAccountData"
+import { pricingCache } from "../../services/pricingCache"
+import { formatPriceCompact, formatTierThreshold, getBillingModeText, getBillingModeStyle } from "../../utils/modelPricing"
+import { estimateWorkloadCost } from "../../utils/costEstimator"
+import type { ComparisonSource } from "../../utils/priceComparison"
+
+// 将输入框的值解析为非负数
+const parseAmount = (value: string): number => {
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0
+}
+
+export default function CostEstimator() {
+  const { accounts } = useAccountData()
+
+  const [sources, setSources] = useState<ComparisonSource[]>([])
+  const [failedAccounts, setFailedAccounts] = useState<string[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [modelName, setModelName] = useState("")
+  const [promptTokens, setPromptTokens] = useState("1000000")
+  const [cachedTokens, setCachedTokens] = useState("0")
+  const [completionTokens, setCompletionTokens] = useState("200000")
+  const [calls, setCalls] = useState("100")
+
+  // 拉取所有账号的定价数据，默认使用未过期的缓存
+  const loadAllPricing = async (forceRefresh: boolean = false) => {
+    if (accounts.length === 0) return
+
+    setIsLoading(true)
+    try {
+      const results = await Promise.allSettled(
+        accounts.map(account =>
+          pricingCache.getPricing(account.site_url, account.account_info.id, account.account_info.access_token, forceRefresh, account.site_name, account.site_type)
+        )
+      )
+
+      const nextSources: ComparisonSource[] = []
+      const failed: string[] = []
+      results.forEach((result, index) => {
+        const account = accounts[index]
+        if (result.status === 'fulfilled' && Array.isArray(result.value.data.data)) {
+          nextSources.push({ account, pricing: result.value.data })
+        } else {
+          failed.push(account.site_name)
+        }
+      })
+
+      setSources(nextSources)
+      setFailedAccounts(failed)
+      if (nextSources.length === 0) {
+        toast.error('所有站点的定价数据均加载失败')
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadAllPricing()
+  }, [accounts])
+
+  // 所有站点提供的模型名称，用于输入提示
+  const modelNames = useMemo(() => {
+    const names = new Set<string>()
+    sources.forEach(source => source.pricing.data.forEach(model => names.add(model.model_name)))
+    return Array.from(names).sort((a, b) => a.localeCompare(b))
+  }, [sources])
+
+  const estimates = useMemo(() => {
+    const name = modelName.trim()
+    if (!name) return []
+    return estimateWorkloadCost(sources, name, {
+      promptTokens: parseAmount(promptTokens),
+      cachedTokens: parseAmount(cachedTokens),
+      completionTokens: parseAmount(completionTokens),
+      calls: parseAmount(calls)
+    })
+  }, [sources, modelName, promptTokens, cachedTokens, completionTokens, calls])
+
+  const hasTokenBilling = estimates.some(estimate => estimate.quotaType === 0)
+  const hasCallBilling = estimates.some(estimate => estimate.quotaType !== 0)
+  const cheapestCNY = estimates.length > 0 ? estimates[0].costCNY : 0
+
+  const renderAmountInput = (label: string, value: string, onChange: (value: string) => void, disabled: boolean) => (
+    <div className="w-full lg:w-44">
+      <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+      <input
+        type="number"
+        min={0}
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-400"
+      />
+    </div>
+  )
+
+  return (
+    <div className="p-6">
+      {/* 页面标题 */}
+      <div className="mb-6">
+        <div className="flex items-center space-x-3 mb-2">
+          <CalculatorIcon className="w-6 h-6 text-blue-600" />
+          <h1 className="text-2xl font-semibold text-gray-900">费用估算</h1>
+        </div>
+        <p className="text-gray-500">输入预计的用量，估算同一模型在各账号、各分组下的实际花费</p>
+      </div>
+
+      {/* 控制面板 */}
+      <div className="mb-6 flex flex-col lg:flex-row lg:items-end gap-4">
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-700 mb-2">模型</label>
+          <input
+            type="text"
+            list="cost-estimator-models"
+            placeholder="输入或选择模型名称..."
+            value={modelName}
+            onChange={(e) => setModelName(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <datalist id="cost-estimator-models">
+            {modelNames.map(name => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+        </div>
+        {renderAmountInput('提示 tokens', promptTokens, setPromptTokens, estimates.length > 0 && !hasTokenBilling)}
+        {renderAmountInput('其中缓存命中', cachedTokens, setCachedTokens, estimates.length > 0 && !hasTokenBilling)}
+        {renderAmountInput('补全 tokens', completionTokens, setCompletionTokens, estimates.length > 0 && !hasTokenBilling)}
+        {renderAmountInput('调用次数', calls, setCalls, estimates.length > 0 && !hasCallBilling)}
+        <button
+          onClick={() => loadAllPricing(true)}
+          disabled={isLoading || accounts.length === 0}
+          className="w-full lg:w-auto px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center justify-center space-x-2"
+        >
+          <ArrowPathIcon className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          <span>刷新数据</span>
+        </button>
+      </div>
+
+      {failedAccounts.length > 0 && !isLoading && (
+        <div className="mb-4 flex items-start space-x-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          <ExclamationTriangleIcon className="w-5 h-5 flex-shrink-0" />
+          <span>以下站点的定价数据加载失败或格式不兼容，未参与估算：{failedAccounts.join('、')}</span>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-12">
+          <ArrowPathIcon className="w-8 h-8 text-blue-600 mx-auto mb-4 animate-spin" />
+          <p className="text-gray-500">正在加载各站点定价数据...</p>
+        </div>
+      ) : estimates.length === 0 ? (
+        <div className="text-center py-12">
+          <CpuChipIcon className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500">
+            {accounts.length === 0
+              ? '暂无账号，请先添加账号'
+              : modelName.trim() ? '没有站点提供该模型' : '请输入要估算的模型'}
+          </p>
+        </div>
+      ) : (
+        <div className="border border-gray-200 rounded-lg overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-gray-500">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium">排名</th>
+                <th className="px-4 py-2 text-left font-medium">站点</th>
+                <th className="px-4 py-2 text-left font-medium">分组</th>
+                <th className="px-4 py-2 text-left font-medium">计费方式</th>
+                <th className="px-4 py-2 text-right font-medium">额度（USD）</th>
+                <th className="px-4 py-2 text-right font-medium">实际花费（CNY）</th>
+                <th className="px-4 py-2 text-right font-medium">比最低价</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {estimates.map((estimate, index) => {
+                const isCheapest = estimate.costCNY === cheapestCNY
+                const billingStyle = getBillingModeStyle(estimate.quotaType)
+                const extraPercent = cheapestCNY > 0 ? ((estimate.costCNY - cheapestCNY) / cheapestCNY) * 100 : 0
+                return (
+                  <tr key={`${estimate.accountId}-${estimate.group}`} className={isCheapest ? 'bg-green-50' : ''}>
+                    <td className="px-4 py-2 text-gray-500">{index + 1}</td>
+                    <td className="px-4 py-2 text-gray-900 font-medium whitespace-nowrap">{estimate.siteName}</td>
+                    <td className="px-4 py-2 text-gray-600 whitespace-nowrap">{estimate.group} ({estimate.groupRatio}x)</td>
+                    <td className="px-4 py-2">
+                      <span className={`px-2 py-0.5 text-xs rounded-full ${billingStyle.color} ${billingStyle.bgColor}`}>
+                        {getBillingModeText(estimate.quotaType)}
+                      </span>
+                      {estimate.tierMinPromptTokens !== undefined && (
+                        <span className="ml-1 px-2 py-0.5 text-xs rounded-full text-purple-600 bg-purple-50">
+                          ≥{formatTierThreshold(estimate.tierMinPromptTokens)} 档
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-600">{formatPriceCompact(estimate.costUSD, 'USD')}</td>
+                    <td className={`px-4 py-2 text-right ${isCheapest ? 'text-green-700 font-semibold' : 'text-gray-900'}`}>
+                      {formatPriceCompact(estimate.costCNY, 'CNY')}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-500">
+                      {isCheapest ? '最便宜' : `+${extraPercent.toFixed(1)}%`}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* 说明文字 */}
+      <div className="mt-8 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+        <div className="flex items-start space-x-3">
+          <CalculatorIcon className="w-5 h-5 text-blue-600 mt-0.5 flex-shrink-0" />
+          <div className="text-sm">
+            <p className="text-blue-800 font-medium mb-1">费用估算说明</p>
+            <p className="text-blue-700">
+              按量计费模型按提示和补全 tokens 计算，命中缓存的提示 tokens 按缓存读取价格计算（站点未提供时按输入价格）；
+              分档计费的模型按平均单次提示长度（提示 tokens ÷ 调用次数）选择档位。按次计费模型按调用次数计算。
+              额度为站点内扣除的美元额度，实际花费按各站点的充值比例换算为人民币，并以此排序；
+              每个账号会列出该模型在当前用户可用的所有分组。
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -11,6 +11,7 @@ import {
 import { accountStorage } from "../../services/accountStorage"
 import { userPreferences } from "../../services/userPreferences"
 import { webdavService } from "../../services/webdavService"
+import { countMultiUserSites, dedupeAccounts } from "../../utils/accountGrouping"
 import type { WebDAVConfig } from "../../types"
 import toast from 'react-hot-toast'
 
@@ -244,9 +245,14 @@ export default function ImportExport() {
     
     try {
       const data = JSON.parse(importData)
+      const hasAccounts = !!(data.accounts || (data.type !== "preferences" && data.data))
+      const accounts = hasAccounts ? (data.accounts || data.data)?.accounts : undefined
       return {
         valid: true,
-        hasAccounts: !!(data.accounts || (data.type !== "preferences" && data.data)),
+        hasAccounts,
+        accountCount: Array.isArray(accounts) ? accounts.length : 0,
+        duplicateCount: Array.isArray(accounts) ? dedupeAccounts(accounts).removed : 0,
+        multiUserSiteCount: Array.isArray(accounts) ? countMultiUserSites(accounts) : 0,
         hasPreferences: !!(data.preferences || data.type === "preferences"),
         timestamp: data.timestamp ? new Date(data.timestamp).toLocaleString('zh-CN') : '未知'
       }
@@ -403,7 +409,9 @@ export default function ImportExport() {
                         <div>
                           <p className="text-green-800 font-medium">数据格式正确</p>
                           <div className="mt-1 text-green-700">
-                            {validation.hasAccounts && <p>• 包含账号数据</p>}
+                            {validation.hasAccounts && <p>• 包含账号数据{validation.accountCount > 0 && `（${validation.accountCount} 个账号）`}</p>}
+                            {validation.multiUserSiteCount > 0 && <p>• {validation.multiUserSiteCount} 个站点包含多个用户，将分别保留</p>}
+                            {validation.duplicateCount > 0 && <p>• {validation.duplicateCount} 个重复账号（同一站点的同一用户）将只保留最近更新的一条</p>}
                             {validation.hasPreferences && <p>• 包含用户设置</p>}
                             <p>• 备份时间: {validation.timestamp}</p>
                           </div>
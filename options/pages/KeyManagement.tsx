@@ -10,13 +10,14 @@ import {
   EyeSlashIcon
 } from "@heroicons/react/24/outline"
 import { useAccountData } from "../../hooks/useAccountData"
+import AccountSelector from "../../components/AccountSelector"
 import { fetchAccountTokens, deleteApiToken, type ApiToken } from "../../services/apiService"
 import type { DisplaySiteData } from "../../types"
 import AddTokenDialog from "../../components/AddTokenDialog"
 import toast from 'react-hot-toast'
 
 export default function KeyManagement({ routeParams }: { routeParams?: Record<string, string> }) {
-  const { displayData } = useAccountData()
+  const { accounts, displayData } = useAccountData()
   const [selectedAccount, setSelectedAccount] = useState<string>("") // 改为空字符串，不默认选择
   const [searchTerm, setSearchTerm] = useState("")
   const [tokens, setTokens] = useState<(ApiToken & { accountName: string })[]>([])
@@ -42,7 +43,10 @@ export default function KeyManagement({ routeParams }: { routeParams?: Record<st
       const accountTokens = await fetchAccountTokens(
         account.baseUrl,
         account.userId,
-        account.token
+        account.token,
+        undefined,
+        undefined,
+        account.siteType
       )
       
       const tokensWithAccount = accountTokens.map(token => ({
@@ -145,7 +149,7 @@ export default function KeyManagement({ routeParams }: { routeParams?: Record<st
         return
       }
 
-      await deleteApiToken(account.baseUrl, account.userId, account.token, token.id)
+      await deleteApiToken(account.baseUrl, account.userId, account.token, token.id, account.siteType)
       toast.success(`密钥 "${token.name}" 删除成功`)
       
       // 重新加载当前选中账号的密钥列表
@@ -215,16 +219,12 @@ export default function KeyManagement({ routeParams }: { routeParams?: Record<st
           <label className="block text-sm font-medium text-gray-700 mb-2">
             选择账号
           </label>
-          <select
+          <AccountSelector
+            accounts={accounts}
             value={selectedAccount}
-            onChange={(e) => setSelectedAccount(e.target.value)}
-            className="w-full sm:w-80 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-          >
-            <option value="">请选择账号</option>
-            {displayData.map(account => (
-              <option key={account.id} value={account.id}>{account.name}</option>
-            ))}
-          </select>
+            onChange={setSelectedAccount}
+            emptyOption={{ value: '', label: '请选择账号' }}
+          />
         </div>
 
         {/* 搜索框 */}
@@ -423,7 +423,8 @@ export default function KeyManagement({ routeParams }: { routeParams?: Record<st
           name: account.name,
           baseUrl: account.baseUrl,
           userId: account.userId,
-          token: account.token
+          token: account.token,
+          siteType: account.siteType
         }))}
         preSelectedAccountId={selectedAccount || null}
         editingToken={editingToken}
@@ -11,11 +11,13 @@ import {
 import { Tab } from '@headlessui/react'
 import toast from 'react-hot-toast'
 import { useAccountData } from "../../hooks/useAccountData"
+import AccountSelector from "../../components/AccountSelector"
+import { useUserPreferences } from "../../hooks/useUserPreferences"
 import { 
-  fetchModelPricing, 
   type ModelPricing, 
   type PricingResponse 
 } from "../../services/apiService"
+import { pricingCache } from "../../services/pricingCache"
 import {
   getAllProviders,
   filterModelsByProvider,
@@ -26,10 +28,12 @@ import {
   calculateModelPrice,
   type CalculatedPrice 
 } from "../../utils/modelPricing"
+import { formatRelativeTime, formatFullTime } from "../../utils/formatters"
 import ModelItem from "../../components/ModelItem"
 
 export default function ModelList({ routeParams }: { routeParams?: Record<string, string> }) {
-  const { displayData } = useAccountData()
+  const { accounts, displayData } = useAccountData()
+  const { watchedModels, updatePriceChangeAlertSettings } = useUserPreferences()
   
   // 状态管理
   const [selectedAccount, setSelectedAccount] = useState<string>("")
@@ -41,6 +45,8 @@ export default function ModelList({ routeParams }: { routeParams?: Record<string
   // 数据状态
   const [pricingData, setPricingData] = useState<PricingResponse | null>(null)
   const [dataFormatError, setDataFormatError] = useState<boolean>(false)
+  const [pricingFetchedAt, setPricingFetchedAt] = useState<number | null>(null) // 当前定价数据的获取时间
+  const [isRevalidating, setIsRevalidating] = useState(false) // 已展示缓存数据，正在后台更新
   
   // 显示选项
   const [showRealPrice, setShowRealPrice] = useState(false)
@@ -93,15 +99,33 @@ export default function ModelList({ routeParams }: { routeParams?: Record<string
     setTimeout(() => scrollToSelectedTab(selectedIndex), 100)
   }, [selectedProvider, providers])
   
-  // 加载模型定价数据
-  const loadPricingData = async (accountId: string) => {
+  // 加载模型定价数据，优先展示缓存，缓存过期时在后台更新
+  const loadPricingData = async (accountId: string, forceRefresh: boolean = false) => {
     const account = safeDisplayData.find(acc => acc.id === accountId)
     if (!account) return
     
-    setIsLoading(true)
+    let hasCachedData = false
+    if (!forceRefresh) {
+      const cached = await pricingCache.get(account.baseUrl, account.userId)
+      if (cached) {
+        setPricingData(cached.data)
+        setPricingFetchedAt(cached.fetched_at)
+        setDataFormatError(false)
+        if (!pricingCache.isStale(cached)) {
+          return
+        }
+        hasCachedData = true
+      }
+    }
+    
+    if (hasCachedData) {
+      setIsRevalidating(true)
+    } else {
+      setIsLoading(true)
+    }
     setDataFormatError(false)
     try {
-      const data = await fetchModelPricing(account.baseUrl, account.userId, account.token)
+      const { data, fetched_at } = await pricingCache.getPricing(account.baseUrl, account.userId, account.token, true, account.name, account.siteType)
       console.log('API 响应数据:', data)
       console.log('模型数据:', data.data)
       console.log('分组比率:', data.group_ratio)
@@ -112,19 +136,30 @@ export default function ModelList({ routeParams }: { routeParams?: Record<string
         console.error('模型数据格式错误，data 字段不是数组:', data.data)
         setDataFormatError(true)
         setPricingData(null)
+        setPricingFetchedAt(null)
         toast.error('当前站点的模型数据格式不符合标准，请手动查看站点定价页面')
         return
       }
       
       setPricingData(data)
-      toast.success('模型数据加载成功')
+      setPricingFetchedAt(fetched_at)
+      if (!hasCachedData) {
+        toast.success('模型数据加载成功')
+      }
     } catch (error) {
       console.error('加载模型数据失败:', error)
-      toast.error('加载模型数据失败，请稍后重试')
-      setPricingData(null)
+      if (hasCachedData) {
+        // 保留已展示的缓存数据
+        toast.error('更新模型数据失败，当前显示的是缓存数据')
+      } else {
+        toast.error('加载模型数据失败，请稍后重试')
+        setPricingData(null)
+        setPricingFetchedAt(null)
+      }
       setDataFormatError(false)
     } finally {
       setIsLoading(false)
+      setIsRevalidating(false)
     }
   }
   
@@ -134,6 +169,7 @@ export default function ModelList({ routeParams }: { routeParams?: Record<string
       loadPricingData(selectedAccount)
     } else {
       setPricingData(null)
+      setPricingFetchedAt(null)
     }
   }, [selectedAccount, safeDisplayData])
   
@@ -272,6 +308,21 @@ export default function ModelList({ routeParams }: { routeParams?: Record<string
     return filtered
   }, [baseFilteredModels, selectedProvider])
   
+  // 切换模型关注状态
+  const handleToggleWatch = async (modelName: string) => {
+    const isWatched = watchedModels.includes(modelName)
+    const success = await updatePriceChangeAlertSettings({
+      watchedModels: isWatched
+        ? watchedModels.filter(model => model !== modelName)
+        : [...watchedModels, modelName]
+    })
+    if (success) {
+      toast.success(isWatched ? `已取消关注 ${modelName}` : `已关注 ${modelName}，涨价时会提醒`)
+    } else {
+      toast.error('设置保存失败')
+    }
+  }
+  
   // 处理模型item中的分组点击
   const handleGroupClick = (group: string) => {
     setSelectedGroup(group)
@@ -316,16 +367,12 @@ export default function ModelList({ routeParams }: { routeParams?: Record<string
         <label className="block text-sm font-medium text-gray-700 mb-2">
           选择账号
         </label>
-        <select
+        <AccountSelector
+          accounts={accounts}
           value={selectedAccount}
-          onChange={(e) => setSelectedAccount(e.target.value)}
-          className="w-full sm:w-80 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-        >
-          <option value="">请选择账号</option>
-          {safeDisplayData.map(account => (
-            <option key={account.id} value={account.id}>{account.name}</option>
-          ))}
-        </select>
+          onChange={setSelectedAccount}
+          emptyOption={{ value: '', label: '请选择账号' }}
+        />
       </div>
 
       {/* 如果没有选择账号，显示提示 */}
@@ -429,11 +476,11 @@ export default function ModelList({ routeParams }: { routeParams?: Record<string
                   操作
                 </label>
                 <button
-                  onClick={() => loadPricingData(selectedAccount)}
-                  disabled={isLoading}
+                  onClick={() => loadPricingData(selectedAccount, true)}
+                  disabled={isLoading || isRevalidating}
                   className="w-full lg:w-auto px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center justify-center space-x-2"
                 >
-                  <ArrowPathIcon className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+                  <ArrowPathIcon className={`w-4 h-4 ${isLoading || isRevalidating ? 'animate-spin' : ''}`} />
                   <span>刷新数据</span>
                 </button>
               </div>
@@ -489,6 +536,17 @@ export default function ModelList({ routeParams }: { routeParams?: Record<string
                 <div className="text-blue-600">
                   <span>显示 <span className="font-medium">{filteredModels.length}</span> 个</span>
                 </div>
+                {pricingFetchedAt && (
+                  <>
+                    <div className="h-4 w-px bg-gray-300"></div>
+                    <span
+                      className={pricingCache.isStale({ fetched_at: pricingFetchedAt }) ? 'text-yellow-600' : 'text-gray-500'}
+                      title={formatFullTime(new Date(pricingFetchedAt))}
+                    >
+                      {isRevalidating ? '正在更新价格...' : `价格更新于 ${formatRelativeTime(new Date(pricingFetchedAt))}`}
+                    </span>
+                  </>
+                )}
               </div>
             </div>
           </div>
@@ -589,6 +647,8 @@ export default function ModelList({ routeParams }: { routeParams?: Record<string
                         onGroupClick={handleGroupClick}
                         availableGroups={availableGroups}
                         isAllGroupsMode={selectedGroup === 'all'}
+                        isWatched={watchedModels.includes(item.model.model_name)}
+                        onToggleWatch={handleToggleWatch}
                       />
                     ))
                   )}
@@ -618,6 +678,8 @@ export default function ModelList({ routeParams }: { routeParams?: Record<string
                           onGroupClick={handleGroupClick}
                           availableGroups={availableGroups}
                           isAllGroupsMode={selectedGroup === 'all'}
+                          isWatched={watchedModels.includes(item.model.model_name)}
+                          onToggleWatch={handleToggleWatch}
                         />
                       ))
                     )}
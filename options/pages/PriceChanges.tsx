@@ -0,0 +1,289 @@
+import { useState, useEffect, useMemo } from "react"
+import { Switch } from "@headlessui/react"
+import {
+  ArrowTrendingUpIcon,
+  ArrowTrendingDownIcon,
+  PlusCircleIcon,
+  MinusCircleIcon,
+  StarIcon,
+  XMarkIcon,
+  TrashIcon
+} from "@heroicons/react/24/outline"
+import toast from 'react-hot-toast'
+import { useUserPreferences } from "../../hooks/useUserPreferences"
+import { pricingChangelog } from "../../services/pricingChangelog"
+import { getPriceChangeFieldText } from "../../utils/pricingDiff"
+import { formatFullTime } from "../../utils/formatters"
+import type { PriceChangeRecord, PriceChangeType } from "../../types"
+
+// 变动类型显示配置
+const CHANGE_TYPE_CONFIG: Record<PriceChangeType, {
+  label: string
+  icon: React.ComponentType<{ className?: string }>
+  color: string
+}> = {
+  increased: { label: '涨价', icon: ArrowTrendingUpIcon, color: 'text-red-600' },
+  decreased: { label: '降价', icon: ArrowTrendingDownIcon, color: 'text-green-600' },
+  added: { label: '新增', icon: PlusCircleIcon, color: 'text-blue-600' },
+  removed: { label: '移除', icon: MinusCircleIcon, color: 'text-gray-500' }
+}
+
+// 格式化变动描述
+const describeChange = (record: PriceChangeRecord): string => {
+  if (record.type === 'added') return '模型上架'
+  if (record.type === 'removed') return '模型下架'
+  const percent = record.change_percent !== undefined
+    ? `（${record.change_percent > 0 ? '+' : ''}${record.change_percent.toFixed(1)}%）`
+    : ''
+  return `${getPriceChangeFieldText(record.field, record.tier_min_prompt_tokens)} ${record.old_value} → ${record.new_value}${percent}`
+}
+
+export default function PriceChanges() {
+  const { priceChangeAlert, watchedModels, updatePriceChangeAlertSettings } = useUserPreferences()
+
+  const [records, setRecords] = useState<PriceChangeRecord[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [selectedSite, setSelectedSite] = useState<string>("all")
+  const [selectedType, setSelectedType] = useState<PriceChangeType | 'all'>('all')
+  const [watchedOnly, setWatchedOnly] = useState(false)
+  const [newWatchedModel, setNewWatchedModel] = useState("")
+
+  const loadRecords = async () => {
+    setIsLoading(true)
+    try {
+      setRecords(await pricingChangelog.getRecords())
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadRecords()
+  }, [])
+
+  const sites = useMemo(() => Array.from(new Set(records.map(record => record.site_name))), [records])
+
+  const filteredRecords = useMemo(() => {
+    return records.filter(record => {
+      if (selectedSite !== 'all' && record.site_name !== selectedSite) return false
+      if (selectedType !== 'all' && record.type !== selectedType) return false
+      // 分组倍率变动可能影响关注的模型，一并保留
+      if (watchedOnly && record.model_name && !watchedModels.includes(record.model_name)) return false
+      return true
+    })
+  }, [records, selectedSite, selectedType, watchedOnly, watchedModels])
+
+  const handlePriceChangeAlertChange = async (enabled: boolean) => {
+    const success = await updatePriceChangeAlertSettings({ priceChangeAlert: enabled })
+    if (success) {
+      toast.success(`涨价提醒已${enabled ? '开启' : '关闭'}`)
+    } else {
+      toast.error('设置保存失败')
+    }
+  }
+
+  const handleAddWatchedModel = async () => {
+    const modelName = newWatchedModel.trim()
+    if (!modelName) return
+    if (watchedModels.includes(modelName)) {
+      toast.error('该模型已在关注列表中')
+      return
+    }
+    const success = await updatePriceChangeAlertSettings({ watchedModels: [...watchedModels, modelName] })
+    if (success) {
+      setNewWatchedModel("")
+      toast.success(`已关注 ${modelName}`)
+    } else {
+      toast.error('设置保存失败')
+    }
+  }
+
+  const handleRemoveWatchedModel = async (modelName: string) => {
+    const success = await updatePriceChangeAlertSettings({
+      watchedModels: watchedModels.filter(model => model !== modelName)
+    })
+    if (!success) {
+      toast.error('设置保存失败')
+    }
+  }
+
+  const handleClear = async () => {
+    if (!window.confirm('确定要清空所有价格变动记录吗？')) return
+    await pricingChangelog.clear()
+    setRecords([])
+    toast.success('价格变动记录已清空')
+  }
+
+  return (
+    <div className="p-6">
+      {/* 页面标题 */}
+      <div className="mb-6">
+        <div className="flex items-center space-x-3 mb-2">
+          <ArrowTrendingUpIcon className="w-6 h-6 text-blue-600" />
+          <h1 className="text-2xl font-semibold text-gray-900">价格变动</h1>
+        </div>
+        <p className="text-gray-500">记录各站点模型倍率、按次价格和分组倍率的变化</p>
+      </div>
+
+      {/* 关注模型 */}
+      <section className="mb-6 border border-gray-200 rounded-lg p-4">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">涨价提醒</h2>
+            <p className="text-sm text-gray-500">关注的模型在任一站点变贵时发送桌面通知</p>
+          </div>
+          <Switch
+            checked={priceChangeAlert}
+            onChange={handlePriceChangeAlertChange}
+            className={`${
+              priceChangeAlert ? 'bg-blue-600' : 'bg-gray-200'
+            } relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2`}
+          >
+            <span
+              className={`${
+                priceChangeAlert ? 'translate-x-6' : 'translate-x-1'
+              } inline-block h-4 w-4 transform rounded-full bg-white transition-transform`}
+            />
+          </Switch>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-3">
+          {watchedModels.length === 0 && (
+            <span className="text-sm text-gray-400">暂未关注任何模型，也可以在模型列表中点击星标关注</span>
+          )}
+          {watchedModels.map(model => (
+            <span key={model} className="inline-flex items-center px-2.5 py-1 bg-yellow-50 text-yellow-800 text-sm rounded-full">
+              <StarIcon className="w-3.5 h-3.5 mr-1" />
+              {model}
+              <button
+                onClick={() => handleRemoveWatchedModel(model)}
+                className="ml-1 text-yellow-600 hover:text-yellow-800"
+                title="取消关注"
+              >
+                <XMarkIcon className="w-3.5 h-3.5" />
+              </button>
+            </span>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newWatchedModel}
+            onChange={(e) => setNewWatchedModel(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddWatchedModel()}
+            placeholder="输入完整的模型名称，如 gpt-4o"
+            className="w-full sm:w-80 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            onClick={handleAddWatchedModel}
+            disabled={!newWatchedModel.trim()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            关注
+          </button>
+        </div>
+      </section>
+
+      {/* 筛选控件 */}
+      <div className="mb-4 flex flex-col sm:flex-row sm:items-end gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">站点</label>
+          <select
+            value={selectedSite}
+            onChange={(e) => setSelectedSite(e.target.value)}
+            className="w-full sm:w-56 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="all">所有站点</option>
+            {sites.map(site => (
+              <option key={site} value={site}>{site}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">变动类型</label>
+          <select
+            value={selectedType}
+            onChange={(e) => setSelectedType(e.target.value as PriceChangeType | 'all')}
+            className="w-full sm:w-40 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="all">全部</option>
+            {(Object.keys(CHANGE_TYPE_CONFIG) as PriceChangeType[]).map(type => (
+              <option key={type} value={type}>{CHANGE_TYPE_CONFIG[type].label}</option>
+            ))}
+          </select>
+        </div>
+        <label className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer sm:pb-2">
+          <input
+            type="checkbox"
+            checked={watchedOnly}
+            onChange={(e) => setWatchedOnly(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <span>仅看关注的模型</span>
+        </label>
+        <button
+          onClick={handleClear}
+          disabled={records.length === 0}
+          className="sm:ml-auto px-4 py-2 text-red-600 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50 transition-colors flex items-center space-x-2"
+        >
+          <TrashIcon className="w-4 h-4" />
+          <span>清空记录</span>
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {Array.from({ length: 5 }).map((_, i) => (
+            <div key={i} className="h-10 bg-gray-100 rounded animate-pulse" />
+          ))}
+        </div>
+      ) : filteredRecords.length === 0 ? (
+        <div className="text-center py-12">
+          <ArrowTrendingUpIcon className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500">
+            {records.length === 0 ? '暂无价格变动，再次获取站点定价后会自动比较' : '没有符合条件的记录'}
+          </p>
+        </div>
+      ) : (
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-gray-500">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium">时间</th>
+                <th className="px-4 py-2 text-left font-medium">站点</th>
+                <th className="px-4 py-2 text-left font-medium">模型 / 分组</th>
+                <th className="px-4 py-2 text-left font-medium">类型</th>
+                <th className="px-4 py-2 text-left font-medium">变动</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {filteredRecords.map(record => {
+                const config = CHANGE_TYPE_CONFIG[record.type]
+                const Icon = config.icon
+                const isWatched = !!record.model_name && watchedModels.includes(record.model_name)
+                return (
+                  <tr key={record.id}>
+                    <td className="px-4 py-2 text-gray-600 whitespace-nowrap">{formatFullTime(new Date(record.detected_at))}</td>
+                    <td className="px-4 py-2 text-gray-900">{record.site_name}</td>
+                    <td className="px-4 py-2 text-gray-900">
+                      {record.model_name
+                        ? <span className={isWatched ? 'font-medium text-yellow-700' : ''}>{record.model_name}</span>
+                        : <span className="text-gray-500">分组 {record.group}</span>}
+                    </td>
+                    <td className={`px-4 py-2 ${config.color}`}>
+                      <span className="inline-flex items-center space-x-1">
+                        <Icon className="w-4 h-4" />
+                        <span>{config.label}</span>
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-gray-600">{describeChange(record)}</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,277 @@
+import { useState, useEffect, useMemo } from "react"
+import {
+  ScaleIcon,
+  MagnifyingGlassIcon,
+  ArrowPathIcon,
+  ExclamationTriangleIcon,
+  CpuChipIcon
+} from "@heroicons/react/24/outline"
+import toast from 'react-hot-toast'
+import { useAccountData } from "../../hooks/useAccountData"
+import { pricingCache } from "../../services/pricingCache"
+import { getAllProviders, PROVIDER_CONFIGS, type ProviderType } from "../../utils/modelProviders"
+import { formatPriceCompact } from "../../utils/modelPricing"
+import { formatRelativeTime, formatFullTime } from "../../utils/formatters"
+import {
+  buildComparisonMatrix,
+  type ComparisonCell,
+  type ComparisonMetric,
+  type ComparisonSource
+} from "../../utils/priceComparison"
+
+export default function PriceComparison() {
+  const { accounts } = useAccountData()
+
+  const [sources, setSources] = useState<ComparisonSource[]>([])
+  const [failedAccounts, setFailedAccounts] = useState<string[]>([])
+  const [oldestFetchedAt, setOldestFetchedAt] = useState<number | null>(null) // 参与对比的定价中最早的获取时间
+  const [isLoading, setIsLoading] = useState(false)
+  const [searchTerm, setSearchTerm] = useState("")
+  const [selectedProvider, setSelectedProvider] = useState<ProviderType | 'all'>('all')
+  const [metric, setMetric] = useState<ComparisonMetric>('input')
+  const [sharedOnly, setSharedOnly] = useState(true)
+
+  const providers = getAllProviders()
+
+  // 拉取所有账号的定价数据，默认使用未过期的缓存
+  const loadAllPricing = async (forceRefresh: boolean = false) => {
+    if (accounts.length === 0) return
+
+    setIsLoading(true)
+    try {
+      const results = await Promise.allSettled(
+        accounts.map(account =>
+          pricingCache.getPricing(account.site_url, account.account_info.id, account.account_info.access_token, forceRefresh, account.site_name, account.site_type)
+        )
+      )
+
+      const nextSources: ComparisonSource[] = []
+      const failed: string[] = []
+      let oldest: number | null = null
+      results.forEach((result, index) => {
+        const account = accounts[index]
+        if (result.status === 'fulfilled' && Array.isArray(result.value.data.data)) {
+          nextSources.push({ account, pricing: result.value.data })
+          oldest = Math.min(oldest ?? result.value.fetched_at, result.value.fetched_at)
+        } else {
+          failed.push(account.site_name)
+        }
+      })
+
+      setSources(nextSources)
+      setFailedAccounts(failed)
+      setOldestFetchedAt(oldest)
+      if (nextSources.length === 0) {
+        toast.error('所有站点的定价数据均加载失败')
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadAllPricing()
+  }, [accounts])
+
+  const matrix = useMemo(() => buildComparisonMatrix(sources, metric), [sources, metric])
+
+  // 过滤（不含厂商过滤，用于厂商数量统计）
+  const baseRows = useMemo(() => {
+    const searchLower = searchTerm.toLowerCase()
+    return matrix.filter(row => {
+      if (sharedOnly && Object.keys(row.cells).length < 2) return false
+      return !searchLower || row.modelName.toLowerCase().includes(searchLower)
+    })
+  }, [matrix, searchTerm, sharedOnly])
+
+  const filteredRows = useMemo(() => {
+    if (selectedProvider === 'all') return baseRows
+    return baseRows.filter(row => row.provider === selectedProvider)
+  }, [baseRows, selectedProvider])
+
+  const getProviderCount = (provider: ProviderType) => baseRows.filter(row => row.provider === provider).length
+
+  const renderCell = (cell: ComparisonCell | undefined, isCheapest: boolean) => {
+    if (!cell) {
+      return <span className="text-gray-300">-</span>
+    }
+
+    return (
+      <div className={isCheapest ? 'text-green-700 font-semibold' : 'text-gray-700'}>
+        {cell.quotaType === 0 ? (
+          <>
+            <div className={metric === 'input' ? '' : 'text-gray-400 font-normal'}>入 {formatPriceCompact(cell.inputCNY, 'CNY')}</div>
+            <div className={metric === 'output' ? '' : 'text-gray-400 font-normal'}>出 {formatPriceCompact(cell.outputCNY, 'CNY')}</div>
+          </>
+        ) : (
+          <div>{formatPriceCompact(cell.perCallCNY, 'CNY')} / 次</div>
+        )}
+        <div className="text-xs text-gray-400 font-normal">
+          {cell.group} ({cell.groupRatio}x)
+          {cell.tiered && <span className="ml-1 text-purple-500" title="长提示按更高档位计费，此处为基础档价格">分档</span>}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6">
+      {/* 页面标题 */}
+      <div className="mb-6">
+        <div className="flex items-center space-x-3 mb-2">
+          <ScaleIcon className="w-6 h-6 text-blue-600" />
+          <h1 className="text-2xl font-semibold text-gray-900">价格对比</h1>
+        </div>
+        <p className="text-gray-500">对比同一模型在各站点的真实价格，找出最便宜的中转站</p>
+      </div>
+
+      {/* 控制面板 */}
+      <div className="mb-6 flex flex-col lg:flex-row gap-4">
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-700 mb-2">搜索模型</label>
+          <div className="relative">
+            <MagnifyingGlassIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              placeholder="输入模型名称..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+        <div className="w-full lg:w-48">
+          <label className="block text-sm font-medium text-gray-700 mb-2">比较依据</label>
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as ComparisonMetric)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="input">输入价格</option>
+            <option value="output">输出价格</option>
+          </select>
+        </div>
+        <div className="w-full lg:w-auto">
+          <label className="block text-sm font-medium text-gray-700 mb-2 lg:invisible">操作</label>
+          <button
+            onClick={() => loadAllPricing(true)}
+            disabled={isLoading || accounts.length === 0}
+            className="w-full lg:w-auto px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center justify-center space-x-2"
+          >
+            <ArrowPathIcon className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            <span>刷新数据</span>
+          </button>
+        </div>
+      </div>
+
+      {/* 厂商筛选 */}
+      <div className="mb-4 flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => setSelectedProvider('all')}
+          className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${
+            selectedProvider === 'all' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+        >
+          所有厂商 ({baseRows.length})
+        </button>
+        {providers.map(provider => {
+          const IconComponent = PROVIDER_CONFIGS[provider].icon
+          return (
+            <button
+              key={provider}
+              onClick={() => setSelectedProvider(provider)}
+              className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors flex items-center space-x-1.5 ${
+                selectedProvider === provider ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              <IconComponent className="w-4 h-4" />
+              <span>{provider} ({getProviderCount(provider)})</span>
+            </button>
+          )
+        })}
+        {oldestFetchedAt && !isLoading && (
+          <span className="ml-auto text-sm text-gray-500" title={formatFullTime(new Date(oldestFetchedAt))}>
+            价格更新于 {formatRelativeTime(new Date(oldestFetchedAt))}
+          </span>
+        )}
+        <label className={`${oldestFetchedAt && !isLoading ? '' : 'ml-auto '}flex items-center space-x-2 text-sm text-gray-700 cursor-pointer`}>
+          <input
+            type="checkbox"
+            checked={sharedOnly}
+            onChange={(e) => setSharedOnly(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <span>仅显示多个站点都提供的模型</span>
+        </label>
+      </div>
+
+      {failedAccounts.length > 0 && !isLoading && (
+        <div className="mb-4 flex items-start space-x-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          <ExclamationTriangleIcon className="w-5 h-5 flex-shrink-0" />
+          <span>以下站点的定价数据加载失败或格式不兼容，未参与对比：{failedAccounts.join('、')}</span>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-12">
+          <ArrowPathIcon className="w-8 h-8 text-blue-600 mx-auto mb-4 animate-spin" />
+          <p className="text-gray-500">正在加载各站点定价数据...</p>
+        </div>
+      ) : filteredRows.length === 0 ? (
+        <div className="text-center py-12">
+          <CpuChipIcon className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500">{accounts.length === 0 ? '暂无账号，请先添加账号' : '没有找到匹配的模型'}</p>
+        </div>
+      ) : (
+        <div className="border border-gray-200 rounded-lg overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-gray-500">
+              <tr>
+                <th className="sticky left-0 bg-gray-50 px-4 py-2 text-left font-medium">模型</th>
+                {sources.map(source => (
+                  <th key={source.account.id} className="px-4 py-2 text-right font-medium whitespace-nowrap">
+                    {source.account.site_name}
+                    <div className="text-xs font-normal text-gray-400">充值比例 {source.account.exchange_rate}</div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {filteredRows.map(row => (
+                <tr key={row.modelName}>
+                  <td className="sticky left-0 bg-white px-4 py-2 text-gray-900 font-medium whitespace-nowrap">{row.modelName}</td>
+                  {sources.map(source => {
+                    const isCheapest = row.cheapestAccountIds.includes(source.account.id)
+                    return (
+                      <td
+                        key={source.account.id}
+                        className={`px-4 py-2 text-right whitespace-nowrap ${isCheapest ? 'bg-green-50' : ''}`}
+                      >
+                        {renderCell(row.cells[source.account.id], isCheapest)}
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* 说明文字 */}
+      <div className="mt-8 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+        <div className="flex items-start space-x-3">
+          <ScaleIcon className="w-5 h-5 text-blue-600 mt-0.5 flex-shrink-0" />
+          <div className="text-sm">
+            <p className="text-blue-800 font-medium mb-1">价格对比说明</p>
+            <p className="text-blue-700">
+              价格按各站点的充值比例换算为实际支付的人民币，并使用该模型在站点上倍率最低的可用分组。
+              按量计费模型为每 1M tokens 的价格，按次计费模型为每次调用的价格，两种计费方式分别标记最便宜的站点。
+              标记为“分档”的模型按提示长度分档计费，对比使用基础档价格，未计入长提示档位和缓存价格，可在费用估算中按实际用量计算。
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
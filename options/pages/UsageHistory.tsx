@@ -0,0 +1,389 @@
+import { useState, useEffect, useMemo } from "react"
+import {
+  PresentationChartLineIcon,
+  ArrowPathIcon,
+  ChartBarIcon,
+  BanknotesIcon,
+  ChartPieIcon
+} from "@heroicons/react/24/outline"
+import { useAccountData } from "../../hooks/useAccountData"
+import AccountSelector from "../../components/AccountSelector"
+import { useUserPreferences } from "../../hooks/useUserPreferences"
+import { accountHistory, getDateKey, HISTORY_CONFIG } from "../../services/accountHistory"
+import { UI_CONSTANTS } from "../../constants/ui"
+import { getCurrencySymbol, formatTokenCount } from "../../utils/formatters"
+import { summarizeBreakdown, hasMissingTokenBreakdown } from "../../utils/usageBreakdown"
+import UsageBreakdownTable from "../../components/UsageBreakdownTable"
+import type { AccountHistoryPoint, SiteAccount } from "../../types"
+
+// 可选的时间范围（天）
+const RANGE_OPTIONS = [7, 14, 30, HISTORY_CONFIG.MAX_DAYS]
+
+// 图表中每一天的数据
+interface DailyRow {
+  date: string
+  balance: number | null // 当日收盘余额，无记录时为 null
+  consumption: number // 当日消耗
+  requests: number
+  promptTokens: number
+  completionTokens: number
+  tokensCombined: boolean // 有账号当日只有 token 总数（计入提示 token）
+  checkInReward: number // 当日签到获得的额度
+  checkedIn: number // 当日已签到的账号数
+  checkInFailed: number // 当日签到失败的账号数
+}
+
+// 生成最近 N 天的日期键列表（升序）
+const buildDateRange = (days: number): string[] => {
+  const dates: string[] = []
+  for (let i = days - 1; i >= 0; i--) {
+    dates.push(getDateKey(Date.now() - i * 24 * 60 * 60 * 1000))
+  }
+  return dates
+}
+
+// 将 quota 换算为指定货币金额
+const quotaToAmount = (quota: number, account: SiteAccount, currency: 'USD' | 'CNY'): number => {
+  const usd = quota / UI_CONSTANTS.EXCHANGE_RATE.CONVERSION_FACTOR
+  return currency === 'USD' ? usd : usd * account.exchange_rate
+}
+
+export default function UsageHistory({ routeParams }: { routeParams?: Record<string, string> }) {
+  const { accounts } = useAccountData()
+  const { currencyType } = useUserPreferences()
+
+  const [selectedAccount, setSelectedAccount] = useState<string>("all")
+  const [rangeDays, setRangeDays] = useState<number>(30)
+  const [histories, setHistories] = useState<Record<string, AccountHistoryPoint[]>>({})
+  const [isLoading, setIsLoading] = useState(false)
+
+  // 加载历史数据
+  const loadHistories = async () => {
+    setIsLoading(true)
+    try {
+      const data = await accountHistory.getAllHistories()
+      setHistories(data)
+    } catch (error) {
+      console.error('加载历史数据失败:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadHistories()
+  }, [])
+
+  // 处理路由参数中的账号ID
+  useEffect(() => {
+    if (routeParams?.accountId && accounts.length > 0) {
+      const accountExists = accounts.some(acc => acc.id === routeParams.accountId)
+      if (accountExists) {
+        setSelectedAccount(routeParams.accountId)
+      }
+    }
+  }, [routeParams?.accountId, accounts])
+
+  // 按日期汇总选中账号的数据
+  const dailyRows = useMemo<DailyRow[]>(() => {
+    const dates = buildDateRange(rangeDays)
+    const targetAccounts = selectedAccount === 'all'
+      ? accounts
+      : accounts.filter(acc => acc.id === selectedAccount)
+
+    return dates.map(date => {
+      let balance: number | null = null
+      let consumption = 0
+      let requests = 0
+      let promptTokens = 0
+      let completionTokens = 0
+      let tokensCombined = false
+      let checkInReward = 0
+      let checkedIn = 0
+      let checkInFailed = 0
+
+      targetAccounts.forEach(account => {
+        const point = histories[account.id]?.find(p => p.date === date)
+        if (!point) return
+        balance = (balance ?? 0) + quotaToAmount(point.quota, account, currencyType)
+        consumption += quotaToAmount(point.today_quota_consumption, account, currencyType)
+        requests += point.today_requests_count
+        promptTokens += point.today_prompt_tokens
+        completionTokens += point.today_completion_tokens
+        tokensCombined = tokensCombined || !!point.today_tokens_combined
+        if (point.check_in) {
+          if (point.check_in.status === 'failed') {
+            checkInFailed++
+          } else {
+            checkedIn++
+            checkInReward += quotaToAmount(point.check_in.reward_quota, account, currencyType)
+          }
+        }
+      })
+
+      return { date, balance, consumption, requests, promptTokens, completionTokens, tokensCombined, checkInReward, checkedIn, checkInFailed }
+    })
+  }, [histories, accounts, selectedAccount, rangeDays, currencyType])
+
+  // 选中范围内是否有签到记录，没有时不显示签到列
+  const hasCheckIn = dailyRows.some(row => row.checkedIn > 0 || row.checkInFailed > 0)
+
+  // 今日消耗明细（按模型 / 令牌）
+  const breakdown = useMemo(() => {
+    const targetAccounts = selectedAccount === 'all'
+      ? accounts
+      : accounts.filter(acc => acc.id === selectedAccount)
+    return {
+      models: summarizeBreakdown(targetAccounts, 'by_model'),
+      tokens: summarizeBreakdown(targetAccounts, 'by_token'),
+      missingTokens: hasMissingTokenBreakdown(targetAccounts)
+    }
+  }, [accounts, selectedAccount])
+
+  // 汇总统计
+  const summary = useMemo(() => {
+    const recorded = dailyRows.filter(row => row.balance !== null)
+    const totalConsumption = dailyRows.reduce((sum, row) => sum + row.consumption, 0)
+    const activeDays = dailyRows.filter(row => row.consumption > 0).length
+    return {
+      totalConsumption,
+      averageConsumption: activeDays > 0 ? totalConsumption / activeDays : 0,
+      latestBalance: recorded.length > 0 ? recorded[recorded.length - 1].balance : null,
+      recordedDays: recorded.length
+    }
+  }, [dailyRows])
+
+  const symbol = getCurrencySymbol(currencyType)
+
+  return (
+    <div className="p-6">
+      {/* 页面标题 */}
+      <div className="mb-6">
+        <div className="flex items-center space-x-3 mb-2">
+          <PresentationChartLineIcon className="w-6 h-6 text-blue-600" />
+          <h1 className="text-2xl font-semibold text-gray-900">历史趋势</h1>
+        </div>
+        <p className="text-gray-500">查看各站点每日余额变化和消耗情况</p>
+      </div>
+
+      {/* 筛选控件 */}
+      <div className="mb-6 flex flex-col sm:flex-row gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">选择账号</label>
+          <AccountSelector
+            accounts={accounts}
+            value={selectedAccount}
+            onChange={setSelectedAccount}
+            emptyOption={{ value: 'all', label: '所有账号' }}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">时间范围</label>
+          <div className="flex bg-gray-100 rounded-lg p-1">
+            {RANGE_OPTIONS.map(days => (
+              <button
+                key={days}
+                onClick={() => setRangeDays(days)}
+                className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                  rangeDays === days
+                    ? 'bg-white text-gray-900 shadow-sm'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {days} 天
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="sm:ml-auto">
+          <label className="block text-sm font-medium text-gray-700 mb-2 sm:invisible">操作</label>
+          <button
+            onClick={loadHistories}
+            disabled={isLoading}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center space-x-2"
+          >
+            <ArrowPathIcon className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            <span>刷新</span>
+          </button>
+        </div>
+      </div>
+
+      {summary.recordedDays === 0 ? (
+        <div className="text-center py-12">
+          <PresentationChartLineIcon className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500">暂无历史数据，刷新账号后会自动记录</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {/* 汇总卡片 */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="border border-gray-200 rounded-lg p-4">
+              <p className="text-sm text-gray-500">区间总消耗</p>
+              <p className="text-2xl font-semibold text-gray-900">{symbol}{summary.totalConsumption.toFixed(2)}</p>
+            </div>
+            <div className="border border-gray-200 rounded-lg p-4">
+              <p className="text-sm text-gray-500">日均消耗（有消耗的天）</p>
+              <p className="text-2xl font-semibold text-gray-900">{symbol}{summary.averageConsumption.toFixed(2)}</p>
+            </div>
+            <div className="border border-gray-200 rounded-lg p-4">
+              <p className="text-sm text-gray-500">最新余额</p>
+              <p className="text-2xl font-semibold text-gray-900">
+                {summary.latestBalance !== null ? `${symbol}${summary.latestBalance.toFixed(2)}` : '-'}
+              </p>
+            </div>
+          </div>
+
+          {/* 每日消耗 */}
+          <section className="border border-gray-200 rounded-lg p-4">
+            <div className="flex items-center space-x-2 mb-4">
+              <ChartBarIcon className="w-5 h-5 text-green-600" />
+              <h2 className="text-lg font-medium text-gray-900">每日消耗</h2>
+            </div>
+            <ConsumptionBars rows={dailyRows} symbol={symbol} />
+          </section>
+
+          {/* 余额走势 */}
+          <section className="border border-gray-200 rounded-lg p-4">
+            <div className="flex items-center space-x-2 mb-4">
+              <BanknotesIcon className="w-5 h-5 text-blue-600" />
+              <h2 className="text-lg font-medium text-gray-900">余额走势</h2>
+            </div>
+            <BalanceLine rows={dailyRows} symbol={symbol} />
+          </section>
+
+          {/* 今日消耗明细 */}
+          <section className="border border-gray-200 rounded-lg p-4">
+            <div className="flex items-center space-x-2 mb-4">
+              <ChartPieIcon className="w-5 h-5 text-green-600" />
+              <h2 className="text-lg font-medium text-gray-900">今日消耗明细</h2>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <div className="border border-gray-100 rounded-lg overflow-hidden">
+                <UsageBreakdownTable rows={breakdown.models} dimension="by_model" currencyType={currencyType} />
+              </div>
+              <div className="border border-gray-100 rounded-lg overflow-hidden">
+                <UsageBreakdownTable rows={breakdown.tokens} dimension="by_token" currencyType={currencyType} />
+              </div>
+            </div>
+            {breakdown.missingTokens && (
+              <p className="mt-2 text-xs text-gray-400">部分站点通过聚合接口统计，无法按令牌拆分</p>
+            )}
+          </section>
+
+          {/* 明细表格 */}
+          <section className="border border-gray-200 rounded-lg overflow-hidden">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-gray-500">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium">日期</th>
+                  <th className="px-4 py-2 text-right font-medium">余额</th>
+                  <th className="px-4 py-2 text-right font-medium">消耗</th>
+                  <th className="px-4 py-2 text-right font-medium">请求数</th>
+                  <th className="px-4 py-2 text-right font-medium">提示 / 补全 Tokens</th>
+                  {hasCheckIn && <th className="px-4 py-2 text-right font-medium">签到</th>}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {[...dailyRows].reverse().filter(row => row.balance !== null).map(row => (
+                  <tr key={row.date}>
+                    <td className="px-4 py-2 text-gray-900">{row.date}</td>
+                    <td className="px-4 py-2 text-right text-gray-900">{symbol}{(row.balance ?? 0).toFixed(2)}</td>
+                    <td className="px-4 py-2 text-right text-green-600">{symbol}{row.consumption.toFixed(2)}</td>
+                    <td className="px-4 py-2 text-right text-gray-600">{row.requests}</td>
+                    <td className="px-4 py-2 text-right text-gray-600">
+                      {row.tokensCombined
+                        ? <span title="部分站点只提供 token 总数">合计 {formatTokenCount(row.promptTokens + row.completionTokens)}</span>
+                        : <>{formatTokenCount(row.promptTokens)} / {formatTokenCount(row.completionTokens)}</>}
+                    </td>
+                    {hasCheckIn && (
+                      <td className="px-4 py-2 text-right">
+                        {row.checkInReward > 0 ? (
+                          <span className="text-blue-600">+{symbol}{row.checkInReward.toFixed(2)}</span>
+                        ) : row.checkedIn > 0 ? (
+                          <span className="text-gray-600">已签到</span>
+                        ) : row.checkInFailed > 0 ? (
+                          <span className="text-red-500">失败</span>
+                        ) : (
+                          <span className="text-gray-300">-</span>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// 每日消耗柱状图
+function ConsumptionBars({ rows, symbol }: { rows: DailyRow[], symbol: string }) {
+  const maxValue = Math.max(...rows.map(row => row.consumption), 0)
+
+  return (
+    <div>
+      <div className="flex items-end h-40 gap-px">
+        {rows.map(row => (
+          <div
+            key={row.date}
+            className="flex-1 h-full flex items-end"
+            title={`${row.date}: ${symbol}${row.consumption.toFixed(2)}`}
+          >
+            <div
+              className="w-full bg-green-400 hover:bg-green-500 rounded-t transition-colors"
+              style={{ height: maxValue > 0 ? `${(row.consumption / maxValue) * 100}%` : '0%' }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between mt-2 text-xs text-gray-400">
+        <span>{rows[0]?.date}</span>
+        <span>最高 {symbol}{maxValue.toFixed(2)}</span>
+        <span>{rows[rows.length - 1]?.date}</span>
+      </div>
+    </div>
+  )
+}
+
+// 余额折线图
+function BalanceLine({ rows, symbol }: { rows: DailyRow[], symbol: string }) {
+  const width = 600
+  const height = 160
+  const values = rows.map(row => row.balance).filter((value): value is number => value !== null)
+  const maxValue = Math.max(...values, 0)
+  const minValue = Math.min(...values, maxValue)
+  const span = maxValue - minValue || 1
+
+  // 只连接有记录的点，缺失的日期直接跳过
+  const points = rows
+    .map((row, index) => {
+      if (row.balance === null) return null
+      const x = rows.length > 1 ? (index / (rows.length - 1)) * width : width / 2
+      const y = height - ((row.balance - minValue) / span) * (height - 10) - 5
+      return `${x.toFixed(1)},${y.toFixed(1)}`
+    })
+    .filter(Boolean)
+    .join(' ')
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="w-full h-40">
+        <polyline
+          points={points}
+          fill="none"
+          stroke="#3b82f6"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <div className="flex justify-between mt-2 text-xs text-gray-400">
+        <span>{rows[0]?.date}</span>
+        <span>{symbol}{minValue.toFixed(2)} ~ {symbol}{maxValue.toFixed(2)}</span>
+        <span>{rows[rows.length - 1]?.date}</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,496 @@
+import { useState, useEffect, useMemo } from "react"
+import {
+  DocumentTextIcon,
+  MagnifyingGlassIcon,
+  ChevronUpIcon,
+  ChevronDownIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ExclamationTriangleIcon
+} from "@heroicons/react/24/outline"
+import { useAccountData } from "../../hooks/useAccountData"
+import AccountSelector from "../../components/AccountSelector"
+import { useUserPreferences } from "../../hooks/useUserPreferences"
+import { fetchUsageLogsUpTo, LOG_TYPES, type LogItem } from "../../services/apiService"
+import { getDateKey } from "../../services/accountHistory"
+import { UI_CONSTANTS } from "../../constants/ui"
+import { getCurrencySymbol, formatTokenCount, formatFullTime } from "../../utils/formatters"
+import type { SiteAccount } from "../../types"
+import toast from 'react-hot-toast'
+
+// 每个账号最多拉取的日志条数，避免长时间范围查询拖垮页面
+const MAX_LOGS_PER_ACCOUNT = 2000
+// 每页显示条数
+const PAGE_SIZE = 50
+
+// 可排序的列
+type SortKey = 'time' | 'model' | 'prompt' | 'completion' | 'cost'
+
+// 表格中的一行日志（附带所属账号）
+interface LogRow extends LogItem {
+  key: string
+  accountName: string
+  cost: number // 按当前货币换算后的费用
+}
+
+// 按模型汇总的数据
+interface ModelSummary {
+  model: string
+  requests: number
+  promptTokens: number
+  completionTokens: number
+  cost: number
+}
+
+// 查询条件表单
+interface LogFilters {
+  startDate: string
+  endDate: string
+  type: number
+  tokenName: string
+  modelName: string
+  group: string
+}
+
+// 将 quota 换算为指定货币金额
+const quotaToAmount = (quota: number, account: SiteAccount, currency: 'USD' | 'CNY'): number => {
+  const usd = quota / UI_CONSTANTS.EXCHANGE_RATE.CONVERSION_FACTOR
+  return currency === 'USD' ? usd : usd * account.exchange_rate
+}
+
+// 将 YYYY-MM-DD 转换为本地时区当天开始 / 结束的秒级时间戳
+const toStartTimestamp = (date: string): number => Math.floor(new Date(`${date}T00:00:00`).getTime() / 1000)
+const toEndTimestamp = (date: string): number => Math.floor(new Date(`${date}T23:59:59`).getTime() / 1000)
+
+const createDefaultFilters = (): LogFilters => {
+  const today = getDateKey()
+  return {
+    startDate: today,
+    endDate: today,
+    type: 0,
+    tokenName: '',
+    modelName: '',
+    group: ''
+  }
+}
+
+export default function UsageLogs({ routeParams }: { routeParams?: Record<string, string> }) {
+  const { accounts } = useAccountData()
+  const { currencyType } = useUserPreferences()
+
+  const [selectedAccount, setSelectedAccount] = useState<string>("all")
+  const [filters, setFilters] = useState<LogFilters>(createDefaultFilters)
+  const [logs, setLogs] = useState<(LogItem & { accountId: string })[]>([])
+  const [truncatedAccounts, setTruncatedAccounts] = useState<string[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [hasQueried, setHasQueried] = useState(false)
+  const [sortKey, setSortKey] = useState<SortKey>('time')
+  const [sortDesc, setSortDesc] = useState(true)
+  const [page, setPage] = useState(1)
+
+  // 查询日志
+  const loadLogs = async (accountId: string = selectedAccount) => {
+    if (accounts.length === 0) return
+
+    if (filters.startDate > filters.endDate) {
+      toast.error('开始日期不能晚于结束日期')
+      return
+    }
+
+    const targetAccounts = accountId === 'all'
+      ? accounts
+      : accounts.filter(acc => acc.id === accountId)
+
+    setIsLoading(true)
+    try {
+      const query = {
+        startTimestamp: toStartTimestamp(filters.startDate),
+        endTimestamp: toEndTimestamp(filters.endDate),
+        type: filters.type,
+        tokenName: filters.tokenName.trim(),
+        modelName: filters.modelName.trim(),
+        group: filters.group.trim()
+      }
+
+      const results = await Promise.allSettled(
+        targetAccounts.map(account =>
+          fetchUsageLogsUpTo(
+            account.site_url,
+            account.account_info.id,
+            account.account_info.access_token,
+            query,
+            MAX_LOGS_PER_ACCOUNT,
+            account.site_type
+          )
+        )
+      )
+
+      const nextLogs: (LogItem & { accountId: string })[] = []
+      const truncated: string[] = []
+      const failed: string[] = []
+
+      results.forEach((result, index) => {
+        const account = targetAccounts[index]
+        if (result.status === 'fulfilled') {
+          result.value.items.forEach(item => nextLogs.push({ ...item, accountId: account.id }))
+          if (result.value.truncated) {
+            truncated.push(account.site_name)
+          }
+        } else {
+          console.error(`获取 ${account.site_name} 使用日志失败:`, result.reason)
+          failed.push(account.site_name)
+        }
+      })
+
+      if (failed.length > 0) {
+        toast.error(`以下账号日志加载失败: ${failed.join('、')}`)
+      }
+
+      setLogs(nextLogs)
+      setTruncatedAccounts(truncated)
+      setPage(1)
+      setHasQueried(true)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // 处理路由参数中的账号ID，并自动查询一次
+  useEffect(() => {
+    if (accounts.length === 0 || hasQueried) return
+
+    let accountId = selectedAccount
+    if (routeParams?.accountId && accounts.some(acc => acc.id === routeParams.accountId)) {
+      accountId = routeParams.accountId
+      setSelectedAccount(accountId)
+    }
+    loadLogs(accountId)
+  }, [routeParams?.accountId, accounts])
+
+  const accountMap = useMemo(() => {
+    return new Map(accounts.map(account => [account.id, account]))
+  }, [accounts])
+
+  // 附加账号信息并换算费用
+  const rows = useMemo<LogRow[]>(() => {
+    return logs.flatMap((log, index) => {
+      const account = accountMap.get(log.accountId)
+      if (!account) return []
+      return [{
+        ...log,
+        key: `${log.accountId}-${log.id ?? index}`,
+        accountName: account.site_name,
+        cost: quotaToAmount(log.quota || 0, account, currencyType)
+      }]
+    })
+  }, [logs, accountMap, currencyType])
+
+  // 排序
+  const sortedRows = useMemo(() => {
+    const getValue = (row: LogRow): number | string => {
+      switch (sortKey) {
+        case 'model': return row.model_name || ''
+        case 'prompt': return row.prompt_tokens || 0
+        case 'completion': return row.completion_tokens || 0
+        case 'cost': return row.cost
+        default: return row.created_at || 0
+      }
+    }
+
+    return [...rows].sort((a, b) => {
+      const valueA = getValue(a)
+      const valueB = getValue(b)
+      const result = typeof valueA === 'string'
+        ? valueA.localeCompare(valueB as string)
+        : valueA - (valueB as number)
+      return sortDesc ? -result : result
+    })
+  }, [rows, sortKey, sortDesc])
+
+  // 按模型汇总
+  const modelSummaries = useMemo<ModelSummary[]>(() => {
+    const summaries = new Map<string, ModelSummary>()
+    rows.forEach(row => {
+      const model = row.model_name || '未知模型'
+      const summary = summaries.get(model) || {
+        model,
+        requests: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        cost: 0
+      }
+      summary.requests += 1
+      summary.promptTokens += row.prompt_tokens || 0
+      summary.completionTokens += row.completion_tokens || 0
+      summary.cost += row.cost
+      summaries.set(model, summary)
+    })
+    return Array.from(summaries.values()).sort((a, b) => b.cost - a.cost)
+  }, [rows])
+
+  const totalPages = Math.max(1, Math.ceil(sortedRows.length / PAGE_SIZE))
+  const pagedRows = sortedRows.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE)
+  const totalCost = rows.reduce((sum, row) => sum + row.cost, 0)
+  const symbol = getCurrencySymbol(currencyType)
+
+  // 切换排序列，同一列再次点击时切换方向
+  const handleSort = (key: SortKey) => {
+    if (sortKey === key) {
+      setSortDesc(!sortDesc)
+    } else {
+      setSortKey(key)
+      setSortDesc(true)
+    }
+    setPage(1)
+  }
+
+  const updateFilter = <K extends keyof LogFilters>(key: K, value: LogFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }))
+  }
+
+  const renderSortHeader = (key: SortKey, label: string, align: 'left' | 'right' = 'right') => (
+    <th className={`px-4 py-2 font-medium ${align === 'left' ? 'text-left' : 'text-right'}`}>
+      <button
+        onClick={() => handleSort(key)}
+        className={`inline-flex items-center space-x-1 hover:text-gray-700 ${sortKey === key ? 'text-gray-900' : ''}`}
+      >
+        <span>{label}</span>
+        {sortKey === key && (
+          sortDesc ? <ChevronDownIcon className="w-3 h-3" /> : <ChevronUpIcon className="w-3 h-3" />
+        )}
+      </button>
+    </th>
+  )
+
+  const inputClassName = "w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+
+  return (
+    <div className="p-6">
+      {/* 页面标题 */}
+      <div className="mb-6">
+        <div className="flex items-center space-x-3 mb-2">
+          <DocumentTextIcon className="w-6 h-6 text-blue-600" />
+          <h1 className="text-2xl font-semibold text-gray-900">使用日志</h1>
+        </div>
+        <p className="text-gray-500">按时间、令牌、模型和分组查询各站点的调用记录</p>
+      </div>
+
+      {/* 查询条件 */}
+      <div className="mb-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">选择账号</label>
+          <AccountSelector
+            accounts={accounts}
+            value={selectedAccount}
+            onChange={setSelectedAccount}
+            emptyOption={{ value: 'all', label: '所有账号' }}
+            selectClassName={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">开始日期</label>
+          <input
+            type="date"
+            value={filters.startDate}
+            onChange={(e) => updateFilter('startDate', e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">结束日期</label>
+          <input
+            type="date"
+            value={filters.endDate}
+            onChange={(e) => updateFilter('endDate', e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">日志类型</label>
+          <select
+            value={filters.type}
+            onChange={(e) => updateFilter('type', Number(e.target.value))}
+            className={inputClassName}
+          >
+            <option value={0}>全部</option>
+            {Object.entries(LOG_TYPES).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">令牌名称</label>
+          <input
+            type="text"
+            value={filters.tokenName}
+            onChange={(e) => updateFilter('tokenName', e.target.value)}
+            placeholder="全部令牌"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">模型名称</label>
+          <input
+            type="text"
+            value={filters.modelName}
+            onChange={(e) => updateFilter('modelName', e.target.value)}
+            placeholder="全部模型"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">分组</label>
+          <input
+            type="text"
+            value={filters.group}
+            onChange={(e) => updateFilter('group', e.target.value)}
+            placeholder="全部分组"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2 invisible">操作</label>
+          <button
+            onClick={() => loadLogs()}
+            disabled={isLoading || accounts.length === 0}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center justify-center space-x-2"
+          >
+            <MagnifyingGlassIcon className={`w-4 h-4 ${isLoading ? 'animate-pulse' : ''}`} />
+            <span>{isLoading ? '查询中...' : '查询'}</span>
+          </button>
+        </div>
+      </div>
+
+      {truncatedAccounts.length > 0 && (
+        <div className="mb-4 flex items-start space-x-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          <ExclamationTriangleIcon className="w-5 h-5 flex-shrink-0" />
+          <span>
+            {truncatedAccounts.join('、')} 的日志超过 {MAX_LOGS_PER_ACCOUNT} 条，仅显示最近的 {MAX_LOGS_PER_ACCOUNT} 条，请缩小查询范围
+          </span>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {Array.from({ length: 5 }).map((_, i) => (
+            <div key={i} className="h-10 bg-gray-100 rounded animate-pulse" />
+          ))}
+        </div>
+      ) : rows.length === 0 ? (
+        <div className="text-center py-12">
+          <DocumentTextIcon className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500">
+            {accounts.length === 0 ? '暂无账号，请先添加账号' : hasQueried ? '没有符合条件的日志' : '设置条件后点击查询'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {/* 汇总卡片 */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="border border-gray-200 rounded-lg p-4">
+              <p className="text-sm text-gray-500">日志条数</p>
+              <p className="text-2xl font-semibold text-gray-900">{rows.length}</p>
+            </div>
+            <div className="border border-gray-200 rounded-lg p-4">
+              <p className="text-sm text-gray-500">总费用</p>
+              <p className="text-2xl font-semibold text-gray-900">{symbol}{totalCost.toFixed(4)}</p>
+            </div>
+            <div className="border border-gray-200 rounded-lg p-4">
+              <p className="text-sm text-gray-500">涉及模型</p>
+              <p className="text-2xl font-semibold text-gray-900">{modelSummaries.length}</p>
+            </div>
+          </div>
+
+          {/* 按模型汇总 */}
+          <section className="border border-gray-200 rounded-lg overflow-hidden">
+            <div className="px-4 py-3 border-b border-gray-200">
+              <h2 className="text-lg font-medium text-gray-900">按模型汇总</h2>
+            </div>
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-gray-500">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium">模型</th>
+                  <th className="px-4 py-2 text-right font-medium">请求数</th>
+                  <th className="px-4 py-2 text-right font-medium">提示 / 补全 Tokens</th>
+                  <th className="px-4 py-2 text-right font-medium">费用</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {modelSummaries.map(summary => (
+                  <tr key={summary.model}>
+                    <td className="px-4 py-2 text-gray-900">{summary.model}</td>
+                    <td className="px-4 py-2 text-right text-gray-600">{summary.requests}</td>
+                    <td className="px-4 py-2 text-right text-gray-600">
+                      {formatTokenCount(summary.promptTokens)} / {formatTokenCount(summary.completionTokens)}
+                    </td>
+                    <td className="px-4 py-2 text-right text-green-600">{symbol}{summary.cost.toFixed(4)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          {/* 日志明细 */}
+          <section className="border border-gray-200 rounded-lg overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 text-gray-500">
+                  <tr>
+                    {renderSortHeader('time', '时间', 'left')}
+                    <th className="px-4 py-2 text-left font-medium">账号</th>
+                    <th className="px-4 py-2 text-left font-medium">类型</th>
+                    <th className="px-4 py-2 text-left font-medium">令牌</th>
+                    {renderSortHeader('model', '模型', 'left')}
+                    {renderSortHeader('prompt', '提示')}
+                    {renderSortHeader('completion', '补全')}
+                    {renderSortHeader('cost', '费用')}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {pagedRows.map(row => (
+                    <tr key={row.key} title={row.content || undefined}>
+                      <td className="px-4 py-2 text-gray-900 whitespace-nowrap">
+                        {row.created_at ? formatFullTime(new Date(row.created_at * 1000)) : '-'}
+                      </td>
+                      <td className="px-4 py-2 text-gray-600">{row.accountName}</td>
+                      <td className="px-4 py-2 text-gray-600">{(row.type && LOG_TYPES[row.type]) || '-'}</td>
+                      <td className="px-4 py-2 text-gray-600">{row.token_name || '-'}</td>
+                      <td className="px-4 py-2 text-gray-900">
+                        {row.model_name || '-'}
+                        {row.group && <span className="ml-1 text-xs text-gray-400">[{row.group}]</span>}
+                      </td>
+                      <td className="px-4 py-2 text-right text-gray-600">{formatTokenCount(row.prompt_tokens || 0)}</td>
+                      <td className="px-4 py-2 text-right text-gray-600">{formatTokenCount(row.completion_tokens || 0)}</td>
+                      <td className="px-4 py-2 text-right text-green-600">{symbol}{row.cost.toFixed(4)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* 分页 */}
+            <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200 text-sm text-gray-500">
+              <span>共 {sortedRows.length} 条，第 {page} / {totalPages} 页</span>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                  className="p-1.5 rounded-md border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <ChevronLeftIcon className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= totalPages}
+                  className="p-1.5 rounded-md border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <ChevronRightIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </section>
+        </div>
+      )}
+    </div>
+  )
+}
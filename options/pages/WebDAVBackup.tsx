@@ -11,10 +11,19 @@ import {
   ClockIcon
 } from "@heroicons/react/24/outline"
 import { webdavService } from "../../services/webdavService"
+import { vaultService } from "../../services/vaultService"
+import BackupPassphraseDialog from "../../components/BackupPassphraseDialog"
 import type { WebDAVConfig, WebDAVResult } from "../../types"
 import { formatFullTime } from "../../utils/formatters"
 import toast from 'react-hot-toast'
 
+// 等待用户输入备份口令的操作
+interface PassphraseRequest {
+  mode: 'encrypt' | 'decrypt'
+  filename?: string // 恢复的备份文件
+  error?: string | null
+}
+
 export default function WebDAVBackup() {
   const [config, setConfig] = useState<WebDAVConfig>({
     enabled: false,
@@ -30,6 +39,10 @@ export default function WebDAVBackup() {
   const [isTesting, setIsTesting] = useState(false)
   const [backupFiles, setBackupFiles] = useState<string[]>([])
   const [showPassword, setShowPassword] = useState(false)
+  const [showPassphrase, setShowPassphrase] = useState(false)
+  const [vaultEnabled, setVaultEnabled] = useState(false) // 只有启用保险库时才保存备份口令
+  const [passphraseRequest, setPassphraseRequest] = useState<PassphraseRequest | null>(null)
+  const [passphraseConfirmation, setPassphraseConfirmation] = useState("") // 保存的备份口令需再次输入确认
   const [syncLogs, setSyncLogs] = useState<Array<{
     timestamp: number
     trigger: string
@@ -40,8 +53,13 @@ export default function WebDAVBackup() {
   // 加载配置
   const loadConfig = async () => {
     try {
-      const savedConfig = await webdavService.getConfig()
+      const [savedConfig, vaultStatus] = await Promise.all([
+        webdavService.getConfig(),
+        vaultService.getStatus()
+      ])
       setConfig(savedConfig)
+      setPassphraseConfirmation(savedConfig.backup_passphrase || '')
+      setVaultEnabled(vaultStatus.enabled)
       if (savedConfig.enabled) {
         loadBackupFiles()
       }
@@ -52,6 +70,15 @@ export default function WebDAVBackup() {
 
   // 保存配置
   const saveConfig = async () => {
+    if (vaultEnabled && config.encrypt_backup && !config.backup_passphrase) {
+      toast.error('已启用加密备份，请设置备份口令')
+      return
+    }
+    if (vaultEnabled && config.encrypt_backup && config.backup_passphrase !== passphraseConfirmation) {
+      toast.error('两次输入的备份口令不一致')
+      return
+    }
+
     try {
       setIsLoading(true)
       const success = await webdavService.saveConfig(config)
@@ -115,10 +142,16 @@ export default function WebDAVBackup() {
   }
 
   // 立即备份
-  const handleBackup = async () => {
+  const handleBackup = async (passphrase?: string) => {
     try {
       setIsLoading(true)
-      const result = await webdavService.uploadBackup('手动备份')
+      const result = await webdavService.uploadBackup('手动备份', passphrase)
+      // 加密备份且未保存口令时请用户输入备份口令
+      if (!result.success && result.passphrase_required) {
+        setPassphraseRequest({ mode: 'encrypt' })
+        return
+      }
+      setPassphraseRequest(null)
       if (result.success) {
         toast.success(result.message)
         loadBackupFiles()
@@ -140,10 +173,19 @@ export default function WebDAVBackup() {
     if (!confirm(`确定要从备份文件 "${filename}" 恢复数据吗？这将覆盖当前所有数据。`)) {
       return
     }
+    await restoreBackup(filename)
+  }
 
+  const restoreBackup = async (filename: string, passphrase?: string) => {
     try {
       setIsLoading(true)
-      const result = await webdavService.downloadBackup(filename)
+      const result = await webdavService.downloadBackup(filename, passphrase)
+      // 加密备份且未保存口令（或口令不正确）时请用户输入备份口令
+      if (!result.success && result.passphrase_required) {
+        setPassphraseRequest({ mode: 'decrypt', filename, error: passphrase ? result.message : null })
+        return
+      }
+      setPassphraseRequest(null)
       if (result.success && result.data) {
         // 导入账号数据和用户设置
         const { accountStorage } = await import("../../services/accountStorage")
@@ -178,6 +220,15 @@ export default function WebDAVBackup() {
     }
   }
 
+  // 提交备份口令后继续被中断的备份或恢复
+  const handlePassphraseSubmit = (passphrase: string) => {
+    if (passphraseRequest?.mode === 'encrypt') {
+      handleBackup(passphrase)
+    } else if (passphraseRequest?.filename) {
+      restoreBackup(passphraseRequest.filename, passphrase)
+    }
+  }
+
   // 删除备份
   const handleDeleteBackup = async (filename: string) => {
     if (!confirm(`确定要删除备份文件 "${filename}" 吗？`)) {
@@ -377,6 +428,64 @@ export default function WebDAVBackup() {
                 </div>
               </div>
 
+              {/* 加密备份设置 */}
+              <div className="border-t border-gray-200 pt-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">加密备份</label>
+                    <p className="text-xs text-gray-500">上传前使用备份口令加密备份内容，服务器上只保存密文；已有的明文备份仍可正常恢复</p>
+                  </div>
+                  <button
+                    onClick={() => setConfig(prev => ({ ...prev, encrypt_backup: !prev.encrypt_backup }))}
+                    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors flex-shrink-0 ml-4 ${
+                      config.encrypt_backup ? 'bg-blue-600' : 'bg-gray-200'
+                    }`}
+                  >
+                    <span
+                      className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                        config.encrypt_backup ? 'translate-x-6' : 'translate-x-1'
+                      }`}
+                    />
+                  </button>
+                </div>
+                {config.encrypt_backup && !vaultEnabled && (
+                  <p className="text-xs text-gray-500">
+                    未启用保险库时不保存备份口令，每次手动备份和恢复时输入；数据变动时不会自动上传加密备份
+                  </p>
+                )}
+                {config.encrypt_backup && vaultEnabled && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      备份口令
+                    </label>
+                    <div className="relative">
+                      <input
+                        type={showPassphrase ? "text" : "password"}
+                        value={config.backup_passphrase || ''}
+                        onChange={(e) => setConfig(prev => ({ ...prev, backup_passphrase: e.target.value }))}
+                        placeholder="输入备份口令"
+                        className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setShowPassphrase(!showPassphrase)}
+                        className="absolute inset-y-0 right-0 pr-3 flex items-center text-sm text-gray-600 hover:text-gray-800"
+                      >
+                        {showPassphrase ? '隐藏' : '显示'}
+                      </button>
+                    </div>
+                    <input
+                      type={showPassphrase ? "text" : "password"}
+                      value={passphraseConfirmation}
+                      onChange={(e) => setPassphraseConfirmation(e.target.value)}
+                      placeholder="再次输入备份口令"
+                      className="w-full mt-2 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">口令丢失后将无法恢复加密的备份，请妥善保管</p>
+                  </div>
+                )}
+              </div>
+
               {/* 操作按钮 */}
               <div className="flex space-x-3 pt-4">
                 <button
@@ -409,7 +518,7 @@ export default function WebDAVBackup() {
               </div>
               {config.enabled && (
                 <button
-                  onClick={handleBackup}
+                  onClick={() => handleBackup()}
                   disabled={isLoading}
                   className="px-3 py-1 bg-green-600 text-white text-sm font-medium rounded-lg hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 transition-colors disabled:opacity-50"
                 >
@@ -668,6 +777,18 @@ export default function WebDAVBackup() {
           </div>
         </div>
       </div>
+
+      <BackupPassphraseDialog
+        isOpen={!!passphraseRequest}
+        mode={passphraseRequest?.mode ?? 'decrypt'}
+        description={passphraseRequest?.mode === 'encrypt'
+          ? '已启用加密备份，未保存备份口令'
+          : `备份文件 "${passphraseRequest?.filename ?? ''}" 已加密`}
+        error={passphraseRequest?.error}
+        isSubmitting={isLoading}
+        onClose={() => setPassphraseRequest(null)}
+        onSubmit={handlePassphraseSubmit}
+      />
     </div>
   )
 }
\ No newline at end of file
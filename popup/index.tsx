@@ -1,8 +1,10 @@
 import "./style.css"
 import { useState, useCallback, useMemo, useEffect } from "react"
 import toast, { Toaster } from 'react-hot-toast'
+import { LockClosedIcon } from "@heroicons/react/24/outline"
 import { UI_CONSTANTS } from "../constants/ui"
-import { calculateTotalConsumption, calculateTotalBalance, getOppositeCurrency } from "../utils/formatters"
+import { calculateTotalConsumption, calculateTotalBalance, calculateSitesConsumption, getOppositeCurrency } from "../utils/formatters"
+import { filterSites, isFilterActive } from "../utils/accountFilter"
 import { useAccountData } from "../hooks/useAccountData"
 import { useSort } from "../hooks/useSort"
 import { useUserPreferences } from "../hooks/useUserPreferences"
@@ -12,8 +14,11 @@ import ActionButtons from "../components/ActionButtons"
 import AccountList from "../components/AccountList"
 import AddAccountDialog from "../components/AddAccountDialog"
 import EditAccountDialog from "../components/EditAccountDialog"
+import ConsumptionBreakdownDialog from "../components/ConsumptionBreakdownDialog"
+import VaultUnlockDialog from "../components/VaultUnlockDialog"
 import { accountStorage } from "../services/accountStorage"
-import type { DisplaySiteData } from "../types"
+import { vaultService } from "../services/vaultService"
+import type { DisplaySiteData, AutoRefreshStatus, RefreshProgress } from "../types"
 
 function IndexPopup() {
   // 用户偏好设置管理
@@ -24,16 +29,23 @@ function IndexPopup() {
     currencyType,
     sortField,
     sortOrder,
+    accountFilter,
     updateActiveTab,
     updateCurrencyType,
-    updateSortConfig
+    updateSortConfig,
+    updateAccountFilter
   } = useUserPreferences()
 
   // 状态管理
   const [isAddAccountOpen, setIsAddAccountOpen] = useState(false)
   const [isEditAccountOpen, setIsEditAccountOpen] = useState(false)
   const [editingAccount, setEditingAccount] = useState<DisplaySiteData | null>(null)
+  const [isBreakdownOpen, setIsBreakdownOpen] = useState(false)
   const [refreshingAccountId, setRefreshingAccountId] = useState<string | null>(null)
+  const [nextRefreshTime, setNextRefreshTime] = useState<Date | null>(null)
+  const [backgroundProgress, setBackgroundProgress] = useState<RefreshProgress | null>(null)
+  const [isVaultLocked, setIsVaultLocked] = useState(false)
+  const [isUnlockOpen, setIsUnlockOpen] = useState(false)
 
   // 数据管理
   const {
@@ -43,6 +55,7 @@ function IndexPopup() {
     lastUpdateTime,
     isInitialLoad,
     isRefreshing,
+    refreshProgress,
     prevTotalConsumption,
     prevBalances,
     loadAccountData,
@@ -58,21 +71,43 @@ function IndexPopup() {
     updateSortConfig
   )
 
+  // 筛选管理 - 筛选生效时顶部合计只统计筛选结果
+  const filterActive = isFilterActive(accountFilter)
+  const filteredData = useMemo(() => 
+    filterSites(displayData, accountFilter, currencyType), 
+    [displayData, accountFilter, currencyType]
+  )
+
   // 计算数据 - 使用 useMemo 缓存
   const totalConsumption = useMemo(() => 
-    calculateTotalConsumption(stats, accounts), 
-    [stats, accounts]
+    filterActive ? calculateSitesConsumption(filteredData) : calculateTotalConsumption(stats, accounts), 
+    [filterActive, filteredData, stats, accounts]
   )
   
   const totalBalance = useMemo(() => 
-    calculateTotalBalance(displayData), 
-    [displayData]
+    calculateTotalBalance(filterActive ? filteredData : displayData), 
+    [filterActive, filteredData, displayData]
   )
   
-  const todayTokens = useMemo(() => ({
+  const todayTokens = useMemo(() => filterActive ? {
+    upload: filteredData.reduce((sum, site) => sum + site.todayTokens.upload, 0),
+    download: filteredData.reduce((sum, site) => sum + site.todayTokens.download, 0)
+  } : {
     upload: stats.today_total_prompt_tokens,
     download: stats.today_total_completion_tokens
-  }), [stats.today_total_prompt_tokens, stats.today_total_completion_tokens])
+  }, [filterActive, filteredData, stats.today_total_prompt_tokens, stats.today_total_completion_tokens])
+
+  // 消耗明细与顶部合计、账号列表使用同一份筛选结果
+  const breakdownAccounts = useMemo(() => {
+    if (!filterActive) return accounts
+    const filteredIds = new Set(filteredData.map(site => site.id))
+    return accounts.filter(account => filteredIds.has(account.id))
+  }, [filterActive, filteredData, accounts])
+
+  const tokensCombined = useMemo(() =>
+    (filterActive ? filteredData : displayData).some(site => site.todayTokensCombined),
+    [filterActive, filteredData, displayData]
+  )
 
   // 事件处理 - 使用 useCallback 优化
   const handleCurrencyToggle = useCallback(async () => {
@@ -94,6 +129,18 @@ function IndexPopup() {
     chrome.tabs.create({ url: chrome.runtime.getURL('options.html#basic') })
   }, [])
 
+  const handleOpenBreakdown = useCallback(() => {
+    setIsBreakdownOpen(true)
+  }, [])
+
+  const handleCloseBreakdown = useCallback(() => {
+    setIsBreakdownOpen(false)
+  }, [])
+
+  const handleOpenBreakdownDetails = useCallback(() => {
+    chrome.tabs.create({ url: chrome.runtime.getURL('options.html#history') })
+  }, [])
+
   const handleAddAccount = useCallback(() => {
     setIsAddAccountOpen(true)
   }, [])
@@ -120,7 +167,45 @@ function IndexPopup() {
     loadAccountData() // 重新加载数据
   }, [loadAccountData])
 
+  const handleRedeemed = useCallback((account: DisplaySiteData) => {
+    console.log('兑换码充值完成:', account.name)
+    loadAccountData() // 账号已刷新，重新加载数据
+  }, [loadAccountData])
+
+  const handleTogglePin = useCallback(async (account: DisplaySiteData) => {
+    const pinned = !account.pinned
+    const success = await accountStorage.setAccountPinned(account.id, pinned)
+    if (success) {
+      toast.success(pinned ? `已置顶 ${account.name}` : `已取消置顶 ${account.name}`)
+      loadAccountData()
+    } else {
+      toast.error('操作失败，请稍后重试')
+    }
+  }, [loadAccountData])
+
+  const handleReorder = useCallback(async (orderedIds: string[]) => {
+    const success = await accountStorage.reorderAccounts(orderedIds)
+    if (success) {
+      loadAccountData()
+    } else {
+      toast.error('调整顺序失败，请稍后重试')
+    }
+  }, [loadAccountData])
+
+  // 保险库锁定时访问令牌仍是密文，提示先解锁
+  const ensureVaultUnlocked = useCallback(async () => {
+    if (await vaultService.isLocked()) {
+      setIsVaultLocked(true)
+      setIsUnlockOpen(true)
+      toast.error('保险库已锁定，请先解锁')
+      return false
+    }
+    return true
+  }, [])
+
   const handleGlobalRefresh = useCallback(async () => {
+    if (!(await ensureVaultUnlocked())) return
+
     try {
       await toast.promise(
         handleRefresh(),
@@ -138,10 +223,11 @@ function IndexPopup() {
     } catch (error) {
       console.error('刷新时出错:', error)
     }
-  }, [handleRefresh])
+  }, [handleRefresh, ensureVaultUnlocked])
 
   const handleRefreshAccount = useCallback(async (account: DisplaySiteData) => {
     if (refreshingAccountId) return // 防止重复刷新
+    if (!(await ensureVaultUnlocked())) return
     
     setRefreshingAccountId(account.id)
     
@@ -174,7 +260,7 @@ function IndexPopup() {
     } finally {
       setRefreshingAccountId(null)
     }
-  }, [refreshingAccountId, loadAccountData])
+  }, [refreshingAccountId, loadAccountData, ensureVaultUnlocked])
 
   const handleCopyUrl = useCallback((account: DisplaySiteData) => {
     toast.success(`已复制 ${account.name} 的URL到剪贴板`)
@@ -199,8 +285,8 @@ function IndexPopup() {
   }, [])
 
   const handleViewUsage = useCallback((account: DisplaySiteData) => {
-    const logUrl = `${account.baseUrl}/log`
-    chrome.tabs.create({ url: logUrl })
+    const logsUrl = chrome.runtime.getURL(`options.html#logs?accountId=${account.id}`)
+    chrome.tabs.create({ url: logsUrl })
   }, [])
 
   // 处理打开插件时自动刷新
@@ -229,6 +315,35 @@ function IndexPopup() {
     handleRefreshOnOpen();
   }, [preferencesLoading, preferences?.refreshOnOpen]); // 只依赖必要的属性
 
+  // 保险库已启用但本次浏览器会话尚未解锁时提示输入口令
+  useEffect(() => {
+    vaultService.getStatus().then(status => {
+      const locked = status.enabled && !status.unlocked
+      setIsVaultLocked(locked)
+      setIsUnlockOpen(locked)
+    })
+  }, [])
+
+  const handleVaultUnlocked = useCallback(() => {
+    setIsVaultLocked(false)
+    loadAccountData() // 重新加载以获取解密后的访问令牌
+  }, [loadAccountData])
+
+  // 获取后台自动刷新状态（下次刷新时间）
+  const loadAutoRefreshStatus = useCallback(async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'getAutoRefreshStatus' })
+      const status: AutoRefreshStatus | undefined = response?.success ? response.data : undefined
+      setNextRefreshTime(status?.nextRunAt ? new Date(status.nextRunAt) : null)
+    } catch (error) {
+      console.warn('[Popup] 获取自动刷新状态失败:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadAutoRefreshStatus()
+  }, [loadAutoRefreshStatus, preferences?.autoRefresh, preferences?.refreshInterval])
+
   // 监听后台自动刷新的更新通知
   useEffect(() => {
     const handleBackgroundRefreshUpdate = (message: any) => {
@@ -237,9 +352,18 @@ function IndexPopup() {
         
         if (type === 'refresh_completed') {
           console.log('[Popup] 后台刷新完成，重新加载数据');
+          setBackgroundProgress(null);
           loadAccountData(); // 重新加载数据以更新UI
+          loadAutoRefreshStatus();
         } else if (type === 'refresh_error') {
           console.error('[Popup] 后台刷新失败:', data.error);
+          setBackgroundProgress(null);
+        } else if (type === 'refresh_progress') {
+          const progress = data as RefreshProgress;
+          setBackgroundProgress(progress.completed < progress.total ? progress : null);
+        } else if (type === 'schedule_updated') {
+          const status = data as AutoRefreshStatus;
+          setNextRefreshTime(status.nextRunAt ? new Date(status.nextRunAt) : null);
         }
       }
     };
@@ -249,13 +373,14 @@ function IndexPopup() {
     return () => {
       chrome.runtime.onMessage.removeListener(handleBackgroundRefreshUpdate);
     };
-  }, [loadAccountData]);
+  }, [loadAccountData, loadAutoRefreshStatus]);
 
   return (
     <div className={`${UI_CONSTANTS.POPUP.WIDTH} bg-white flex flex-col ${UI_CONSTANTS.POPUP.HEIGHT}`}>
       {/* 顶部导航栏 */}
       <HeaderSection
         isRefreshing={isRefreshing}
+        refreshProgress={refreshProgress || backgroundProgress}
         onRefresh={handleGlobalRefresh}
         onOpenTab={handleOpenTab}
         onOpenSettings={handleOpenSettings}
@@ -263,19 +388,38 @@ function IndexPopup() {
 
       {/* 滚动内容区域 */}
       <div className="flex-1 overflow-y-auto">
+        {/* 保险库锁定提示 */}
+        {isVaultLocked && (
+          <div className="mx-5 mt-3 px-3 py-2 flex items-center justify-between bg-gray-50 border border-gray-200 rounded-lg text-xs text-gray-600">
+            <span className="flex items-center">
+              <LockClosedIcon className="w-4 h-4 mr-1.5 text-gray-500" />
+              保险库已锁定，账号暂时无法刷新
+            </span>
+            <button
+              onClick={() => setIsUnlockOpen(true)}
+              className="text-blue-500 hover:text-blue-600 font-medium"
+            >
+              解锁
+            </button>
+          </div>
+        )}
+
         {/* 基本信息展示 */}
         {!preferencesLoading && (
           <BalanceSection
             totalConsumption={totalConsumption}
             totalBalance={totalBalance}
             todayTokens={todayTokens}
+            tokensCombined={tokensCombined}
             currencyType={currencyType}
             activeTab={activeTab}
             isInitialLoad={isInitialLoad}
             lastUpdateTime={lastUpdateTime}
+            nextRefreshTime={nextRefreshTime}
             prevTotalConsumption={prevTotalConsumption}
             onCurrencyToggle={handleCurrencyToggle}
             onTabChange={handleTabChange}
+            onViewBreakdown={handleOpenBreakdown}
           />
         )}
 
@@ -292,10 +436,12 @@ function IndexPopup() {
           currencyType={currencyType}
           sortField={currentSortField}
           sortOrder={currentSortOrder}
+          filter={accountFilter}
           isInitialLoad={isInitialLoad}
           prevBalances={prevBalances}
           refreshingAccountId={refreshingAccountId}
           onSort={handleSort}
+          onFilterChange={updateAccountFilter}
           onAddAccount={handleAddAccount}
           onRefreshAccount={handleRefreshAccount}
           onCopyUrl={handleCopyUrl}
@@ -304,6 +450,9 @@ function IndexPopup() {
           onViewUsage={handleViewUsage}
           onEditAccount={handleEditAccount}
           onDeleteAccount={handleDeleteAccount}
+          onRedeemed={handleRedeemed}
+          onTogglePin={handleTogglePin}
+          onReorder={handleReorder}
         />
       </div>
 
@@ -320,6 +469,22 @@ function IndexPopup() {
         account={editingAccount}
       />
       
+      {/* 今日消耗明细弹窗 */}
+      <ConsumptionBreakdownDialog
+        isOpen={isBreakdownOpen}
+        onClose={handleCloseBreakdown}
+        accounts={breakdownAccounts}
+        currencyType={currencyType}
+        onOpenDetails={handleOpenBreakdownDetails}
+      />
+      
+      {/* 保险库解锁弹窗 */}
+      <VaultUnlockDialog
+        isOpen={isUnlockOpen}
+        onClose={() => setIsUnlockOpen(false)}
+        onUnlocked={handleVaultUnlocked}
+      />
+      
       {/* Toast通知组件 */}
       <Toaster
         position="bottom-center"
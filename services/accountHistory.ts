@@ -0,0 +1,254 @@
+import { Storage } from "@plasmohq/storage";
+import type {
+  SiteAccount,
+  AccountInfo,
+  AccountHistoryPoint,
+  AccountHistoryStore,
+  CheckInRecord
+} from "../types";
+
+// 存储键名常量
+const STORAGE_KEYS = {
+  HISTORY: 'account_history'
+} as const;
+
+// 历史数据保留配置
+export const HISTORY_CONFIG = {
+  MAX_DAYS: 90 // 每个账号最多保留的天数
+} as const;
+
+// 默认配置
+const DEFAULT_STORE: AccountHistoryStore = {
+  histories: {},
+  last_updated: Date.now()
+};
+
+/**
+ * 获取本地时区的日期键 (YYYY-MM-DD)
+ */
+export const getDateKey = (timestamp: number = Date.now()): string => {
+  const date = new Date(timestamp);
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+class AccountHistoryService {
+  private storage: Storage;
+  private writeQueue: Promise<void> = Promise.resolve(); // 串行化写入，避免并发刷新时互相覆盖
+
+  constructor() {
+    this.storage = new Storage({
+      area: "local"
+    });
+  }
+
+  /**
+   * 获取单个账号的历史数据（按日期升序）
+   */
+  async getAccountHistory(accountId: string, days?: number): Promise<AccountHistoryPoint[]> {
+    try {
+      const store = await this.getStore();
+      const points = store.histories[accountId] || [];
+      if (!days) {
+        return points;
+      }
+      const cutoff = getDateKey(Date.now() - (days - 1) * 24 * 60 * 60 * 1000);
+      return points.filter(point => point.date >= cutoff);
+    } catch (error) {
+      console.error('获取账号历史数据失败:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 获取所有账号的历史数据
+   */
+  async getAllHistories(): Promise<Record<string, AccountHistoryPoint[]>> {
+    try {
+      const store = await this.getStore();
+      return store.histories;
+    } catch (error) {
+      console.error('获取历史数据失败:', error);
+      return {};
+    }
+  }
+
+  /**
+   * 记录一次刷新结果，按天汇总到当日数据点
+   */
+  async recordSnapshot(accountId: string, accountInfo: AccountInfo, timestamp: number = Date.now()): Promise<void> {
+    return this.enqueueWrite(async () => {
+      const store = await this.getStore();
+      const points = [...(store.histories[accountId] || [])];
+      const date = getDateKey(timestamp);
+      const lastPoint = points[points.length - 1];
+
+      if (lastPoint && lastPoint.date === date) {
+        points[points.length - 1] = {
+          ...lastPoint,
+          quota: accountInfo.quota,
+          min_quota: Math.min(lastPoint.min_quota, accountInfo.quota),
+          today_quota_consumption: accountInfo.today_quota_consumption,
+          today_prompt_tokens: accountInfo.today_prompt_tokens,
+          today_completion_tokens: accountInfo.today_completion_tokens,
+          today_requests_count: accountInfo.today_requests_count,
+          today_tokens_combined: accountInfo.today_tokens_combined,
+          samples: lastPoint.samples + 1,
+          last_recorded_at: timestamp
+        };
+      } else {
+        points.push({
+          date,
+          quota: accountInfo.quota,
+          open_quota: accountInfo.quota,
+          min_quota: accountInfo.quota,
+          today_quota_consumption: accountInfo.today_quota_consumption,
+          today_prompt_tokens: accountInfo.today_prompt_tokens,
+          today_completion_tokens: accountInfo.today_completion_tokens,
+          today_requests_count: accountInfo.today_requests_count,
+          today_tokens_combined: accountInfo.today_tokens_combined,
+          samples: 1,
+          first_recorded_at: timestamp,
+          last_recorded_at: timestamp
+        });
+      }
+
+      store.histories[accountId] = this.applyRetention(points);
+      await this.saveStore(store);
+    }, '记录历史数据失败');
+  }
+
+  /**
+   * 记录签到结果到当日数据点，当日尚无数据时以当前账号信息创建
+   */
+  async recordCheckIn(accountId: string, accountInfo: AccountInfo, record: CheckInRecord): Promise<void> {
+    return this.enqueueWrite(async () => {
+      const store = await this.getStore();
+      const points = [...(store.histories[accountId] || [])];
+      const date = getDateKey(record.checked_at);
+      const lastPoint = points[points.length - 1];
+
+      if (lastPoint && lastPoint.date === date) {
+        // 当日已记录签到成功时，保留带奖励额度的记录
+        if (lastPoint.check_in?.status === 'success' && record.status !== 'success') {
+          return;
+        }
+        points[points.length - 1] = { ...lastPoint, check_in: record };
+      } else {
+        points.push({
+          date,
+          quota: accountInfo.quota,
+          open_quota: accountInfo.quota,
+          min_quota: accountInfo.quota,
+          today_quota_consumption: accountInfo.today_quota_consumption,
+          today_prompt_tokens: accountInfo.today_prompt_tokens,
+          today_completion_tokens: accountInfo.today_completion_tokens,
+          today_requests_count: accountInfo.today_requests_count,
+          today_tokens_combined: accountInfo.today_tokens_combined,
+          samples: 1,
+          first_recorded_at: record.checked_at,
+          last_recorded_at: record.checked_at,
+          check_in: record
+        });
+      }
+
+      store.histories[accountId] = this.applyRetention(points);
+      await this.saveStore(store);
+    }, '记录签到结果失败');
+  }
+
+  /**
+   * 删除单个账号的历史数据
+   */
+  async removeAccountHistory(accountId: string): Promise<void> {
+    return this.enqueueWrite(async () => {
+      const store = await this.getStore();
+      if (!store.histories[accountId]) {
+        return;
+      }
+      delete store.histories[accountId];
+      await this.saveStore(store);
+    }, '删除历史数据失败');
+  }
+
+  /**
+   * 清理已不存在账号的历史数据，并对剩余数据应用保留策略
+   */
+  async prune(accounts: SiteAccount[]): Promise<void> {
+    return this.enqueueWrite(async () => {
+      const store = await this.getStore();
+      const validIds = new Set(accounts.map(account => account.id));
+      const histories: Record<string, AccountHistoryPoint[]> = {};
+
+      Object.entries(store.histories).forEach(([accountId, points]) => {
+        if (validIds.has(accountId)) {
+          histories[accountId] = this.applyRetention(points);
+        }
+      });
+
+      await this.saveStore({ ...store, histories });
+    }, '清理历史数据失败');
+  }
+
+  /**
+   * 清空所有历史数据
+   */
+  async clearAll(): Promise<boolean> {
+    try {
+      await this.storage.remove(STORAGE_KEYS.HISTORY);
+      return true;
+    } catch (error) {
+      console.error('清空历史数据失败:', error);
+      return false;
+    }
+  }
+
+  // 私有方法
+
+  /**
+   * 将写操作加入队列依次执行
+   */
+  private enqueueWrite(task: () => Promise<void>, errorMessage: string): Promise<void> {
+    const run = this.writeQueue.then(task).catch(error => {
+      console.error(`[AccountHistory] ${errorMessage}:`, error);
+    });
+    this.writeQueue = run;
+    return run;
+  }
+
+  /**
+   * 按保留天数截断数据点
+   */
+  private applyRetention(points: AccountHistoryPoint[]): AccountHistoryPoint[] {
+    const cutoff = getDateKey(Date.now() - (HISTORY_CONFIG.MAX_DAYS - 1) * 24 * 60 * 60 * 1000);
+    return points.filter(point => point.date >= cutoff);
+  }
+
+  /**
+   * 获取历史数据存储
+   */
+  private async getStore(): Promise<AccountHistoryStore> {
+    try {
+      const store = await this.storage.get(STORAGE_KEYS.HISTORY) as AccountHistoryStore;
+      return store ? { ...store, histories: { ...store.histories } } : { ...DEFAULT_STORE, histories: {} };
+    } catch (error) {
+      console.error('获取历史数据存储失败:', error);
+      return { ...DEFAULT_STORE, histories: {} };
+    }
+  }
+
+  /**
+   * 保存历史数据存储
+   */
+  private async saveStore(store: AccountHistoryStore): Promise<void> {
+    await this.storage.set(STORAGE_KEYS.HISTORY, {
+      ...store,
+      last_updated: Date.now()
+    });
+  }
+}
+
+// 创建单例实例
+export const accountHistory = new AccountHistoryService();
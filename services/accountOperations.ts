@@ -10,6 +10,7 @@
  * - autoDetectAccount: 自动识别站点账号信息（用户名、令牌、用户ID等）
  * - validateAndSaveAccount: 验证并保存新账号到本地存储
  * - validateAndUpdateAccount: 验证并更新现有账号信息
+ * - redeemCodesForAccount: 使用兑换码为账号充值（支持批量）
  * - extractDomainPrefix: 从域名提取站点名称
  * - isValidExchangeRate: 验证汇率输入的有效性
  * 
@@ -22,13 +23,19 @@
  * 依赖：
  * - accountStorage: 账号本地存储服务
  * - apiService: API 调用服务（获取令牌、余额等）
+ * - siteAdapters: 站点类型与站点指纹识别
  * - autoDetectUtils: 错误处理工具
+ * - accountGrouping: 同站点多账号与重复账号判断
  */
 
 import { accountStorage } from "./accountStorage"
-import { fetchAccountData, getOrCreateAccessToken, fetchSiteStatus, extractDefaultExchangeRate } from "./apiService"
+import { pricingCache } from "./pricingCache"
+import { fetchAccountData, getOrCreateAccessToken, fetchSiteStatus, extractDefaultExchangeRate, redeemCode } from "./apiService"
+import { detectSiteType, extractSiteFingerprint, DEFAULT_SITE_TYPE } from "./siteAdapters"
 import { analyzeAutoDetectError, type AutoDetectError } from "../utils/autoDetectUtils"
-import type { SiteAccount } from "../types"
+import { checkDuplicateAccount } from "../utils/accountGrouping"
+import { MIN_REFRESH_INTERVAL } from "../utils/refreshPolicy"
+import type { SiteAccount, SiteFingerprint, SiteType } from "../types"
 
 // 账号验证结果
 export interface AccountValidationResult {
@@ -38,11 +45,16 @@ export interface AccountValidationResult {
     accessToken: string
     userId: string
     exchangeRate?: number
+    siteType: SiteType
+    fingerprint?: SiteFingerprint // 站点部署信息，站点状态不可用时为空
   }
   error?: string
   detailedError?: AutoDetectError
 }
 
+// 账号附加设置（不参与站点验证的可选配置）
+export type AccountExtraSettings = Partial<Pick<SiteAccount, 'low_balance_threshold' | 'daily_budget' | 'refresh_policy' | 'auto_check_in' | 'tags' | 'notes'>>
+
 // 账号保存结果
 export interface AccountSaveResult {
   success: boolean
@@ -50,6 +62,14 @@ export interface AccountSaveResult {
   error?: string
 }
 
+// 单个兑换码的兑换结果
+export interface RedeemCodeResult {
+  code: string
+  success: boolean
+  quota: number // 增加的额度 quota，失败时为 0
+  error?: string
+}
+
 // 自动检测账号信息
 export async function autoDetectAccount(url: string): Promise<AccountValidationResult> {
   if (!url.trim()) {
@@ -86,11 +106,12 @@ export async function autoDetectAccount(url: string): Promise<AccountValidationR
       }
     }
 
-    // 并行执行：获取用户信息和站点状态
-    const [tokenInfo, siteStatus] = await Promise.all([
-      getOrCreateAccessToken(url, userId),
-      fetchSiteStatus(url.trim())
-    ])
+    // 先获取站点状态识别站点类型，不同类型的站点认证请求头不同
+    const siteStatus = await fetchSiteStatus(url.trim())
+    const siteType = detectSiteType(siteStatus)
+    console.log('识别到站点类型:', siteType)
+
+    const tokenInfo = await getOrCreateAccessToken(url, userId, siteType)
     
     const { username: detectedUsername, access_token } = tokenInfo
     
@@ -112,7 +133,9 @@ export async function autoDetectAccount(url: string): Promise<AccountValidationR
         username: detectedUsername,
         accessToken: access_token,
         userId: userId.toString(),
-        exchangeRate: defaultExchangeRate
+        exchangeRate: defaultExchangeRate,
+        siteType,
+        fingerprint: extractSiteFingerprint(url.trim(), siteStatus) ?? undefined
       }
     }
   } catch (error) {
@@ -134,7 +157,8 @@ export async function validateAndSaveAccount(
   username: string,
   accessToken: string,
   userId: string,
-  exchangeRate: string
+  exchangeRate: string,
+  siteType: SiteType = DEFAULT_SITE_TYPE
 ): Promise<AccountSaveResult> {
   // 表单验证
   if (!siteName.trim() || !username.trim() || !accessToken.trim() || !userId.trim()) {
@@ -146,15 +170,27 @@ export async function validateAndSaveAccount(
     return { success: false, error: '用户 ID 必须是数字' }
   }
 
+  // 同一站点允许添加多个用户，但不允许重复添加同一用户
+  const duplicate = checkDuplicateAccount(await accountStorage.getAllAccounts(), url, parsedUserId)
+  if (duplicate.kind === 'duplicate') {
+    return { success: false, error: `该账号已存在（${duplicate.account?.site_name}）` }
+  }
+
   try {
-    // 获取账号余额和今日使用情况
+    // 获取账号余额和今日使用情况，同时更新站点指纹
     console.log('正在获取账号数据...')
-    const freshAccountData = await fetchAccountData(url.trim(), parsedUserId, accessToken.trim())
+    const [freshAccountData, siteStatus] = await Promise.all([
+      fetchAccountData(url.trim(), parsedUserId, accessToken.trim(), undefined, undefined, siteType),
+      fetchSiteStatus(url.trim())
+    ])
+    const fingerprint = extractSiteFingerprint(url.trim(), siteStatus)
 
     const accountData: Omit<SiteAccount, 'id' | 'created_at' | 'updated_at'> = {
       emoji: "", // 不再使用 emoji
       site_name: siteName.trim(),
       site_url: url.trim(),
+      site_type: siteType,
+      site_fingerprint: fingerprint ?? undefined,
       health_status: 'healthy', // 成功获取数据说明状态正常
       exchange_rate: parseFloat(exchangeRate) || 7.2, // 使用用户输入的汇率
       account_info: {
@@ -165,8 +201,12 @@ export async function validateAndSaveAccount(
         today_prompt_tokens: freshAccountData.today_prompt_tokens,
         today_completion_tokens: freshAccountData.today_completion_tokens,
         today_quota_consumption: freshAccountData.today_quota_consumption,
-        today_requests_count: freshAccountData.today_requests_count
+        today_requests_count: freshAccountData.today_requests_count,
+        today_usage_truncated: freshAccountData.today_usage_truncated,
+        today_tokens_combined: freshAccountData.today_tokens_combined,
+        today_usage_breakdown: freshAccountData.today_usage_breakdown
       },
+      usage_cursor: freshAccountData.usage_cursor,
       last_sync_time: Date.now()
     }
     
@@ -193,7 +233,9 @@ export async function validateAndUpdateAccount(
   username: string,
   accessToken: string,
   userId: string,
-  exchangeRate: string
+  exchangeRate: string,
+  siteType: SiteType = DEFAULT_SITE_TYPE,
+  extraSettings: AccountExtraSettings = {}
 ): Promise<AccountSaveResult> {
   // 表单验证
   if (!siteName.trim() || !username.trim() || !accessToken.trim() || !userId.trim()) {
@@ -205,14 +247,27 @@ export async function validateAndUpdateAccount(
     return { success: false, error: '用户 ID 必须是数字' }
   }
 
+  const accounts = await accountStorage.getAllAccounts()
+  const duplicate = checkDuplicateAccount(accounts, url, parsedUserId, accountId)
+  if (duplicate.kind === 'duplicate') {
+    return { success: false, error: `该站点的此用户已存在（${duplicate.account?.site_name}）` }
+  }
+  const previousAccount = accounts.find(account => account.id === accountId)
+
   try {
-    // 获取账号余额和今日使用情况
+    // 获取账号余额和今日使用情况，同时更新站点指纹
     console.log('正在获取账号数据...')
-    const freshAccountData = await fetchAccountData(url.trim(), parsedUserId, accessToken.trim())
+    const [freshAccountData, siteStatus] = await Promise.all([
+      fetchAccountData(url.trim(), parsedUserId, accessToken.trim(), undefined, undefined, siteType),
+      fetchSiteStatus(url.trim())
+    ])
+    const fingerprint = extractSiteFingerprint(url.trim(), siteStatus)
 
     const updateData: Partial<Omit<SiteAccount, 'id' | 'created_at'>> = {
       site_name: siteName.trim(),
       site_url: url.trim(),
+      site_type: siteType,
+      ...(fingerprint ? { site_fingerprint: fingerprint } : {}), // 站点状态获取失败时保留原有指纹
       health_status: 'healthy', // 成功获取数据说明状态正常
       exchange_rate: parseFloat(exchangeRate) || 7.2, // 使用用户输入的汇率
       account_info: {
@@ -223,8 +278,18 @@ export async function validateAndUpdateAccount(
         today_prompt_tokens: freshAccountData.today_prompt_tokens,
         today_completion_tokens: freshAccountData.today_completion_tokens,
         today_quota_consumption: freshAccountData.today_quota_consumption,
-        today_requests_count: freshAccountData.today_requests_count
+        today_requests_count: freshAccountData.today_requests_count,
+        today_usage_truncated: freshAccountData.today_usage_truncated,
+        today_tokens_combined: freshAccountData.today_tokens_combined,
+        today_usage_breakdown: freshAccountData.today_usage_breakdown
       },
+      usage_cursor: freshAccountData.usage_cursor,
+      low_balance_threshold: extraSettings.low_balance_threshold,
+      daily_budget: extraSettings.daily_budget,
+      refresh_policy: extraSettings.refresh_policy,
+      auto_check_in: extraSettings.auto_check_in,
+      tags: extraSettings.tags,
+      notes: extraSettings.notes,
       last_sync_time: Date.now()
     }
     
@@ -232,6 +297,16 @@ export async function validateAndUpdateAccount(
     if (!success) {
       return { success: false, error: '更新账号失败' }
     }
+
+    // 站点地址、用户或令牌可能已变化，旧的定价缓存不再可信
+    if (previousAccount) {
+      await pricingCache.invalidate(previousAccount.site_url, previousAccount.account_info.id)
+    }
+
+    // 刷新策略可能变化，通知后台重新计算定时任务
+    chrome.runtime.sendMessage({ action: 'setupAutoRefresh' }).catch(error => {
+      console.warn('通知后台更新定时任务失败:', error)
+    })
     
     console.log('账号更新成功:', { 
       id: accountId, 
@@ -247,6 +322,50 @@ export async function validateAndUpdateAccount(
   }
 }
 
+// 解析输入的兑换码，支持换行、空格和逗号分隔，并去除重复项
+export function parseRedeemCodes(input: string): string[] {
+  const codes = input.split(/[\s,，]+/).map(code => code.trim()).filter(Boolean)
+  return Array.from(new Set(codes))
+}
+
+// 依次使用兑换码为账号充值，完成后立即刷新账号余额
+export async function redeemCodesForAccount(
+  accountId: string,
+  codes: string[],
+  onResult?: (result: RedeemCodeResult, index: number) => void
+): Promise<RedeemCodeResult[]> {
+  const account = await accountStorage.getAccountById(accountId)
+  if (!account) {
+    throw new Error(`账号 ${accountId} 不存在`)
+  }
+
+  const results: RedeemCodeResult[] = []
+  // 逐个兑换，避免站点对并发请求限流
+  for (const [index, code] of codes.entries()) {
+    let result: RedeemCodeResult
+    try {
+      const quota = await redeemCode(
+        account.site_url,
+        account.account_info.id,
+        account.account_info.access_token,
+        code,
+        account.site_type
+      )
+      result = { code, success: true, quota }
+    } catch (error) {
+      result = { code, success: false, quota: 0, error: error instanceof Error ? error.message : '未知错误' }
+    }
+    results.push(result)
+    onResult?.(result, index)
+  }
+
+  if (results.some(result => result.success)) {
+    await accountStorage.refreshAccount(accountId)
+  }
+
+  return results
+}
+
 // 提取域名的主要部分（一级域名前缀）
 export function extractDomainPrefix(hostname: string): string {
   if (!hostname) return ""
@@ -275,6 +394,26 @@ export function extractDomainPrefix(hostname: string): string {
   return withoutWww.charAt(0).toUpperCase() + withoutWww.slice(1)
 }
 
+// 验证低余额提醒阈值是否有效（留空表示使用全局默认值）
+export function isValidLowBalanceThreshold(threshold: string): boolean {
+  if (!threshold.trim()) return true
+  const num = parseFloat(threshold)
+  return !isNaN(num) && num >= 0
+}
+
+// 验证每日预算金额是否有效（留空表示不设置预算）
+export function isValidDailyBudget(amount: string): boolean {
+  if (!amount.trim()) return true
+  const num = parseFloat(amount)
+  return !isNaN(num) && num > 0
+}
+
+// 验证自定义刷新间隔是否有效（秒）
+export function isValidRefreshInterval(interval: string): boolean {
+  const num = Number(interval)
+  return interval.trim() !== '' && !isNaN(num) && num >= MIN_REFRESH_INTERVAL
+}
+
 // 验证充值比例是否有效
 export function isValidExchangeRate(rate: string): boolean {
   const num = parseFloat(rate)
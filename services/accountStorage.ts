@@ -1,8 +1,21 @@
 import { Storage } from "@plasmohq/storage";
-import { refreshAccountData } from './apiService';
 import { webdavService } from './webdavService';
+import { userPreferences } from './userPreferences';
+import {
+  fetchAccountDataWithRetry,
+  runRefreshQueue,
+  type RefreshRequestOptions,
+  type RefreshQueueOptions
+} from './refreshQueue';
+import { accountHistory } from './accountHistory';
+import { vaultService } from './vaultService';
+import { calculateBudgetUsage } from '../utils/budgetUtils';
+import { getRefreshMode, isIncludedInBulkRefresh } from '../utils/refreshPolicy';
+import { dedupeAccounts } from '../utils/accountGrouping';
+import { normalizeTags } from '../utils/accountFilter';
 import type { 
   SiteAccount, 
+  AccountInfo,
   StorageConfig, 
   AccountStats, 
   DisplaySiteData,
@@ -24,6 +37,7 @@ const DEFAULT_CONFIG: StorageConfig = {
 
 class AccountStorageService {
   private storage: Storage;
+  private writeQueue: Promise<unknown> = Promise.resolve(); // 串行化账号列表的读改写，避免并发刷新时互相覆盖
 
   constructor() {
     this.storage = new Storage({
@@ -63,9 +77,6 @@ class AccountStorageService {
   async addAccount(accountData: Omit<SiteAccount, 'id' | 'created_at' | 'updated_at'>): Promise<string> {
     try {
       console.log('[AccountStorage] 开始添加新账号:', accountData.site_name);
-      const accounts = await this.getAllAccounts();
-      console.log('[AccountStorage] 当前账号数量:', accounts.length);
-      
       const now = Date.now();
       const newAccount: SiteAccount = {
         ...accountData,
@@ -74,10 +85,13 @@ class AccountStorageService {
         updated_at: now
       };
 
-      accounts.push(newAccount);
-      console.log('[AccountStorage] 准备保存账号，总数量:', accounts.length);
-      await this.saveAccounts(accounts, `添加账号: ${accountData.site_name}`);
+      await this.enqueueWrite(async () => {
+        const [encryptedAccount] = await this.encryptAccounts([newAccount]);
+        await this.writeStoredAccounts(accounts => [...accounts, encryptedAccount]);
+      });
       console.log('[AccountStorage] 账号保存成功，ID:', newAccount.id);
+      await this.syncChange(`添加账号: ${accountData.site_name}`);
+      await accountHistory.recordSnapshot(newAccount.id, newAccount.account_info, newAccount.last_sync_time);
       
       return newAccount.id;
     } catch (error) {
@@ -95,19 +109,12 @@ class AccountStorageService {
     triggerSync: boolean = true
   ): Promise<boolean> {
     try {
-      const accounts = await this.getAllAccounts();
-      const index = accounts.findIndex(account => account.id === id);
-      
-      if (index === -1) {
-        throw new Error(`账号 ${id} 不存在`);
-      }
-
-      const oldAccount = accounts[index];
-      accounts[index] = {
-        ...accounts[index],
-        ...updates,
-        updated_at: Date.now()
-      };
+      const oldAccount = await this.enqueueWrite(async () => {
+        const storedUpdates = updates.account_info
+          ? { ...updates, account_info: await this.encryptAccountInfo(updates.account_info) }
+          : updates;
+        return this.patchStoredAccount(id, () => storedUpdates);
+      });
 
       // 生成详细的更新描述
       let updateDescription = `更新账号: ${oldAccount.site_name}`;
@@ -117,10 +124,14 @@ class AccountStorageService {
         updateDescription += ` -> ${updates.site_name}`;
       } else if (updates.health_status) {
         updateDescription += ` (状态: ${updates.health_status})`;
+      } else if (updates.pinned !== undefined) {
+        updateDescription += updates.pinned ? ' (置顶)' : ' (取消置顶)';
       }
 
       // 根据 triggerSync 参数决定是否触发WebDAV同步
-      await this.saveAccounts(accounts, triggerSync ? updateDescription : undefined);
+      if (triggerSync) {
+        await this.syncChange(updateDescription);
+      }
       return true;
     } catch (error) {
       console.error('更新账号失败:', error);
@@ -133,17 +144,22 @@ class AccountStorageService {
    */
   async deleteAccount(id: string): Promise<boolean> {
     try {
-      const accounts = await this.getAllAccounts();
-      const accountToDelete = accounts.find(account => account.id === id);
-      const filteredAccounts = accounts.filter(account => account.id !== id);
-      
-      if (filteredAccounts.length === accounts.length) {
-        console.error(`账号 ${id} 不存在，当前账号列表:`, accounts.map(acc => ({ id: acc.id, name: acc.site_name })));
-        throw new Error(`账号 ${id} 不存在`);
-      }
-
-      const accountName = accountToDelete ? accountToDelete.site_name : id;
-      await this.saveAccounts(filteredAccounts, `删除账号: ${accountName}`);
+      const accountName = await this.enqueueWrite(async () => {
+        let deletedName = id;
+        await this.writeStoredAccounts(accounts => {
+          const accountToDelete = accounts.find(account => account.id === id);
+          if (!accountToDelete) {
+            console.error(`账号 ${id} 不存在，当前账号列表:`, accounts.map(acc => ({ id: acc.id, name: acc.site_name })));
+            throw new Error(`账号 ${id} 不存在`);
+          }
+
+          deletedName = accountToDelete.site_name;
+          return accounts.filter(account => account.id !== id);
+        });
+        return deletedName;
+      });
+      await this.syncChange(`删除账号: ${accountName}`);
+      await accountHistory.removeAccountHistory(id);
       return true;
     } catch (error) {
       console.error('删除账号失败:', error);
@@ -151,6 +167,35 @@ class AccountStorageService {
     }
   }
 
+  /**
+   * 置顶或取消置顶账号
+   */
+  async setAccountPinned(id: string, pinned: boolean): Promise<boolean> {
+    return this.updateAccount(id, { pinned });
+  }
+
+  /**
+   * 按给定的 ID 顺序调整账号存储顺序（手动排序）
+   * orderedIds 中的账号按新顺序依次填入它们原来占据的位置，其余账号的位置不变
+   */
+  async reorderAccounts(orderedIds: string[]): Promise<boolean> {
+    try {
+      await this.enqueueWrite(() => this.writeStoredAccounts(accounts => {
+        const accountMap = new Map(accounts.map(account => [account.id, account]));
+        const queue = orderedIds.filter(id => accountMap.has(id));
+        const movedIds = new Set(queue);
+        return accounts.map(account => (
+          movedIds.has(account.id) ? accountMap.get(queue.shift()!)! : account
+        ));
+      }));
+      await this.syncChange('调整账号顺序');
+      return true;
+    } catch (error) {
+      console.error('调整账号顺序失败:', error);
+      return false;
+    }
+  }
+
   /**
    * 更新账号同步时间
    */
@@ -163,41 +208,57 @@ class AccountStorageService {
 
   /**
    * 刷新单个账号数据
+   * 未指定选项时使用用户设置中的超时时间
    */
-  async refreshAccount(id: string): Promise<boolean> {
+  async refreshAccount(id: string, options?: RefreshRequestOptions): Promise<boolean> {
+    // 保险库未解锁时访问令牌仍是密文，无法请求站点
+    if (await vaultService.isLocked()) {
+      console.warn('[AccountStorage] 保险库已锁定，跳过刷新账号:', id);
+      return false;
+    }
+
     try {
       const account = await this.getAccountById(id);
       if (!account) {
         throw new Error(`账号 ${id} 不存在`);
       }
 
-      // 使用同步导入的API服务
-      const result = await refreshAccountData(
-        account.site_url,
-        account.account_info.id,
-        account.account_info.access_token
-      );
-
-      // 构建更新数据
-      const updateData: Partial<Omit<SiteAccount, 'id' | 'created_at'>> = {
-        health_status: result.healthStatus.status,
-        last_sync_time: Date.now()
-      };
+      const requestOptions = options ?? await this.getRefreshOptions();
+      const result = await fetchAccountDataWithRetry(account, requestOptions);
+
+      const lastSyncTime = Date.now();
+      let refreshedInfo: AccountInfo | undefined;
 
-      // 如果成功获取数据，更新账号信息
-      if (result.success && result.data) {
-        updateData.account_info = {
-          ...account.account_info,
+      // 在存储中的最新数据上合并刷新结果，只覆盖余额和用量字段，刷新期间在其他页面做的修改不会被覆盖
+      // 数据刷新不触发WebDAV同步
+      await this.enqueueWrite(() => this.patchStoredAccount(id, current => {
+        if (!result.success || !result.data) {
+          return { health_status: result.healthStatus.status, last_sync_time: lastSyncTime };
+        }
+
+        refreshedInfo = {
+          ...current.account_info,
           quota: result.data.quota,
           today_prompt_tokens: result.data.today_prompt_tokens,
           today_completion_tokens: result.data.today_completion_tokens,
           today_quota_consumption: result.data.today_quota_consumption,
-          today_requests_count: result.data.today_requests_count
+          today_requests_count: result.data.today_requests_count,
+          today_usage_truncated: result.data.today_usage_truncated,
+          today_tokens_combined: result.data.today_tokens_combined,
+          today_usage_breakdown: result.data.today_usage_breakdown
         };
-      }
+        return {
+          health_status: result.healthStatus.status,
+          last_sync_time: lastSyncTime,
+          account_info: refreshedInfo,
+          usage_cursor: result.data.usage_cursor
+        };
+      }));
 
-      // 更新账号信息 - 数据刷新不触发WebDAV同步
-      const updateSuccess = await this.updateAccount(id, updateData, false);
+      // 记录每日历史数据
+      if (refreshedInfo) {
+        await accountHistory.recordSnapshot(id, refreshedInfo, lastSyncTime);
+      }
       
       // 记录健康状态变化
       if (account.health_status !== result.healthStatus.status) {
@@ -205,7 +266,7 @@ class AccountStorageService {
         console.log(`状态详情: ${result.healthStatus.message}`);
       }
 
-      return updateSuccess;
+      return true;
     } catch (error) {
       console.error('刷新账号数据失败:', error);
       // 在出现异常时也尝试更新健康状态为unknown - 同样不触发WebDAV同步
@@ -223,28 +284,28 @@ class AccountStorageService {
 
   /**
    * 刷新所有账号数据
+   * 按用户设置的并发数排队刷新，避免同时请求过多站点触发限流
+   * 默认跳过已暂停的账号，可通过 filter 自定义参与刷新的账号
    */
-  async refreshAllAccounts(): Promise<{ success: number; failed: number }> {
-    const accounts = await this.getAllAccounts();
-    let success = 0;
-    let failed = 0;
-
-    // 使用 Promise.allSettled 来并发刷新，避免单个失败影响其他账号
-    const results = await Promise.allSettled(
-      accounts.map(account => this.refreshAccount(account.id))
-    );
+  async refreshAllAccounts(
+    options: Pick<RefreshQueueOptions, 'onProgress'> & {
+      filter?: (account: SiteAccount) => boolean;
+    } = {}
+  ): Promise<{ success: number; failed: number }> {
+    if (await vaultService.isLocked()) {
+      console.warn('[AccountStorage] 保险库已锁定，跳过批量刷新');
+      return { success: 0, failed: 0 };
+    }
 
-    results.forEach((result, index) => {
-      if (result.status === 'fulfilled' && result.value) {
-        success++;
-      } else {
-        failed++;
-        console.error(`刷新账号 ${accounts[index].site_name} 失败:`, 
-          result.status === 'rejected' ? result.reason : '未知错误');
-      }
-    });
+    const allAccounts = await this.getAllAccounts();
+    const accounts = allAccounts.filter(options.filter || isIncludedInBulkRefresh);
+    const refreshOptions = await this.getRefreshOptions();
 
-    return { success, failed };
+    return runRefreshQueue(
+      accounts,
+      account => this.refreshAccount(account.id, refreshOptions),
+      { ...refreshOptions, onProgress: options.onProgress }
+    );
   }
 
   /**
@@ -303,7 +364,16 @@ class AccountStorageService {
       healthStatus: account.health_status,
       baseUrl: account.site_url,
       token: account.account_info.access_token,
-      userId: account.account_info.id // 添加真实的用户 ID
+      userId: account.account_info.id, // 添加真实的用户 ID
+      siteType: account.site_type,
+      siteFingerprint: account.site_fingerprint,
+      budgetUsage: calculateBudgetUsage(account) ?? undefined,
+      refreshMode: getRefreshMode(account),
+      todayUsageTruncated: account.account_info.today_usage_truncated,
+      todayTokensCombined: account.account_info.today_tokens_combined,
+      tags: account.tags,
+      notes: account.notes,
+      pinned: account.pinned
     }));
   }
 
@@ -312,8 +382,11 @@ class AccountStorageService {
    */
   async clearAllData(): Promise<boolean> {
     try {
-      await this.storage.remove(STORAGE_KEYS.ACCOUNTS);
-      await this.storage.remove(STORAGE_KEYS.CONFIG);
+      await this.enqueueWrite(async () => {
+        await this.storage.remove(STORAGE_KEYS.ACCOUNTS);
+        await this.storage.remove(STORAGE_KEYS.CONFIG);
+      });
+      await accountHistory.clearAll();
       return true;
     } catch (error) {
       console.error('清空数据失败:', error);
@@ -321,6 +394,26 @@ class AccountStorageService {
     }
   }
 
+  /**
+   * 按当前保险库状态重新保存所有账号，用于启用或停用保险库后加密 / 解密已有的访问令牌
+   * @returns 无法解密、仍以密文保存的访问令牌数量
+   */
+  async resaveAccounts(): Promise<number> {
+    return this.enqueueWrite(async () => {
+      const { accounts } = await this.getStorageConfig();
+      const encryptedAccounts = await this.encryptAccounts(accounts);
+      const tokens = new Map(encryptedAccounts.map(account => [account.id, account.account_info.access_token]));
+
+      // 只替换访问令牌，期间其他页面写入的字段保持不变
+      await this.writeStoredAccounts(stored => stored.map(account => (
+        tokens.has(account.id)
+          ? { ...account, account_info: { ...account.account_info, access_token: tokens.get(account.id)! } }
+          : account
+      )));
+      return accounts.filter(account => vaultService.isEncryptedSecret(account.account_info.access_token)).length;
+    });
+  }
+
   /**
    * 导出数据
    */
@@ -333,20 +426,30 @@ class AccountStorageService {
    */
   async importData(data: StorageConfig): Promise<boolean> {
     try {
-      await this.storage.set(STORAGE_KEYS.ACCOUNTS, {
-        ...data,
-        last_updated: Date.now()
+      // 同一站点的同一用户只保留最近更新的一条，同站点的不同用户全部保留
+      const { accounts: uniqueAccounts, removed } = dedupeAccounts(data.accounts || []);
+      // 兼容手动编辑过的备份文件，标签统一规范化
+      const accounts = uniqueAccounts.map(account => (
+        account.tags ? { ...account, tags: normalizeTags(account.tags) } : account
+      ));
+      if (removed > 0) {
+        console.log(`[AccountStorage] 导入数据中有 ${removed} 个重复账号已忽略`);
+      }
+
+      await this.enqueueWrite(async () => {
+        await this.storage.set(STORAGE_KEYS.ACCOUNTS, {
+          ...data,
+          accounts: await this.encryptAccounts(accounts),
+          last_updated: Date.now()
+        });
       });
+
+      // 清理已不存在账号的历史数据
+      await accountHistory.prune(accounts);
       
       // 触发WebDAV数据变动同步
-      try {
-        const accountCount = data.accounts?.length || 0;
-        await webdavService.syncOnDataChange(`导入数据: ${accountCount}个账号`);
-      } catch (error) {
-        console.error('[AccountStorage] WebDAV同步失败:', error);
-        // 不影响主流程，继续执行
-      }
-      
+      await this.syncChange(`导入数据: ${accounts.length}个账号`);
+
       return true;
     } catch (error) {
       console.error('导入数据失败:', error);
@@ -356,13 +459,27 @@ class AccountStorageService {
 
   // 私有方法
 
+  /**
+   * 从用户设置中读取刷新选项
+   */
+  private async getRefreshOptions(): Promise<RefreshQueueOptions> {
+    const preferences = await userPreferences.getPreferences();
+    return {
+      concurrency: preferences.refreshConcurrency,
+      timeout: preferences.refreshTimeout
+    };
+  }
+
   /**
    * 获取存储配置
    */
   private async getStorageConfig(): Promise<StorageConfig> {
     try {
       const config = await this.storage.get(STORAGE_KEYS.ACCOUNTS) as StorageConfig;
-      return config || DEFAULT_CONFIG;
+      if (!config) {
+        return DEFAULT_CONFIG;
+      }
+      return { ...config, accounts: await this.decryptAccounts(config.accounts || []) };
     } catch (error) {
       console.error('获取存储配置失败:', error);
       return DEFAULT_CONFIG;
@@ -370,32 +487,107 @@ class AccountStorageService {
   }
 
   /**
-   * 保存账号数据
+   * 加密账号的访问令牌（保险库未启用时原样返回）
+   */
+  private async encryptAccounts(accounts: SiteAccount[]): Promise<SiteAccount[]> {
+    return Promise.all(accounts.map(async account => ({
+      ...account,
+      account_info: await this.encryptAccountInfo(account.account_info)
+    })));
+  }
+
+  /**
+   * 加密单个账号信息中的访问令牌
+   */
+  private async encryptAccountInfo(accountInfo: AccountInfo): Promise<AccountInfo> {
+    return {
+      ...accountInfo,
+      access_token: await vaultService.encryptSecret(accountInfo.access_token)
+    };
+  }
+
+  /**
+   * 解密账号的访问令牌（保险库未解锁时保持密文）
+   * 解密失败的账号保持密文并标记为错误状态，请求时会被拒绝而不会把密文当作令牌发送
+   */
+  private async decryptAccounts(accounts: SiteAccount[]): Promise<SiteAccount[]> {
+    return Promise.all(accounts.map(async account => {
+      try {
+        return {
+          ...account,
+          account_info: {
+            ...account.account_info,
+            access_token: await vaultService.decryptSecret(account.account_info.access_token)
+          }
+        };
+      } catch (error) {
+        console.error(`访问令牌解密失败: ${account.site_name}`, error);
+        return { ...account, health_status: 'error' as const };
+      }
+    }));
+  }
+
+  /**
+   * 将写操作加入队列依次执行，任务的结果和异常原样返回给调用者
    */
-  private async saveAccounts(accounts: SiteAccount[], trigger?: string): Promise<void> {
-    console.log('[AccountStorage] 开始保存账号数据，数量:', accounts.length);
+  private enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.writeQueue.then(task);
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * 读取存储中的账号列表（访问令牌保持存储时的密文），修改后立即写回，需在 enqueueWrite 中调用
+   * 写队列只能串行化当前页面内的写入，后台和弹出页会同时修改账号列表，
+   * 因此每次写入都在最新数据上按账号 ID 修改，而不是保存调用前读取的整个列表；需要加密的字段应在调用前准备好
+   */
+  private async writeStoredAccounts(mutate: (accounts: SiteAccount[]) => SiteAccount[]): Promise<void> {
+    const stored = await this.storage.get(STORAGE_KEYS.ACCOUNTS) as StorageConfig | undefined;
     const config: StorageConfig = {
-      accounts,
+      ...stored,
+      accounts: mutate([...(stored?.accounts || [])]),
       last_updated: Date.now()
     };
-    
-    console.log('[AccountStorage] 保存的配置数据:', { 
-      accountCount: config.accounts.length,
-      last_updated: config.last_updated,
-      storageKey: STORAGE_KEYS.ACCOUNTS
-    });
-    
+
     await this.storage.set(STORAGE_KEYS.ACCOUNTS, config);
-    console.log('[AccountStorage] 账号数据保存完成');
-    
-    // 只有在提供了 trigger 参数时才触发WebDAV同步
-    if (trigger) {
-      try {
-        await webdavService.syncOnDataChange(trigger);
-      } catch (error) {
-        console.error('[AccountStorage] WebDAV同步失败:', error);
-        // 不影响主流程，继续执行
+    console.log('[AccountStorage] 账号数据保存完成，数量:', config.accounts.length);
+  }
+
+  /**
+   * 在存储中的最新数据上更新单个账号，返回更新前的账号，需在 enqueueWrite 中调用
+   * getUpdates 接收存储中的账号（访问令牌为密文），返回的访问令牌也需已加密
+   */
+  private async patchStoredAccount(
+    id: string,
+    getUpdates: (current: SiteAccount) => Partial<Omit<SiteAccount, 'id' | 'created_at'>>
+  ): Promise<SiteAccount> {
+    let previous: SiteAccount | undefined;
+    await this.writeStoredAccounts(accounts => {
+      const index = accounts.findIndex(account => account.id === id);
+      if (index === -1) {
+        throw new Error(`账号 ${id} 不存在`);
       }
+
+      previous = accounts[index];
+      accounts[index] = {
+        ...previous,
+        ...getUpdates(previous),
+        updated_at: Date.now()
+      };
+      return accounts;
+    });
+    return previous!;
+  }
+
+  /**
+   * 触发WebDAV数据变动同步，在写队列之外执行，避免同步期间阻塞其他写入
+   */
+  private async syncChange(trigger: string): Promise<void> {
+    try {
+      await webdavService.syncOnDataChange(trigger);
+    } catch (error) {
+      console.error('[AccountStorage] WebDAV同步失败:', error);
+      // 不影响主流程，继续执行
     }
   }
 
@@ -518,7 +710,8 @@ export const AccountStorageUtils = {
         const isValid = await validateAccountConnection(
           account.site_url,
           account.account_info.id,
-          account.account_info.access_token
+          account.account_info.access_token,
+          account.site_type
         );
         return { account, isValid };
       } catch {
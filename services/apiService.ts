@@ -2,6 +2,12 @@
  * API 服务 - 用于与 One API/New API 站点进行交互
  */
 
+import { siteCapabilities } from "./siteCapabilities"
+import { vaultService } from "./vaultService"
+import { getSiteAdapter, type SiteRequester } from "./siteAdapters"
+import { buildBreakdownFromLogs, createEmptyBreakdown, mergeBreakdowns } from "../utils/usageBreakdown"
+import type { TodayUsageCursor, TodayUsageBreakdown, SiteType } from "../types"
+
 // ============= 类型定义 =============
 export interface UserInfo {
   id: number
@@ -19,6 +25,10 @@ export interface TodayUsageData {
   today_prompt_tokens: number
   today_completion_tokens: number
   today_requests_count: number
+  today_usage_truncated?: boolean // 达到分页上限，统计可能不完整
+  today_tokens_combined?: boolean // 通过聚合用量接口统计，只有 token 总数（计入提示 token）
+  today_usage_breakdown?: TodayUsageBreakdown // 按模型 / 令牌拆分的明细
+  usage_cursor?: TodayUsageCursor // 增量统计游标，站点日志不含 id 时为空
 }
 
 export interface AccountData extends TodayUsageData {
@@ -34,11 +44,17 @@ export interface RefreshAccountResult {
 export interface HealthCheckResult {
   status: 'healthy' | 'warning' | 'error' | 'unknown'
   message: string
+  retryable?: boolean // 是否为可重试的临时错误（网络异常、超时、限流、服务端错误）
 }
 
 export interface SiteStatusInfo {
   price?: number
   stripe_unit_price?: number
+  system_name?: string
+  version?: string
+  logo?: string
+  data_export_enabled?: boolean // New API 是否开启数据统计（聚合用量接口的数据来源）
+  [key: string]: unknown // 各分支返回的其他字段，用于识别站点类型
 }
 
 // 模型列表响应类型
@@ -111,6 +127,21 @@ export interface ModelPricing {
   completion_ratio: number
   enable_groups: string[]
   supported_endpoint_types: string[]
+  // 以下字段由较新版本的 New API 返回，均相对于输入价格（audio_completion_ratio 相对于音频输入价格）
+  cache_ratio?: number // 缓存读取倍率
+  create_cache_ratio?: number // 缓存写入倍率
+  image_ratio?: number // 图片输入倍率
+  audio_ratio?: number // 音频输入倍率
+  audio_completion_ratio?: number // 音频输出倍率
+  tiered_pricing?: ModelPriceTier[] // 按提示长度分档计费，档位按 min_prompt_tokens 升序
+}
+
+// 分档计费中的一档
+export interface ModelPriceTier {
+  min_prompt_tokens: number // 单次请求提示 token 数达到该值时适用此档
+  model_ratio: number
+  completion_ratio?: number // 未返回时沿用模型的补全倍率
+  cache_ratio?: number // 未返回时沿用模型的缓存读取倍率
 }
 
 // 模型定价响应类型
@@ -121,14 +152,6 @@ export interface PricingResponse {
   usable_group: Record<string, string>
 }
 
-// 分页令牌响应类型
-interface PaginatedTokenResponse {
-  page: number
-  page_size: number
-  total: number
-  items: ApiToken[]
-}
-
 // API 响应的通用格式
 interface ApiResponse<T = any> {
   success: boolean
@@ -137,14 +160,43 @@ interface ApiResponse<T = any> {
 }
 
 // 日志条目类型
-interface LogItem {
+export interface LogItem {
+  id?: number
+  created_at?: number // 秒级时间戳
+  type?: number // 日志类型，见 LOG_TYPES
+  content?: string
+  username?: string
+  token_name?: string
+  model_name?: string
+  group?: string
   quota?: number
   prompt_tokens?: number
   completion_tokens?: number
+  use_time?: number // 耗时（秒）
+  is_stream?: boolean
+}
+
+// 日志查询条件
+export interface LogQueryParams {
+  startTimestamp: number // 秒级时间戳
+  endTimestamp: number // 秒级时间戳
+  type?: number // 0 表示全部类型
+  tokenName?: string
+  modelName?: string
+  group?: string
+}
+
+// 聚合用量数据条目（/api/data/self，按小时和模型汇总）
+interface QuotaDataItem {
+  model_name?: string
+  created_at?: number
+  token_used?: number
+  count?: number
+  quota?: number
 }
 
 // 日志响应数据
-interface LogResponseData {
+export interface LogResponseData {
   items: LogItem[]
   total: number
 }
@@ -159,6 +211,16 @@ const REQUEST_CONFIG = {
   }
 } as const
 
+// 日志类型（与站点后台一致）
+export const LOG_TYPES: Record<number, string> = {
+  1: '充值',
+  2: '消费',
+  3: '管理',
+  4: '系统',
+  5: '错误',
+  6: '退款'
+}
+
 // ============= 错误处理 =============
 export class ApiError extends Error {
   constructor(
@@ -175,13 +237,23 @@ export class ApiError extends Error {
 /**
  * 创建请求头
  */
-const createRequestHeaders = (userId: number, accessToken?: string): Record<string, string> => {
+const createRequestHeaders = (userId: number, accessToken?: string, siteType?: SiteType): Record<string, string> => {
   const headers: Record<string, string> = {
-    'New-API-User': userId.toString(),
     'Content-Type': REQUEST_CONFIG.HEADERS.CONTENT_TYPE,
     'Pragma': REQUEST_CONFIG.HEADERS.PRAGMA
   }
   
+  // 不同分支使用不同的请求头携带用户 ID
+  const { userIdHeader } = getSiteAdapter(siteType)
+  if (userIdHeader) {
+    headers[userIdHeader] = userId.toString()
+  }
+  
+  // 保险库未解锁或解密失败时令牌仍为密文，不能发送给站点
+  if (vaultService.isEncryptedSecret(accessToken)) {
+    throw new ApiError('访问令牌无法解密，请先解锁保险库')
+  }
+
   // TODO：bug，还是带上了 cookie，导致网站没有使用 access_token进行验证
   if (accessToken) {
     headers['Cookie'] = '' // 使用 Bearer token 时清空 Cookie 头
@@ -191,15 +263,33 @@ const createRequestHeaders = (userId: number, accessToken?: string): Record<stri
   return headers
 }
 
+/**
+ * 发送请求，指定超时时间（毫秒）时每个请求单独计时，超时后中止请求
+ */
+const fetchWithTimeout = async (url: string, options: RequestInit, timeout?: number): Promise<Response> => {
+  if (!timeout) {
+    return fetch(url, options)
+  }
+
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeout)
+  try {
+    return await fetch(url, { ...options, signal: controller.signal })
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
 /**
  * 通用 API 请求处理器
  */
 const apiRequest = async <T>(
   url: string,
   options: RequestInit,
-  endpoint: string
+  endpoint: string,
+  timeout?: number
 ): Promise<T> => {
-  const response = await fetch(url, options)
+  const response = await fetchWithTimeout(url, options, timeout)
 
   if (!response.ok) {
     throw new ApiError(`请求失败: ${response.status}`, response.status, endpoint)
@@ -216,21 +306,46 @@ const apiRequest = async <T>(
 /**
  * 创建带 cookie 认证的请求
  */
-const createCookieAuthRequest = (userId: number): RequestInit => ({
+const createCookieAuthRequest = (userId: number, siteType?: SiteType): RequestInit => ({
   method: 'GET',
-  headers: createRequestHeaders(userId),
+  headers: createRequestHeaders(userId, undefined, siteType),
   credentials: 'include'
 })
 
 /**
  * 创建带 Bearer token 认证的请求
  */
-const createTokenAuthRequest = (userId: number, accessToken: string): RequestInit => ({
+const createTokenAuthRequest = (userId: number, accessToken: string, siteType?: SiteType): RequestInit => ({
   method: 'GET',
-  headers: createRequestHeaders(userId, accessToken),
+  headers: createRequestHeaders(userId, accessToken, siteType),
   credentials: 'omit' // 明确不携带 cookies
 })
 
+/**
+ * 创建供站点适配器使用的请求函数（Bearer token 认证）
+ */
+const createSiteRequester = (
+  baseUrl: string,
+  userId: number,
+  accessToken: string,
+  siteType?: SiteType,
+  timeout?: number
+): SiteRequester => async (path: string) => {
+  const endpoint = path.split('?')[0]
+  const response = await fetchWithTimeout(`${baseUrl}${path}`, createTokenAuthRequest(userId, accessToken, siteType), timeout)
+
+  if (!response.ok) {
+    throw new ApiError(`请求失败: ${response.status}`, response.status, endpoint)
+  }
+
+  const data = await response.json()
+  if (!data || !data.success) {
+    throw new ApiError(data?.message || '响应数据格式错误', undefined, endpoint)
+  }
+
+  return data
+}
+
 /**
  * 计算今日时间戳范围
  */
@@ -249,10 +364,10 @@ const getTodayTimestampRange = (): { start: number; end: number } => {
 }
 
 /**
- * 聚合使用量数据
+ * 聚合使用量数据，同时按模型和令牌拆分
  */
-const aggregateUsageData = (items: LogItem[]): Omit<TodayUsageData, 'today_requests_count'> => {
-  return items.reduce(
+const aggregateUsageData = (items: LogItem[]): Pick<TodayUsageData, 'today_quota_consumption' | 'today_prompt_tokens' | 'today_completion_tokens' | 'today_usage_breakdown'> => {
+  const totals = items.reduce(
     (acc, item) => ({
       today_quota_consumption: acc.today_quota_consumption + (item.quota || 0),
       today_prompt_tokens: acc.today_prompt_tokens + (item.prompt_tokens || 0),
@@ -264,6 +379,10 @@ const aggregateUsageData = (items: LogItem[]): Omit<TodayUsageData, 'today_reque
       today_completion_tokens: 0
     }
   )
+  return {
+    ...totals,
+    today_usage_breakdown: buildBreakdownFromLogs(items)
+  }
 }
 
 // ============= 核心 API 函数 =============
@@ -271,9 +390,9 @@ const aggregateUsageData = (items: LogItem[]): Omit<TodayUsageData, 'today_reque
 /**
  * 获取用户基本信息（用于账号检测） - 使用浏览器 cookie 认证
  */
-export const fetchUserInfo = async (baseUrl: string, userId: number): Promise<UserInfo> => {
+export const fetchUserInfo = async (baseUrl: string, userId: number, siteType?: SiteType): Promise<UserInfo> => {
   const url = `${baseUrl}/api/user/self`
-  const options = createCookieAuthRequest(userId)
+  const options = createCookieAuthRequest(userId, siteType)
   
   const userData = await apiRequest<UserInfo>(url, options, '/api/user/self')
   
@@ -287,9 +406,9 @@ export const fetchUserInfo = async (baseUrl: string, userId: number): Promise<Us
 /**
  * 创建访问令牌 - 使用浏览器 cookie 认证
  */
-export const createAccessToken = async (baseUrl: string, userId: number): Promise<string> => {
+export const createAccessToken = async (baseUrl: string, userId: number, siteType?: SiteType): Promise<string> => {
   const url = `${baseUrl}/api/user/token`
-  const options = createCookieAuthRequest(userId)
+  const options = createCookieAuthRequest(userId, siteType)
   
   return await apiRequest<string>(url, options, '/api/user/token')
 }
@@ -352,16 +471,16 @@ export const extractDefaultExchangeRate = (statusInfo: SiteStatusInfo | null): n
 /**
  * 自动获取或创建访问令牌
  */
-export const getOrCreateAccessToken = async (baseUrl: string, userId: number): Promise<AccessTokenInfo> => {
+export const getOrCreateAccessToken = async (baseUrl: string, userId: number, siteType?: SiteType): Promise<AccessTokenInfo> => {
   // 首先获取用户信息
-  const userInfo = await fetchUserInfo(baseUrl, userId)
+  const userInfo = await fetchUserInfo(baseUrl, userId, siteType)
   
   let accessToken = userInfo.access_token
   
   // 如果没有访问令牌，则创建一个
   if (!accessToken) {
     console.log('访问令牌为空，尝试自动创建...')
-    accessToken = await createAccessToken(baseUrl, userId)
+    accessToken = await createAccessToken(baseUrl, userId, siteType)
     console.log('自动创建访问令牌成功')
   }
   
@@ -374,20 +493,42 @@ export const getOrCreateAccessToken = async (baseUrl: string, userId: number): P
 /**
  * 获取账号余额信息
  */
-export const fetchAccountQuota = async (baseUrl: string, userId: number, accessToken: string): Promise<number> => {
+export const fetchAccountQuota = async (
+  baseUrl: string,
+  userId: number,
+  accessToken: string,
+  timeout?: number,
+  siteType?: SiteType
+): Promise<number> => {
   const url = `${baseUrl}/api/user/self`
-  const options = createTokenAuthRequest(userId, accessToken)
+  const options = createTokenAuthRequest(userId, accessToken, siteType)
   
-  const userData = await apiRequest<{ quota?: number }>(url, options, '/api/user/self')
+  const userData = await apiRequest<{ quota?: number }>(url, options, '/api/user/self', timeout)
   
   return userData.quota || 0
 }
 
 /**
  * 获取今日使用情况
+ * 传入同一天的游标时只拉取游标之后的新日志并与已统计的数据累加，跨天后重新统计
+ * 日志按 id 倒序返回，遇到已统计过的日志即停止翻页
  */
-export const fetchTodayUsage = async (baseUrl: string, userId: number, accessToken: string): Promise<TodayUsageData> => {
+export const fetchTodayUsage = async (
+  baseUrl: string,
+  userId: number,
+  accessToken: string,
+  timeout?: number,
+  cursor?: TodayUsageCursor,
+  siteType?: SiteType
+): Promise<TodayUsageData> => {
   const { start: startTimestamp, end: endTimestamp } = getTodayTimestampRange()
+  const adapter = getSiteAdapter(siteType)
+  const request = createSiteRequester(baseUrl, userId, accessToken, siteType, timeout)
+  const pageSize = adapter.logPageSize || REQUEST_CONFIG.DEFAULT_PAGE_SIZE
+  // 旧版本游标没有记录明细，需要重新统计一次
+  const activeCursor = cursor && cursor.day_start === startTimestamp && cursor.usage.today_usage_breakdown
+    ? cursor
+    : null
   
   let currentPage = 1
   let totalRequestsCount = 0
@@ -396,62 +537,266 @@ export const fetchTodayUsage = async (baseUrl: string, userId: number, accessTok
     today_prompt_tokens: 0,
     today_completion_tokens: 0
   }
+  let breakdown = createEmptyBreakdown()
+  let latestLogId = activeCursor?.last_log_id ?? 0
+  let latestTimestamp = activeCursor?.last_timestamp ?? startTimestamp
+  let supportsIncremental = true // 日志缺少 id 时无法增量统计
+  let reachedCursor = false
 
   // 循环获取所有分页数据
   while (currentPage <= REQUEST_CONFIG.MAX_PAGES) {
-    const params = new URLSearchParams({
-      p: currentPage.toString(),
-      page_size: REQUEST_CONFIG.DEFAULT_PAGE_SIZE.toString(),
-      type: '0',
-      token_name: '',
-      model_name: '',
-      start_timestamp: startTimestamp.toString(),
-      end_timestamp: endTimestamp.toString(),
-      group: ''
-    })
-
-    const url = `${baseUrl}/api/log/self?${params.toString()}`
-    const options = createTokenAuthRequest(userId, accessToken)
-    
-    const logData = await apiRequest<LogResponseData>(url, options, '/api/log/self')
+    const logData = await adapter.fetchLogPage(request, {
+      startTimestamp: activeCursor ? activeCursor.last_timestamp : startTimestamp,
+      endTimestamp
+    }, currentPage, pageSize)
     
-    const items = logData.items || []
-    const currentPageItemCount = items.length
+    let items = logData.items || []
+    if (items.some(item => typeof item.id !== 'number')) {
+      supportsIncremental = false
+    }
+
+    // 过滤掉游标之前已统计过的日志
+    if (activeCursor) {
+      const newItems = items.filter(item => (item.id ?? 0) > activeCursor.last_log_id)
+      reachedCursor = newItems.length < items.length
+      items = newItems
+    }
 
     // 聚合当前页数据
     const pageData = aggregateUsageData(items)
     aggregatedData.today_quota_consumption += pageData.today_quota_consumption
     aggregatedData.today_prompt_tokens += pageData.today_prompt_tokens
     aggregatedData.today_completion_tokens += pageData.today_completion_tokens
+    breakdown = mergeBreakdowns(breakdown, pageData.today_usage_breakdown!)
     
-    totalRequestsCount += currentPageItemCount
+    totalRequestsCount += items.length
+
+    items.forEach(item => {
+      latestLogId = Math.max(latestLogId, item.id ?? 0)
+      latestTimestamp = Math.max(latestTimestamp, item.created_at ?? 0)
+    })
 
     // 检查是否还有更多数据
-    const totalPages = Math.ceil((logData.total || 0) / REQUEST_CONFIG.DEFAULT_PAGE_SIZE)
-    if (currentPage >= totalPages) {
+    const totalPages = Math.ceil((logData.total || 0) / pageSize)
+    if (reachedCursor || currentPage >= totalPages) {
       break
     }
 
     currentPage++
   }
 
-  if (currentPage > REQUEST_CONFIG.MAX_PAGES) {
+  const hitPageLimit = currentPage > REQUEST_CONFIG.MAX_PAGES
+  if (hitPageLimit) {
     console.warn(`达到最大分页限制(${REQUEST_CONFIG.MAX_PAGES}页)，停止获取数据`)
   }
 
+  // 与游标中已统计的数据累加
+  const usage = {
+    today_quota_consumption: (activeCursor?.usage.today_quota_consumption || 0) + aggregatedData.today_quota_consumption,
+    today_prompt_tokens: (activeCursor?.usage.today_prompt_tokens || 0) + aggregatedData.today_prompt_tokens,
+    today_completion_tokens: (activeCursor?.usage.today_completion_tokens || 0) + aggregatedData.today_completion_tokens,
+    today_requests_count: (activeCursor?.usage.today_requests_count || 0) + totalRequestsCount,
+    today_usage_breakdown: mergeBreakdowns(activeCursor?.usage.today_usage_breakdown, breakdown)
+  }
+  const truncated = hitPageLimit || !!activeCursor?.truncated
+
   return {
-    ...aggregatedData,
-    today_requests_count: totalRequestsCount
+    ...usage,
+    today_usage_truncated: truncated,
+    usage_cursor: supportsIncremental
+      ? {
+          day_start: startTimestamp,
+          last_log_id: latestLogId,
+          last_timestamp: latestTimestamp,
+          usage,
+          truncated
+        }
+      : undefined
+  }
+}
+
+/**
+ * 通过聚合用量接口获取今日使用情况
+ * 接口只提供 token 总数且不区分令牌：token 总数计入提示 token 并标记为合计，明细只有模型维度
+ */
+export const fetchTodayUsageFromQuotaData = async (
+  baseUrl: string,
+  userId: number,
+  accessToken: string,
+  timeout?: number,
+  siteType?: SiteType
+): Promise<{ usage: TodayUsageData; isEmpty: boolean }> => {
+  const { start: startTimestamp, end: endTimestamp } = getTodayTimestampRange()
+  const params = new URLSearchParams({
+    start_timestamp: startTimestamp.toString(),
+    end_timestamp: endTimestamp.toString()
+  })
+
+  const url = `${baseUrl}/api/data/self?${params.toString()}`
+  const options = createTokenAuthRequest(userId, accessToken, siteType)
+
+  const items = await apiRequest<QuotaDataItem[] | null>(url, options, '/api/data/self', timeout)
+  if (items !== null && !Array.isArray(items)) {
+    throw new ApiError('响应数据格式错误', undefined, '/api/data/self')
+  }
+
+  const breakdown: TodayUsageBreakdown = { by_model: {} } // 聚合数据不区分令牌，不含令牌维度
+  const usage = (items || []).reduce<TodayUsageData>((acc, item) => {
+    const modelName = item.model_name || ''
+    const current = breakdown.by_model[modelName]
+    breakdown.by_model[modelName] = {
+      quota: (current?.quota || 0) + (item.quota || 0),
+      requests: (current?.requests || 0) + (item.count || 0),
+      prompt_tokens: (current?.prompt_tokens || 0) + (item.token_used || 0),
+      completion_tokens: 0
+    }
+    return {
+      ...acc,
+      today_quota_consumption: acc.today_quota_consumption + (item.quota || 0),
+      today_prompt_tokens: acc.today_prompt_tokens + (item.token_used || 0),
+      today_requests_count: acc.today_requests_count + (item.count || 0)
+    }
+  }, {
+    today_quota_consumption: 0,
+    today_prompt_tokens: 0,
+    today_completion_tokens: 0,
+    today_requests_count: 0,
+    today_tokens_combined: true,
+    today_usage_truncated: false,
+    today_usage_breakdown: breakdown
+  })
+
+  return { usage, isEmpty: !items || items.length === 0 }
+}
+
+/**
+ * 判断站点是否提供聚合用量数据
+ * 首次探测时读取站点状态，明确关闭数据统计的站点直接记录为不支持
+ */
+const isQuotaDataAvailable = async (baseUrl: string, siteType?: SiteType): Promise<boolean> => {
+  if (!getSiteAdapter(siteType).supportsQuotaData) {
+    return false
+  }
+
+  const capabilities = await siteCapabilities.get(baseUrl)
+  if (capabilities?.quota_data !== undefined) {
+    return capabilities.quota_data
+  }
+
+  const status = await fetchSiteStatus(baseUrl)
+  if (status?.data_export_enabled === false) {
+    console.log(`站点 ${baseUrl} 未开启数据统计，仅使用日志统计`)
+    await siteCapabilities.update(baseUrl, { quota_data: false })
+    return false
+  }
+  return true
+}
+
+/**
+ * 获取今日使用情况，站点支持聚合用量接口时直接使用其统计结果，不再翻页读取日志
+ * 聚合接口返回 403 / 404 时按站点缓存为不支持，其他失败本次回退到日志统计；
+ * 站点定期将日志汇总为聚合数据，空数据可能只是尚未汇总，本次回退到日志统计但仍记录为支持
+ */
+export const fetchPreferredTodayUsage = async (
+  baseUrl: string,
+  userId: number,
+  accessToken: string,
+  timeout?: number,
+  usageCursor?: TodayUsageCursor,
+  siteType?: SiteType
+): Promise<TodayUsageData> => {
+  if (!(await isQuotaDataAvailable(baseUrl, siteType))) {
+    return fetchTodayUsage(baseUrl, userId, accessToken, timeout, usageCursor, siteType)
+  }
+
+  let quotaData: { usage: TodayUsageData; isEmpty: boolean }
+  try {
+    quotaData = await fetchTodayUsageFromQuotaData(baseUrl, userId, accessToken, timeout, siteType)
+  } catch (error) {
+    if (error instanceof ApiError && (error.statusCode === 403 || error.statusCode === 404)) {
+      console.log(`站点 ${baseUrl} 不支持聚合用量接口，使用日志统计`)
+      await siteCapabilities.update(baseUrl, { quota_data: false })
+    } else {
+      console.warn(`站点 ${baseUrl} 聚合用量接口请求失败，本次使用日志统计:`, error)
+    }
+    return fetchTodayUsage(baseUrl, userId, accessToken, timeout, usageCursor, siteType)
+  }
+
+  // 记录为支持，后续刷新不再读取站点状态
+  if ((await siteCapabilities.get(baseUrl))?.quota_data !== true) {
+    await siteCapabilities.update(baseUrl, { quota_data: true })
+  }
+
+  if (quotaData.isEmpty) {
+    return fetchTodayUsage(baseUrl, userId, accessToken, timeout, usageCursor, siteType)
+  }
+  return quotaData.usage
+}
+
+/**
+ * 按条件查询使用日志（单页）
+ */
+export const fetchUsageLogs = async (
+  baseUrl: string,
+  userId: number,
+  accessToken: string,
+  query: LogQueryParams,
+  page: number = 1,
+  pageSize: number = REQUEST_CONFIG.DEFAULT_PAGE_SIZE,
+  siteType?: SiteType
+): Promise<LogResponseData> => {
+  const adapter = getSiteAdapter(siteType)
+  const request = createSiteRequester(baseUrl, userId, accessToken, siteType)
+  return adapter.fetchLogPage(request, query, page, adapter.logPageSize || pageSize)
+}
+
+/**
+ * 按条件查询使用日志，连续翻页直到取完或达到条数上限
+ */
+export const fetchUsageLogsUpTo = async (
+  baseUrl: string,
+  userId: number,
+  accessToken: string,
+  query: LogQueryParams,
+  maxItems: number,
+  siteType?: SiteType
+): Promise<LogResponseData & { truncated: boolean }> => {
+  const items: LogItem[] = []
+  let total = 0
+  let page = 1
+
+  while (items.length < maxItems) {
+    const pageData = await fetchUsageLogs(baseUrl, userId, accessToken, query, page, REQUEST_CONFIG.DEFAULT_PAGE_SIZE, siteType)
+    items.push(...pageData.items)
+    total = pageData.total
+
+    if (pageData.items.length === 0 || items.length >= total) {
+      break
+    }
+    page++
+  }
+
+  return {
+    items: items.slice(0, maxItems),
+    total,
+    truncated: total > maxItems
   }
 }
 
 /**
  * 获取完整的账号数据
  */
-export const fetchAccountData = async (baseUrl: string, userId: number, accessToken: string): Promise<AccountData> => {
+export const fetchAccountData = async (
+  baseUrl: string,
+  userId: number,
+  accessToken: string,
+  timeout?: number,
+  usageCursor?: TodayUsageCursor,
+  siteType?: SiteType
+): Promise<AccountData> => {
   const [quota, todayUsage] = await Promise.all([
-    fetchAccountQuota(baseUrl, userId, accessToken),
-    fetchTodayUsage(baseUrl, userId, accessToken)
+    fetchAccountQuota(baseUrl, userId, accessToken, timeout, siteType),
+    fetchPreferredTodayUsage(baseUrl, userId, accessToken, timeout, usageCursor, siteType)
   ])
 
   return {
@@ -462,14 +807,18 @@ export const fetchAccountData = async (baseUrl: string, userId: number, accessTo
 
 /**
  * 刷新单个账号数据
+ * timeout 为单次请求的超时时间（毫秒），翻页读取日志时每页单独计时
  */
 export const refreshAccountData = async (
   baseUrl: string, 
   userId: number, 
-  accessToken: string
+  accessToken: string,
+  timeout?: number,
+  usageCursor?: TodayUsageCursor,
+  siteType?: SiteType
 ): Promise<RefreshAccountResult> => {
   try {
-    const data = await fetchAccountData(baseUrl, userId, accessToken)
+    const data = await fetchAccountData(baseUrl, userId, accessToken, timeout, usageCursor, siteType)
     return {
       success: true,
       data,
@@ -493,10 +842,11 @@ export const refreshAccountData = async (
 export const validateAccountConnection = async (
   baseUrl: string, 
   userId: number, 
-  accessToken: string
+  accessToken: string,
+  siteType?: SiteType
 ): Promise<boolean> => {
   try {
-    await fetchAccountQuota(baseUrl, userId, accessToken)
+    await fetchAccountQuota(baseUrl, userId, accessToken, undefined, siteType)
     return true
   } catch (error) {
     console.error('账号连接验证失败:', error)
@@ -512,32 +862,14 @@ export const fetchAccountTokens = async (
   userId: number, 
   accessToken: string,
   page: number = 0,
-  size: number = 100
+  size: number = 100,
+  siteType?: SiteType
 ): Promise<ApiToken[]> => {
-  const params = new URLSearchParams({
-    p: page.toString(),
-    size: size.toString()
-  })
-
-  const url = `${baseUrl}/api/token/?${params.toString()}`
-  const options = createTokenAuthRequest(userId, accessToken)
+  const request = createSiteRequester(baseUrl, userId, accessToken, siteType)
   
   try {
-    // 尝试获取响应数据，可能是直接的数组或者分页对象
-    const tokensData = await apiRequest<ApiToken[] | PaginatedTokenResponse>(url, options, '/api/token')
-    
-    // 处理不同的响应格式
-    if (Array.isArray(tokensData)) {
-      // 直接返回数组格式
-      return tokensData
-    } else if (tokensData && typeof tokensData === 'object' && 'items' in tokensData) {
-      // 分页格式，返回 items 数组
-      return tokensData.items || []
-    } else {
-      // 其他情况，返回空数组
-      console.warn('Unexpected token response format:', tokensData)
-      return []
-    }
+    // 各分支的分页参数和响应格式不同，由适配器处理
+    return await getSiteAdapter(siteType).fetchTokenPage(request, page, size)
   } catch (error) {
     console.error('获取令牌列表失败:', error)
     throw error
@@ -550,10 +882,11 @@ export const fetchAccountTokens = async (
 export const fetchAvailableModels = async (
   baseUrl: string, 
   userId: number, 
-  accessToken: string
+  accessToken: string,
+  siteType?: SiteType
 ): Promise<string[]> => {
   const url = `${baseUrl}/api/user/models`
-  const options = createTokenAuthRequest(userId, accessToken)
+  const options = createTokenAuthRequest(userId, accessToken, siteType)
   
   try {
     const response = await apiRequest<string[]>(url, options, '/api/user/models')
@@ -570,10 +903,11 @@ export const fetchAvailableModels = async (
 export const fetchUserGroups = async (
   baseUrl: string, 
   userId: number, 
-  accessToken: string
+  accessToken: string,
+  siteType?: SiteType
 ): Promise<Record<string, GroupInfo>> => {
   const url = `${baseUrl}/api/user/self/groups`
-  const options = createTokenAuthRequest(userId, accessToken)
+  const options = createTokenAuthRequest(userId, accessToken, siteType)
   
   try {
     const response = await apiRequest<Record<string, GroupInfo>>(url, options, '/api/user/self/groups')
@@ -591,12 +925,13 @@ export const createApiToken = async (
   baseUrl: string, 
   userId: number, 
   accessToken: string,
-  tokenData: CreateTokenRequest
+  tokenData: CreateTokenRequest,
+  siteType?: SiteType
 ): Promise<boolean> => {
   const url = `${baseUrl}/api/token/`
   const options = {
     method: 'POST',
-    headers: createRequestHeaders(userId, accessToken),
+    headers: createRequestHeaders(userId, accessToken, siteType),
     credentials: 'omit' as RequestCredentials,
     body: JSON.stringify(tokenData)
   }
@@ -629,10 +964,11 @@ export const fetchTokenById = async (
   baseUrl: string, 
   userId: number, 
   accessToken: string,
-  tokenId: number
+  tokenId: number,
+  siteType?: SiteType
 ): Promise<ApiToken> => {
   const url = `${baseUrl}/api/token/${tokenId}`
-  const options = createTokenAuthRequest(userId, accessToken)
+  const options = createTokenAuthRequest(userId, accessToken, siteType)
   
   try {
     const response = await apiRequest<ApiToken>(url, options, `/api/token/${tokenId}`)
@@ -651,12 +987,13 @@ export const updateApiToken = async (
   userId: number, 
   accessToken: string,
   tokenId: number,
-  tokenData: CreateTokenRequest
+  tokenData: CreateTokenRequest,
+  siteType?: SiteType
 ): Promise<boolean> => {
   const url = `${baseUrl}/api/token/`
   const options = {
     method: 'PUT',
-    headers: createRequestHeaders(userId, accessToken),
+    headers: createRequestHeaders(userId, accessToken, siteType),
     credentials: 'omit' as RequestCredentials,
     body: JSON.stringify({ ...tokenData, id: tokenId })
   }
@@ -688,12 +1025,13 @@ export const deleteApiToken = async (
   baseUrl: string, 
   userId: number, 
   accessToken: string,
-  tokenId: number
+  tokenId: number,
+  siteType?: SiteType
 ): Promise<boolean> => {
   const url = `${baseUrl}/api/token/${tokenId}`
   const options = {
     method: 'DELETE',
-    headers: createRequestHeaders(userId, accessToken),
+    headers: createRequestHeaders(userId, accessToken, siteType),
     credentials: 'omit' as RequestCredentials
   }
   
@@ -723,28 +1061,142 @@ export const deleteApiToken = async (
 export const fetchModelPricing = async (
   baseUrl: string, 
   userId: number, 
-  accessToken: string
+  accessToken: string,
+  siteType?: SiteType
 ): Promise<PricingResponse> => {
-  const url = `${baseUrl}/api/pricing`
-  const options = createTokenAuthRequest(userId, accessToken)
+  const adapter = getSiteAdapter(siteType)
+  if (!adapter.fetchPricing) {
+    throw new ApiError(`${adapter.name} 站点不提供模型定价接口`, undefined, '/api/pricing')
+  }
   
   try {
-    // /api/pricing 接口直接返回 PricingResponse 格式，不需要通过 apiRequest 包装
-    const response = await fetch(url, options)
+    // 定价接口格式因分支而异，由适配器转换为 New API 格式
+    return await adapter.fetchPricing(createSiteRequester(baseUrl, userId, accessToken, siteType))
+  } catch (error) {
+    console.error('获取模型定价失败:', error)
+    throw error
+  }
+}
+
+// ============= 每日签到 =============
+
+export interface CheckInResponse {
+  already: boolean // 今日已签到过
+  reward_quota: number // 本次签到获得的额度，站点未返回时为 0
+  message?: string
+}
+
+// 各分支返回签到奖励时使用的字段
+const CHECK_IN_REWARD_FIELDS = ['quota', 'reward', 'quota_awarded', 'checkin_quota']
+
+// 站点对重复签到的提示
+const ALREADY_CHECKED_IN_PATTERN = /已签到|已经签到|already/i
+
+/**
+ * 从签到响应中读取奖励额度
+ */
+const extractCheckInReward = (data: unknown): number => {
+  if (typeof data === 'number') return data
+  if (typeof data !== 'object' || data === null) return 0
+  const record = data as Record<string, unknown>
+  for (const field of CHECK_IN_REWARD_FIELDS) {
+    const value = Number(record[field])
+    if (Number.isFinite(value) && value > 0) return value
+  }
+  return 0
+}
+
+/**
+ * 执行每日签到
+ * 站点提示今日已签到时不视为失败，返回 already = true
+ */
+export const performCheckIn = async (
+  baseUrl: string,
+  userId: number,
+  accessToken: string,
+  siteType?: SiteType
+): Promise<CheckInResponse> => {
+  const adapter = getSiteAdapter(siteType)
+  if (!adapter.checkInPath) {
+    throw new ApiError(`${adapter.name} 站点不支持签到`, undefined, '/api/user/checkin')
+  }
+
+  const options = {
+    method: 'POST',
+    headers: createRequestHeaders(userId, accessToken, siteType),
+    credentials: 'omit' as RequestCredentials
+  }
+
+  try {
+    const response = await fetch(`${baseUrl}${adapter.checkInPath}`, options)
 
     if (!response.ok) {
-      throw new ApiError(`请求失败: ${response.status}`, response.status, '/api/pricing')
+      throw new ApiError(`请求失败: ${response.status}`, response.status, adapter.checkInPath)
     }
 
-    const data: PricingResponse = await response.json()
-    
+    const data: ApiResponse<unknown> = await response.json()
+
     if (!data.success) {
-      throw new ApiError('获取定价信息失败', undefined, '/api/pricing')
+      if (data.message && ALREADY_CHECKED_IN_PATTERN.test(data.message)) {
+        return { already: true, reward_quota: 0, message: data.message }
+      }
+      throw new ApiError(data.message || '签到失败', undefined, adapter.checkInPath)
     }
 
-    return data
+    return {
+      already: false,
+      reward_quota: extractCheckInReward(data.data),
+      message: data.message
+    }
   } catch (error) {
-    console.error('获取模型定价失败:', error)
+    console.error('签到失败:', error)
+    throw error
+  }
+}
+
+// ============= 兑换码充值 =============
+
+/**
+ * 使用兑换码为当前账号充值，返回增加的额度 quota
+ */
+export const redeemCode = async (
+  baseUrl: string,
+  userId: number,
+  accessToken: string,
+  code: string,
+  siteType?: SiteType
+): Promise<number> => {
+  const adapter = getSiteAdapter(siteType)
+  if (!adapter.redeemPath) {
+    throw new ApiError(`${adapter.name} 站点不支持兑换码充值`, undefined, '/api/user/topup')
+  }
+
+  const options = {
+    method: 'POST',
+    headers: createRequestHeaders(userId, accessToken, siteType),
+    credentials: 'omit' as RequestCredentials,
+    body: JSON.stringify({ key: code })
+  }
+
+  try {
+    const response = await fetch(`${baseUrl}${adapter.redeemPath}`, options)
+
+    if (!response.ok) {
+      throw new ApiError(`请求失败: ${response.status}`, response.status, adapter.redeemPath)
+    }
+
+    const data: ApiResponse<unknown> = await response.json()
+    if (!data.success) {
+      throw new ApiError(data.message || '兑换失败', undefined, adapter.redeemPath)
+    }
+
+    if (adapter.parseRedeemQuota) {
+      return adapter.parseRedeemQuota(data.data)
+    }
+    const quota = Number(data.data)
+    return Number.isFinite(quota) ? quota : 0
+  } catch (error) {
+    console.error('兑换码充值失败:', error)
     throw error
   }
 }
@@ -760,7 +1212,9 @@ export const determineHealthStatus = (error: any): HealthCheckResult => {
     if (error.statusCode) {
       return {
         status: 'warning',
-        message: `HTTP ${error.statusCode}: ${error.message}`
+        message: `HTTP ${error.statusCode}: ${error.message}`,
+        // 限流和服务端错误通常是暂时的
+        retryable: error.statusCode === 429 || error.statusCode >= 500
       }
     }
     // 其他API错误（数据格式错误等）
@@ -770,11 +1224,21 @@ export const determineHealthStatus = (error: any): HealthCheckResult => {
     }
   }
   
+  // 请求被中止（超时）
+  if (error?.name === 'AbortError') {
+    return {
+      status: 'error',
+      message: '请求超时',
+      retryable: true
+    }
+  }
+  
   // 网络连接失败、超时等HTTP请求失败的情况
   if (error instanceof TypeError && error.message.includes('fetch')) {
     return {
       status: 'error',
-      message: '网络连接失败'
+      message: '网络连接失败',
+      retryable: true
     }
   }
   
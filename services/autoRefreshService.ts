@@ -1,18 +1,43 @@
+import { Storage } from "@plasmohq/storage";
 import { userPreferences } from './userPreferences';
 import { accountStorage } from './accountStorage';
+import { notificationService } from './notificationService';
+import { pricingCache } from './pricingCache';
+import { vaultService } from './vaultService';
+import { getSchedulerInterval, isDueForBackgroundRefresh, isIncludedInBulkRefresh } from '../utils/refreshPolicy';
+import type { AutoRefreshScheduleState, AutoRefreshStatus } from '../types';
+
+// 定时任务名称
+const ALARM_NAME = 'autoRefresh';
+
+// 两次后台刷新之间的最小间隔，避免启动补执行与定时任务同时触发造成重复刷新
+const MIN_REFRESH_GAP_MS = 10 * 1000;
+
+// 存储键名常量
+const STORAGE_KEYS = {
+  SCHEDULE_STATE: 'auto_refresh_state'
+} as const;
 
 /**
  * 自动刷新服务
- * 负责管理后台定时刷新功能
+ * 基于 chrome.alarms 管理后台定时刷新，Service Worker 休眠后仍可唤醒执行
  */
 class AutoRefreshService {
-  private refreshTimer: NodeJS.Timeout | null = null;
+  private storage: Storage;
   private isInitialized = false;
+  private isRefreshing = false;
+
+  constructor() {
+    this.storage = new Storage({
+      area: "local"
+    });
+  }
 
   /**
    * 初始化自动刷新服务
+   * @param catchUp 是否补执行错过的刷新（浏览器启动时）
    */
-  async initialize() {
+  async initialize(catchUp = false) {
     if (this.isInitialized) {
       console.log('[AutoRefresh] 服务已初始化');
       return;
@@ -22,6 +47,10 @@ class AutoRefreshService {
       await this.setupAutoRefresh();
       this.isInitialized = true;
       console.log('[AutoRefresh] 服务初始化成功');
+
+      if (catchUp) {
+        await this.catchUpMissedRefresh();
+      }
     } catch (error) {
       console.error('[AutoRefresh] 服务初始化失败:', error);
     }
@@ -32,49 +61,131 @@ class AutoRefreshService {
    */
   async setupAutoRefresh() {
     try {
-      // 清除现有定时器
-      if (this.refreshTimer) {
-        clearInterval(this.refreshTimer);
-        this.refreshTimer = null;
-        console.log('[AutoRefresh] 已清除现有定时器');
-      }
-
       // 获取用户偏好设置
       const preferences = await userPreferences.getPreferences();
       
       if (!preferences.autoRefresh) {
+        await chrome.alarms.clear(ALARM_NAME);
+        await this.saveState({ next_run_at: undefined });
         console.log('[AutoRefresh] 自动刷新已关闭');
         return;
       }
 
-      // 启动定时刷新
-      const intervalMs = preferences.refreshInterval * 1000;
-      this.refreshTimer = setInterval(async () => {
-        await this.performBackgroundRefresh();
-      }, intervalMs);
+      // 定时任务按所有账号中最短的刷新间隔触发，触发时只刷新到期的账号
+      const accounts = await accountStorage.getAllAccounts();
+      const interval = getSchedulerInterval(accounts, preferences.refreshInterval);
+
+      const state = await this.getState();
+      const intervalMs = interval * 1000;
+      const existing = await chrome.alarms.get(ALARM_NAME);
+
+      // 间隔未变化且定时任务仍存在时保持原有计划，避免每次唤醒都推迟下次刷新
+      if (existing && state.interval === interval) {
+        await this.saveState({ next_run_at: existing.scheduledTime });
+        console.log('[AutoRefresh] 定时任务已存在，保持原有计划');
+        return;
+      }
+
+      // 以上次刷新时间为基准计算下次执行时间
+      const now = Date.now();
+      const nextRunAt = state.last_run_at && state.last_run_at + intervalMs > now
+        ? state.last_run_at + intervalMs
+        : now + intervalMs;
+
+      await chrome.alarms.clear(ALARM_NAME);
+      await chrome.alarms.create(ALARM_NAME, {
+        when: nextRunAt,
+        periodInMinutes: interval / 60 // 浏览器可能将过小的周期限制为 30 秒
+      });
+      await this.saveState({ next_run_at: nextRunAt, interval });
 
-      console.log(`[AutoRefresh] 自动刷新已启动，间隔: ${preferences.refreshInterval}秒`);
+      console.log(`[AutoRefresh] 自动刷新已启动，间隔: ${interval}秒`);
+      this.notifyFrontend('schedule_updated', await this.getStatus());
     } catch (error) {
       console.error('[AutoRefresh] 设置自动刷新失败:', error);
     }
   }
 
+  /**
+   * 处理定时任务触发
+   */
+  async handleAlarm(alarm: chrome.alarms.Alarm) {
+    if (alarm.name !== ALARM_NAME) {
+      return;
+    }
+
+    const state = await this.getState();
+    if (state.last_run_at && Date.now() - state.last_run_at < MIN_REFRESH_GAP_MS) {
+      console.log('[AutoRefresh] 刚刚已执行过刷新，跳过本次定时任务');
+      return;
+    }
+    await this.performBackgroundRefresh();
+  }
+
   /**
    * 执行后台刷新
    */
   private async performBackgroundRefresh() {
+    if (this.isRefreshing) {
+      console.log('[AutoRefresh] 上一次后台刷新尚未完成，跳过');
+      return;
+    }
+
+    // 保险库锁定时访问令牌仍是密文，不能用于刷新、提醒检查和定价预取
+    if (await vaultService.isLocked()) {
+      console.log('[AutoRefresh] 保险库已锁定，跳过后台刷新');
+      return;
+    }
+
+    this.isRefreshing = true;
     try {
       console.log('[AutoRefresh] 开始执行后台刷新');
       
-      // 直接调用accountStorage的刷新方法
-      const result = await accountStorage.refreshAllAccounts();
+      // 只刷新按各自刷新策略已到期的账号
+      const preferences = await userPreferences.getPreferences();
+      const now = Date.now();
+      const result = await accountStorage.refreshAllAccounts({
+        filter: account => isDueForBackgroundRefresh(account, preferences.refreshInterval, now),
+        onProgress: progress => this.notifyFrontend('refresh_progress', progress)
+      });
       console.log(`[AutoRefresh] 后台刷新完成 - 成功: ${result.success}, 失败: ${result.failed}`);
 
+      // 检查低余额和每日预算并发送提醒
+      await notificationService.evaluateAlerts();
+
+      // 记录执行时间和下次执行时间
+      const alarm = await chrome.alarms.get(ALARM_NAME);
+      await this.saveState({ last_run_at: Date.now(), next_run_at: alarm?.scheduledTime });
+
       // 通知前端更新（如果popup是打开的）
       this.notifyFrontend('refresh_completed', result);
+
+      // 顺带预取过期的模型定价（跳过已暂停的账号），打开模型列表时可直接使用缓存
+      const accounts = await accountStorage.getAllAccounts();
+      await pricingCache.prune(accounts);
+      await pricingCache.prefetch(accounts.filter(isIncludedInBulkRefresh));
     } catch (error) {
       console.error('[AutoRefresh] 后台刷新失败:', error);
       this.notifyFrontend('refresh_error', { error: error.message });
+    } finally {
+      this.isRefreshing = false;
+    }
+  }
+
+  /**
+   * 浏览器关闭期间错过的刷新在启动时补执行一次
+   */
+  private async catchUpMissedRefresh() {
+    const preferences = await userPreferences.getPreferences();
+    if (!preferences.autoRefresh) {
+      return;
+    }
+
+    const state = await this.getState();
+    const intervalMs = (state.interval || preferences.refreshInterval) * 1000;
+    if (!state.last_run_at || Date.now() - state.last_run_at >= intervalMs) {
+      console.log('[AutoRefresh] 检测到错过的刷新，立即补执行');
+      await this.performBackgroundRefresh();
     }
   }
 
@@ -84,7 +195,9 @@ class AutoRefreshService {
   async refreshNow(): Promise<{ success: number; failed: number }> {
     try {
       console.log('[AutoRefresh] 执行立即刷新');
-      const result = await accountStorage.refreshAllAccounts();
+      const result = await accountStorage.refreshAllAccounts({
+        onProgress: progress => this.notifyFrontend('refresh_progress', progress)
+      });
       console.log(`[AutoRefresh] 立即刷新完成 - 成功: ${result.success}, 失败: ${result.failed}`);
       return result;
     } catch (error) {
@@ -96,10 +209,10 @@ class AutoRefreshService {
   /**
    * 停止自动刷新
    */
-  stopAutoRefresh() {
-    if (this.refreshTimer) {
-      clearInterval(this.refreshTimer);
-      this.refreshTimer = null;
+  async stopAutoRefresh() {
+    const cleared = await chrome.alarms.clear(ALARM_NAME);
+    await this.saveState({ next_run_at: undefined });
+    if (cleared) {
       console.log('[AutoRefresh] 自动刷新已停止');
     }
   }
@@ -113,7 +226,7 @@ class AutoRefreshService {
   }) {
     try {
       await userPreferences.updateAutoRefreshSettings(settings);
-      await this.setupAutoRefresh(); // 重新设置定时器
+      await this.setupAutoRefresh(); // 重新设置定时任务
       console.log('[AutoRefresh] 设置已更新:', settings);
     } catch (error) {
       console.error('[AutoRefresh] 更新设置失败:', error);
@@ -123,13 +236,45 @@ class AutoRefreshService {
   /**
    * 获取当前状态
    */
-  getStatus() {
+  async getStatus(): Promise<AutoRefreshStatus> {
+    const [alarm, state] = await Promise.all([
+      chrome.alarms.get(ALARM_NAME),
+      this.getState()
+    ]);
     return {
-      isRunning: this.refreshTimer !== null,
-      isInitialized: this.isInitialized
+      isRunning: !!alarm,
+      isInitialized: this.isInitialized,
+      isRefreshing: this.isRefreshing,
+      nextRunAt: alarm?.scheduledTime ?? null,
+      lastRunAt: state.last_run_at ?? null
     };
   }
 
+  /**
+   * 获取持久化的调度状态
+   */
+  private async getState(): Promise<AutoRefreshScheduleState> {
+    try {
+      const state = await this.storage.get(STORAGE_KEYS.SCHEDULE_STATE) as AutoRefreshScheduleState;
+      return state || {};
+    } catch (error) {
+      console.error('[AutoRefresh] 获取调度状态失败:', error);
+      return {};
+    }
+  }
+
+  /**
+   * 合并保存调度状态
+   */
+  private async saveState(updates: Partial<AutoRefreshScheduleState>) {
+    try {
+      const state = await this.getState();
+      await this.storage.set(STORAGE_KEYS.SCHEDULE_STATE, { ...state, ...updates });
+    } catch (error) {
+      console.error('[AutoRefresh] 保存调度状态失败:', error);
+    }
+  }
+
   /**
    * 通知前端
    */
@@ -156,8 +301,8 @@ class AutoRefreshService {
   /**
    * 销毁服务
    */
-  destroy() {
-    this.stopAutoRefresh();
+  async destroy() {
+    await this.stopAutoRefresh();
     this.isInitialized = false;
     console.log('[AutoRefresh] 服务已销毁');
   }
@@ -181,7 +326,7 @@ export const handleAutoRefreshMessage = async (request: any, sendResponse: Funct
         break;
       
       case 'stopAutoRefresh':
-        autoRefreshService.stopAutoRefresh();
+        await autoRefreshService.stopAutoRefresh();
         sendResponse({ success: true });
         break;
       
@@ -191,7 +336,7 @@ export const handleAutoRefreshMessage = async (request: any, sendResponse: Funct
         break;
       
       case 'getAutoRefreshStatus':
-        const status = autoRefreshService.getStatus();
+        const status = await autoRefreshService.getStatus();
         sendResponse({ success: true, data: status });
         break;
       
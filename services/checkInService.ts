@@ -0,0 +1,227 @@
+import { Storage } from "@plasmohq/storage";
+import { accountStorage } from './accountStorage';
+import { accountHistory, getDateKey } from './accountHistory';
+import { performCheckIn, ApiError } from './apiService';
+import { supportsCheckIn } from './siteAdapters';
+import { siteCapabilities } from './siteCapabilities';
+import { vaultService } from './vaultService';
+import type { SiteAccount, CheckInRecord, AccountCheckInState } from "../types";
+
+// 定时任务名称
+const ALARM_NAME = 'dailyCheckIn';
+
+// 定时任务触发间隔（分钟），每次触发只为当日尚未签到的账号签到
+const CHECK_INTERVAL_MINUTES = 60;
+
+// 每个账号每天最多尝试的次数，避免接口持续报错时反复请求
+const MAX_DAILY_ATTEMPTS = 3;
+
+// 站点未开启签到功能时的提示
+const CHECK_IN_DISABLED_PATTERN = /未启用|未开启|not enabled|disabled/i;
+
+// 存储键名常量
+const STORAGE_KEYS = {
+  STATES: 'check_in_states'
+} as const;
+
+/**
+ * 签到服务
+ * 为开启自动签到的账号每天签到一次，签到结果和奖励额度记录到账号历史数据中
+ */
+class CheckInService {
+  private storage: Storage;
+  private isRunning = false;
+
+  constructor() {
+    this.storage = new Storage({
+      area: "local"
+    });
+  }
+
+  /**
+   * 初始化签到定时任务
+   * @param catchUp 是否立即为今日尚未签到的账号签到（浏览器启动时）
+   */
+  async initialize(catchUp = false) {
+    try {
+      const existing = await chrome.alarms.get(ALARM_NAME);
+      if (!existing) {
+        await chrome.alarms.create(ALARM_NAME, {
+          delayInMinutes: 1,
+          periodInMinutes: CHECK_INTERVAL_MINUTES
+        });
+      }
+      console.log('[CheckIn] 签到定时任务已就绪');
+
+      if (catchUp) {
+        await this.runDailyCheckIns();
+      }
+    } catch (error) {
+      console.error('[CheckIn] 初始化签到服务失败:', error);
+    }
+  }
+
+  /**
+   * 处理定时任务触发
+   */
+  async handleAlarm(alarm: chrome.alarms.Alarm) {
+    if (alarm.name !== ALARM_NAME) {
+      return;
+    }
+    await this.runDailyCheckIns();
+  }
+
+  /**
+   * 判断账号是否参与自动签到
+   * 除站点类型和识别结果外，还需签到接口未被探测为不可用（探测结果按站点缓存，过期后重新尝试）
+   */
+  async isAutoCheckInEnabled(account: SiteAccount): Promise<boolean> {
+    if (!account.auto_check_in || !supportsCheckIn(account.site_type, account.site_fingerprint)) {
+      return false;
+    }
+    const capabilities = await siteCapabilities.get(account.site_url);
+    return capabilities?.check_in !== false;
+  }
+
+  /**
+   * 为所有开启自动签到且今日尚未签到的账号依次签到
+   */
+  async runDailyCheckIns(): Promise<{ success: number; failed: number }> {
+    const result = { success: 0, failed: 0 };
+    if (this.isRunning) {
+      console.log('[CheckIn] 上一次签到尚未完成，跳过');
+      return result;
+    }
+
+    // 保险库未解锁时无法使用访问令牌，等待下次定时任务
+    if (await vaultService.isLocked()) {
+      console.log('[CheckIn] 保险库已锁定，跳过签到');
+      return result;
+    }
+
+    this.isRunning = true;
+    try {
+      const [accounts, states] = await Promise.all([
+        accountStorage.getAllAccounts(),
+        this.getStates()
+      ]);
+      const today = getDateKey();
+      const nextStates: Record<string, AccountCheckInState> = {};
+
+      for (const account of accounts) {
+        if (!(await this.isAutoCheckInEnabled(account))) {
+          continue;
+        }
+
+        const previous = states[account.id];
+        const state: AccountCheckInState = previous && previous.date === today
+          ? { ...previous }
+          : { date: today, attempts: 0, completed: false };
+        nextStates[account.id] = state;
+
+        if (state.completed || state.attempts >= MAX_DAILY_ATTEMPTS) {
+          continue;
+        }
+
+        const record = await this.checkInAccount(account);
+        state.attempts += 1;
+        state.completed = record.status !== 'failed';
+        if (state.completed) {
+          result.success++;
+        } else {
+          result.failed++;
+        }
+      }
+
+      // 只保留仍开启自动签到的账号状态，删除账号或关闭签到后自动清理
+      await this.storage.set(STORAGE_KEYS.STATES, nextStates);
+      if (result.success > 0 || result.failed > 0) {
+        console.log(`[CheckIn] 每日签到完成 - 成功: ${result.success}, 失败: ${result.failed}`);
+      }
+    } catch (error) {
+      console.error('[CheckIn] 每日签到失败:', error);
+    } finally {
+      this.isRunning = false;
+    }
+    return result;
+  }
+
+  /**
+   * 为单个账号签到，成功后刷新账号余额并记录到历史数据
+   * 站点未返回奖励额度时，以签到前后的余额差作为奖励额度
+   * 签到结果同时作为接口探测结果按站点缓存，接口不存在或站点未开启签到时停止自动签到
+   */
+  async checkInAccount(account: SiteAccount): Promise<CheckInRecord> {
+    let record: CheckInRecord;
+    try {
+      const response = await performCheckIn(
+        account.site_url,
+        account.account_info.id,
+        account.account_info.access_token,
+        account.site_type
+      );
+      record = {
+        status: response.already ? 'already' : 'success',
+        reward_quota: response.reward_quota,
+        message: response.message,
+        checked_at: Date.now()
+      };
+      if ((await siteCapabilities.get(account.site_url))?.check_in !== true) {
+        await siteCapabilities.update(account.site_url, { check_in: true });
+      }
+    } catch (error) {
+      if (this.isCheckInUnsupported(error)) {
+        console.log(`[CheckIn] ${account.site_name} 不支持签到，暂停自动签到`);
+        await siteCapabilities.update(account.site_url, { check_in: false });
+      }
+      record = {
+        status: 'failed',
+        reward_quota: 0,
+        message: error instanceof Error ? error.message : '未知错误',
+        checked_at: Date.now()
+      };
+    }
+
+    let accountInfo = account.account_info;
+    if (record.status === 'success') {
+      await accountStorage.refreshAccount(account.id);
+      const refreshed = await accountStorage.getAccountById(account.id);
+      if (refreshed) {
+        accountInfo = refreshed.account_info;
+        if (record.reward_quota === 0) {
+          record.reward_quota = Math.max(0, refreshed.account_info.quota - account.account_info.quota);
+        }
+      }
+    }
+
+    await accountHistory.recordCheckIn(account.id, accountInfo, record);
+    console.log(`[CheckIn] ${account.site_name} 签到结果: ${record.status}`, record.message || '');
+    return record;
+  }
+
+  /**
+   * 判断签到失败是否因为站点没有签到接口或未开启签到功能
+   */
+  private isCheckInUnsupported(error: unknown): boolean {
+    if (!(error instanceof ApiError)) {
+      return false;
+    }
+    return error.statusCode === 404 || error.statusCode === 405 || CHECK_IN_DISABLED_PATTERN.test(error.message);
+  }
+
+  /**
+   * 获取各账号的签到状态
+   */
+  private async getStates(): Promise<Record<string, AccountCheckInState>> {
+    try {
+      const states = await this.storage.get(STORAGE_KEYS.STATES) as Record<string, AccountCheckInState>;
+      return states || {};
+    } catch (error) {
+      console.error('[CheckIn] 获取签到状态失败:', error);
+      return {};
+    }
+  }
+}
+
+// 创建单例实例
+export const checkInService = new CheckInService();
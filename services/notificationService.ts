@@ -0,0 +1,305 @@
+import { Storage } from "@plasmohq/storage";
+import { accountStorage } from './accountStorage';
+import { userPreferences, type UserPreferences } from './userPreferences';
+import { getDateKey } from './accountHistory';
+import { UI_CONSTANTS } from '../constants/ui';
+import { calculateBudgetUsage, getReachedBudgetPercent } from '../utils/budgetUtils';
+import type { SiteAccount, AccountAlertState } from "../types";
+
+// 存储键名常量
+const STORAGE_KEYS = {
+  ALERT_STATES: 'account_alert_states'
+} as const;
+
+// 通知 ID 前缀，用于区分通知类型并在点击时定位账号
+const NOTIFICATION_PREFIX = {
+  LOW_BALANCE: 'low-balance:',
+  BUDGET: 'budget:',
+  PRICE_CHANGE: 'price-change:'
+} as const;
+
+// 徽标颜色
+const BADGE_COLOR = '#ef4444';
+
+/**
+ * 提醒通知服务
+ * 负责在后台刷新后检查账号余额与每日预算并发送桌面通知，以及关注模型的涨价提醒
+ */
+class NotificationService {
+  private storage: Storage;
+
+  constructor() {
+    this.storage = new Storage({
+      area: "local"
+    });
+  }
+
+  /**
+   * 检查所有账号的余额和今日预算，发送需要的提醒
+   * 低余额在恢复到阈值以上之前只提醒一次；预算每个百分比每天只提醒一次
+   */
+  async evaluateAlerts(): Promise<void> {
+    try {
+      const [accounts, preferences, states] = await Promise.all([
+        accountStorage.getAllAccounts(),
+        userPreferences.getPreferences(),
+        this.getAlertStates()
+      ]);
+
+      const nextStates: Record<string, AccountAlertState> = {};
+      const alertedAccountIds = new Set<string>();
+
+      for (const account of accounts) {
+        const state: AccountAlertState = { ...states[account.id] };
+
+        if (await this.checkLowBalance(account, preferences, state)) {
+          alertedAccountIds.add(account.id);
+        }
+        if (await this.checkBudget(account, preferences, state)) {
+          alertedAccountIds.add(account.id);
+        }
+
+        nextStates[account.id] = state;
+      }
+
+      // 只保留现存账号的状态
+      await this.storage.set(STORAGE_KEYS.ALERT_STATES, nextStates);
+      await this.updateBadge(alertedAccountIds.size);
+
+      if (alertedAccountIds.size > 0) {
+        console.log(`[Notification] ${alertedAccountIds.size} 个账号余额不足或超出预算`);
+      }
+    } catch (error) {
+      console.error('[Notification] 检查提醒失败:', error);
+    }
+  }
+
+  /**
+   * 发送关注模型涨价的桌面通知
+   */
+  async notifyPriceIncrease(siteName: string, modelNames: string[]): Promise<void> {
+    try {
+      const shownModels = modelNames.slice(0, 3).join('、');
+      const suffix = modelNames.length > 3 ? ` 等 ${modelNames.length} 个模型` : '';
+      await chrome.notifications.create(`${NOTIFICATION_PREFIX.PRICE_CHANGE}${Date.now()}`, {
+        type: 'basic',
+        iconUrl: this.getIconUrl(),
+        title: `${siteName} 模型涨价`,
+        message: `关注的模型 ${shownModels}${suffix} 价格上调，点击查看价格变动记录`,
+        priority: 1
+      });
+    } catch (error) {
+      console.error('[Notification] 发送通知失败:', error);
+    }
+  }
+
+  /**
+   * 处理通知点击：打开对应站点，涨价提醒打开价格变动页面
+   */
+  async handleNotificationClick(notificationId: string): Promise<void> {
+    const prefix = Object.values(NOTIFICATION_PREFIX).find(p => notificationId.startsWith(p));
+    if (!prefix) {
+      return;
+    }
+
+    try {
+      if (prefix === NOTIFICATION_PREFIX.PRICE_CHANGE) {
+        await chrome.tabs.create({ url: chrome.runtime.getURL('options.html#price-changes') });
+        await chrome.notifications.clear(notificationId);
+        return;
+      }
+
+      const accountId = notificationId.slice(prefix.length);
+      const account = await accountStorage.getAccountById(accountId);
+      if (account) {
+        await chrome.tabs.create({ url: account.site_url });
+      }
+      await chrome.notifications.clear(notificationId);
+    } catch (error) {
+      console.error('[Notification] 处理通知点击失败:', error);
+    }
+  }
+
+  /**
+   * 清空提醒状态
+   */
+  async clearAlertStates(): Promise<void> {
+    try {
+      await this.storage.remove(STORAGE_KEYS.ALERT_STATES);
+      await this.updateBadge(0);
+    } catch (error) {
+      console.error('[Notification] 清空提醒状态失败:', error);
+    }
+  }
+
+  // 私有方法
+
+  /**
+   * 检查单个账号的低余额状态，返回账号当前是否处于低余额
+   */
+  private async checkLowBalance(
+    account: SiteAccount,
+    preferences: UserPreferences,
+    state: AccountAlertState
+  ): Promise<boolean> {
+    const threshold = NotificationUtils.getLowBalanceThreshold(account, preferences);
+
+    if (threshold === null) {
+      // 未启用提醒，清除去重状态
+      delete state.low_balance_alerted_at;
+      return false;
+    }
+
+    if (account.health_status !== 'healthy') {
+      // 刷新失败时余额数据不可信，保持原有状态不变，已提醒的账号继续计入徽标
+      return !!state.low_balance_alerted_at;
+    }
+
+    if (!NotificationUtils.isBelowThreshold(account, threshold)) {
+      // 余额已恢复，重新允许提醒
+      delete state.low_balance_alerted_at;
+      return false;
+    }
+
+    if (!state.low_balance_alerted_at) {
+      await this.showLowBalanceNotification(account, threshold);
+      state.low_balance_alerted_at = Date.now();
+    }
+    return true;
+  }
+
+  /**
+   * 检查单个账号的今日预算使用情况，返回账号今日是否已超出预算
+   */
+  private async checkBudget(
+    account: SiteAccount,
+    preferences: UserPreferences,
+    state: AccountAlertState
+  ): Promise<boolean> {
+    const usage = calculateBudgetUsage(account);
+    const today = getDateKey();
+
+    // 跨天后重置当日提醒记录
+    if (state.budget_alert_date !== today) {
+      delete state.budget_alert_date;
+      delete state.budget_alerted_percent;
+    }
+
+    if (!preferences.budgetAlert || usage === null) {
+      return false;
+    }
+
+    if (account.health_status !== 'healthy') {
+      // 刷新失败时保持原有状态，今日已提醒超出预算的账号继续计入徽标
+      return state.budget_alert_date === today && (state.budget_alerted_percent || 0) >= 100;
+    }
+
+    const reachedPercent = getReachedBudgetPercent(usage, preferences.budgetAlertPercents);
+    if (reachedPercent > (state.budget_alerted_percent || 0)) {
+      await this.showBudgetNotification(account, usage, reachedPercent);
+      state.budget_alert_date = today;
+      state.budget_alerted_percent = reachedPercent;
+    }
+
+    return usage >= 100;
+  }
+
+  /**
+   * 发送低余额桌面通知
+   */
+  private async showLowBalanceNotification(account: SiteAccount, threshold: number): Promise<void> {
+    try {
+      const balance = account.account_info.quota / UI_CONSTANTS.EXCHANGE_RATE.CONVERSION_FACTOR;
+      await chrome.notifications.create(`${NOTIFICATION_PREFIX.LOW_BALANCE}${account.id}`, {
+        type: 'basic',
+        iconUrl: this.getIconUrl(),
+        title: `${account.site_name} 余额不足`,
+        message: `当前余额 $${balance.toFixed(2)}，已低于提醒阈值 $${threshold.toFixed(2)}`,
+        priority: 2
+      });
+    } catch (error) {
+      console.error('[Notification] 发送通知失败:', error);
+    }
+  }
+
+  /**
+   * 发送每日预算桌面通知
+   */
+  private async showBudgetNotification(account: SiteAccount, usage: number, reachedPercent: number): Promise<void> {
+    try {
+      const consumption = account.account_info.today_quota_consumption / UI_CONSTANTS.EXCHANGE_RATE.CONVERSION_FACTOR;
+      const title = reachedPercent >= 100
+        ? `${account.site_name} 今日消耗已超出预算`
+        : `${account.site_name} 今日消耗已达预算 ${reachedPercent}%`;
+      await chrome.notifications.create(`${NOTIFICATION_PREFIX.BUDGET}${account.id}`, {
+        type: 'basic',
+        iconUrl: this.getIconUrl(),
+        title,
+        message: `今日已消耗 $${consumption.toFixed(2)}，占每日预算的 ${usage.toFixed(0)}%`,
+        priority: reachedPercent >= 100 ? 2 : 1
+      });
+    } catch (error) {
+      console.error('[Notification] 发送通知失败:', error);
+    }
+  }
+
+  /**
+   * 更新扩展图标徽标
+   */
+  private async updateBadge(count: number): Promise<void> {
+    try {
+      await chrome.action.setBadgeText({ text: count > 0 ? count.toString() : '' });
+      if (count > 0) {
+        await chrome.action.setBadgeBackgroundColor({ color: BADGE_COLOR });
+      }
+    } catch (error) {
+      console.warn('[Notification] 更新徽标失败:', error);
+    }
+  }
+
+  /**
+   * 获取通知图标地址
+   */
+  private getIconUrl(): string {
+    const icons = chrome.runtime.getManifest().icons || {};
+    const iconPath = icons['128'] || Object.values(icons)[0] || '';
+    return chrome.runtime.getURL(iconPath);
+  }
+
+  /**
+   * 获取提醒状态
+   */
+  private async getAlertStates(): Promise<Record<string, AccountAlertState>> {
+    try {
+      const states = await this.storage.get(STORAGE_KEYS.ALERT_STATES) as Record<string, AccountAlertState>;
+      return states || {};
+    } catch (error) {
+      console.error('[Notification] 获取提醒状态失败:', error);
+      return {};
+    }
+  }
+}
+
+// 创建单例实例
+export const notificationService = new NotificationService();
+
+// 工具函数
+export const NotificationUtils = {
+  /**
+   * 获取账号实际生效的低余额阈值（美元），返回 null 表示不提醒
+   */
+  getLowBalanceThreshold(account: SiteAccount, preferences: UserPreferences): number | null {
+    if (!preferences.lowBalanceAlert) {
+      return null;
+    }
+    const threshold = account.low_balance_threshold ?? preferences.lowBalanceThreshold;
+    return threshold > 0 ? threshold : null;
+  },
+
+  /**
+   * 判断账号余额是否低于阈值（美元）
+   */
+  isBelowThreshold(account: SiteAccount, threshold: number): boolean {
+    return account.account_info.quota < threshold * UI_CONSTANTS.EXCHANGE_RATE.CONVERSION_FACTOR;
+  }
+};
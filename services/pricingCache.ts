@@ -0,0 +1,220 @@
+import { Storage } from "@plasmohq/storage";
+import { fetchModelPricing, type PricingResponse } from "./apiService";
+import { runRefreshQueue } from "./refreshQueue";
+import { pricingChangelog } from "./pricingChangelog";
+import type { SiteAccount, SiteType } from "../types";
+
+// 存储键名常量
+const STORAGE_KEYS = {
+  PRICING: 'pricing_cache'
+} as const;
+
+// 定价缓存配置
+export const PRICING_CACHE_CONFIG = {
+  TTL: 6 * 60 * 60 * 1000, // 缓存有效期，过期后在下次访问或后台刷新时重新获取
+  PREFETCH_CONCURRENCY: 2 // 后台预取时同时请求的站点数
+} as const;
+
+// 单个站点的定价缓存
+export interface PricingCacheEntry {
+  data: PricingResponse;
+  fetched_at: number; // 获取时间 (timestamp)
+}
+
+// 读取定价的结果
+export interface CachedPricingResult extends PricingCacheEntry {
+  fromCache: boolean;
+}
+
+/**
+ * 模型定价缓存服务
+ * 按站点和用户缓存 /api/pricing 的结果（可用分组因用户而异），让模型列表可以立即渲染
+ * 弹出页、设置页和后台各自运行，每次访问都从存储读取，不保留内存副本
+ */
+class PricingCacheService {
+  private storage: Storage;
+  private writeQueue: Promise<void> = Promise.resolve(); // 串行化写入，避免并发预取时互相覆盖
+
+  constructor() {
+    this.storage = new Storage({
+      area: "local"
+    });
+  }
+
+  /**
+   * 获取缓存的定价数据（不论是否过期），没有缓存时返回 null
+   */
+  async get(baseUrl: string, userId: number): Promise<PricingCacheEntry | null> {
+    const all = await this.getAll();
+    return all[this.getCacheKey(baseUrl, userId)] || null;
+  }
+
+  /**
+   * 获取定价数据，缓存有效时直接返回，否则请求站点并更新缓存
+   */
+  async getPricing(
+    baseUrl: string,
+    userId: number,
+    accessToken: string,
+    forceRefresh: boolean = false,
+    siteName?: string,
+    siteType?: SiteType
+  ): Promise<CachedPricingResult> {
+    const cached = await this.get(baseUrl, userId);
+    if (!forceRefresh && cached && !this.isStale(cached)) {
+      return { ...cached, fromCache: true };
+    }
+
+    const data = await fetchModelPricing(baseUrl, userId, accessToken, siteType);
+    const entry: PricingCacheEntry = { data, fetched_at: Date.now() };
+    // 格式不兼容的数据不缓存，避免下次直接命中错误数据
+    if (Array.isArray(data.data)) {
+      await this.set(baseUrl, userId, entry, siteName || this.getHostname(baseUrl));
+    }
+    return { ...entry, fromCache: false };
+  }
+
+  /**
+   * 判断缓存是否已过期
+   */
+  isStale(entry: Pick<PricingCacheEntry, 'fetched_at'>): boolean {
+    return Date.now() - entry.fetched_at > PRICING_CACHE_CONFIG.TTL;
+  }
+
+  /**
+   * 使缓存失效，不传参数时清空全部缓存
+   */
+  async invalidate(baseUrl?: string, userId?: number): Promise<void> {
+    return this.enqueueWrite(async () => {
+      if (!baseUrl || userId === undefined) {
+        await this.storage.remove(STORAGE_KEYS.PRICING);
+        return;
+      }
+      const all = await this.getAll();
+      delete all[this.getCacheKey(baseUrl, userId)];
+      await this.saveAll(all);
+    }, '清除定价缓存失败');
+  }
+
+  /**
+   * 后台预取：为缓存缺失或过期的账号获取定价
+   */
+  async prefetch(accounts: SiteAccount[]): Promise<void> {
+    const all = await this.getAll();
+    const staleAccounts = accounts.filter(account => {
+      const entry = all[this.getCacheKey(account.site_url, account.account_info.id)];
+      return !entry || this.isStale(entry);
+    });
+    if (staleAccounts.length === 0) {
+      return;
+    }
+
+    const result = await runRefreshQueue(
+      staleAccounts,
+      async account => {
+        try {
+          await this.getPricing(account.site_url, account.account_info.id, account.account_info.access_token, true, account.site_name, account.site_type);
+          return true;
+        } catch (error) {
+          console.warn(`[PricingCache] 预取 ${account.site_name} 定价失败:`, error);
+          return false;
+        }
+      },
+      { concurrency: PRICING_CACHE_CONFIG.PREFETCH_CONCURRENCY }
+    );
+    console.log(`[PricingCache] 预取定价完成 - 成功: ${result.success}, 失败: ${result.failed}`);
+  }
+
+  /**
+   * 清理已不存在账号的缓存
+   */
+  async prune(accounts: SiteAccount[]): Promise<void> {
+    const validKeys = new Set(accounts.map(account => this.getCacheKey(account.site_url, account.account_info.id)));
+    return this.enqueueWrite(async () => {
+      const all = await this.getAll();
+      const removedKeys = Object.keys(all).filter(key => !validKeys.has(key));
+      if (removedKeys.length === 0) {
+        return;
+      }
+      removedKeys.forEach(key => delete all[key]);
+      await this.saveAll(all);
+    }, '清理定价缓存失败');
+  }
+
+  // 私有方法
+
+  /**
+   * 写入单个站点的缓存，并以存储中的上一次定价作为快照检测价格变动
+   * 比较在写入队列中进行，其他页面刚写入的相同定价不会被重复记录
+   */
+  private async set(baseUrl: string, userId: number, entry: PricingCacheEntry, siteName: string): Promise<void> {
+    return this.enqueueWrite(async () => {
+      const all = await this.getAll();
+      const key = this.getCacheKey(baseUrl, userId);
+      const previous = all[key];
+      all[key] = entry;
+      await this.saveAll(all);
+      if (previous) {
+        await pricingChangelog.recordChanges(baseUrl, siteName, previous.data, entry.data);
+      }
+    }, '保存定价缓存失败');
+  }
+
+  /**
+   * 将写操作加入队列依次执行
+   */
+  private enqueueWrite(task: () => Promise<void>, errorMessage: string): Promise<void> {
+    const run = this.writeQueue.then(task).catch(error => {
+      console.error(`[PricingCache] ${errorMessage}:`, error);
+    });
+    this.writeQueue = run;
+    return run;
+  }
+
+  /**
+   * 从存储读取全部缓存
+   */
+  private async getAll(): Promise<Record<string, PricingCacheEntry>> {
+    try {
+      const all = await this.storage.get(STORAGE_KEYS.PRICING) as Record<string, PricingCacheEntry>;
+      return { ...(all || {}) };
+    } catch (error) {
+      console.error('[PricingCache] 读取定价缓存失败:', error);
+      return {};
+    }
+  }
+
+  /**
+   * 保存全部缓存
+   */
+  private async saveAll(all: Record<string, PricingCacheEntry>): Promise<void> {
+    await this.storage.set(STORAGE_KEYS.PRICING, all);
+  }
+
+  /**
+   * 获取站点主机名，用于缺少站点名称时的显示
+   */
+  private getHostname(baseUrl: string): string {
+    try {
+      return new URL(baseUrl).hostname;
+    } catch {
+      return baseUrl;
+    }
+  }
+
+  /**
+   * 以站点 origin 和用户 ID 作为缓存键
+   */
+  private getCacheKey(baseUrl: string, userId: number): string {
+    let origin: string;
+    try {
+      origin = new URL(baseUrl).origin;
+    } catch {
+      origin = baseUrl.replace(/\/+$/, '');
+    }
+    return `${origin}#${userId}`;
+  }
+}
+
+// 创建单例实例
+export const pricingCache = new PricingCacheService();
@@ -0,0 +1,130 @@
+import { Storage } from "@plasmohq/storage";
+import { userPreferences } from './userPreferences';
+import { notificationService } from './notificationService';
+import { diffPricing, isPriceIncreaseFor } from '../utils/pricingDiff';
+import type { PricingResponse } from './apiService';
+import type { PriceChangeRecord } from "../types";
+
+// 存储键名常量
+const STORAGE_KEYS = {
+  CHANGELOG: 'pricing_changelog'
+} as const;
+
+// 变动记录保留配置
+export const PRICING_CHANGELOG_CONFIG = {
+  MAX_RECORDS: 500 // 最多保留的变动记录数，超出后丢弃最旧的记录
+} as const;
+
+/**
+ * 模型价格变动记录服务
+ * 将新获取的定价与上一次的定价快照比较，记录变动并在关注的模型涨价时提醒
+ */
+class PricingChangelogService {
+  private storage: Storage;
+  private writeQueue: Promise<void> = Promise.resolve(); // 串行化写入，避免并发预取时互相覆盖
+
+  constructor() {
+    this.storage = new Storage({
+      area: "local"
+    });
+  }
+
+  /**
+   * 获取所有变动记录（按检测时间倒序）
+   */
+  async getRecords(): Promise<PriceChangeRecord[]> {
+    try {
+      const records = await this.storage.get(STORAGE_KEYS.CHANGELOG) as PriceChangeRecord[];
+      return Array.isArray(records) ? records : [];
+    } catch (error) {
+      console.error('[PricingChangelog] 获取变动记录失败:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 比较前后两次定价并记录变动，返回本次新增的记录
+   */
+  async recordChanges(
+    siteUrl: string,
+    siteName: string,
+    previous: PricingResponse,
+    next: PricingResponse
+  ): Promise<PriceChangeRecord[]> {
+    const changes = diffPricing(previous, next);
+    if (changes.length === 0) {
+      return [];
+    }
+
+    const detectedAt = Date.now();
+    const records: PriceChangeRecord[] = changes.map((change, index) => ({
+      ...change,
+      id: `${detectedAt}-${index}-${Math.random().toString(36).slice(2, 8)}`,
+      site_url: siteUrl,
+      site_name: siteName,
+      detected_at: detectedAt
+    }));
+
+    await this.enqueueWrite(async () => {
+      const existing = await this.getRecords();
+      await this.storage.set(
+        STORAGE_KEYS.CHANGELOG,
+        [...records, ...existing].slice(0, PRICING_CHANGELOG_CONFIG.MAX_RECORDS)
+      );
+    }, '保存变动记录失败');
+
+    console.log(`[PricingChangelog] ${siteName} 检测到 ${records.length} 项价格变动`);
+    await this.notifyWatchedIncreases(siteName, records, next);
+    return records;
+  }
+
+  /**
+   * 清空变动记录
+   */
+  async clear(): Promise<void> {
+    return this.enqueueWrite(async () => {
+      await this.storage.remove(STORAGE_KEYS.CHANGELOG);
+    }, '清空变动记录失败');
+  }
+
+  // 私有方法
+
+  /**
+   * 关注的模型变贵时发送提醒
+   */
+  private async notifyWatchedIncreases(
+    siteName: string,
+    records: PriceChangeRecord[],
+    pricing: PricingResponse
+  ): Promise<void> {
+    try {
+      const preferences = await userPreferences.getPreferences();
+      if (!preferences.priceChangeAlert || preferences.watchedModels.length === 0) {
+        return;
+      }
+
+      const increasedModels = preferences.watchedModels.filter(modelName =>
+        records.some(record => isPriceIncreaseFor(record, modelName, pricing))
+      );
+      if (increasedModels.length > 0) {
+        await notificationService.notifyPriceIncrease(siteName, increasedModels);
+      }
+    } catch (error) {
+      console.error('[PricingChangelog] 发送涨价提醒失败:', error);
+    }
+  }
+
+  /**
+   * 将写操作加入队列依次执行
+   */
+  private enqueueWrite(task: () => Promise<void>, errorMessage: string): Promise<void> {
+    const run = this.writeQueue.then(task).catch(error => {
+      console.error(`[PricingChangelog] ${errorMessage}:`, error);
+    });
+    this.writeQueue = run;
+    return run;
+  }
+}
+
+// 创建单例实例
+export const pricingChangelog = new PricingChangelogService();
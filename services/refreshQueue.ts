@@ -0,0 +1,106 @@
+import { refreshAccountData, type RefreshAccountResult } from './apiService';
+import type { SiteAccount, RefreshProgress } from "../types";
+
+// 刷新队列配置
+export const REFRESH_QUEUE_CONFIG = {
+  DEFAULT_CONCURRENCY: 4, // 默认同时刷新的站点数
+  DEFAULT_TIMEOUT: 15, // 默认单次请求超时时间（秒），日志翻页时每页单独计时
+  MAX_RETRIES: 2, // 临时错误最多重试次数
+  BASE_RETRY_DELAY: 1000, // 首次重试等待时间（毫秒），之后按指数递增
+  MAX_RETRY_DELAY: 8000 // 单次重试最长等待时间（毫秒）
+} as const;
+
+// 单个账号刷新选项
+export interface RefreshRequestOptions {
+  timeout?: number; // 单次请求超时时间（秒）
+  maxRetries?: number; // 最多重试次数
+}
+
+// 批量刷新选项
+export interface RefreshQueueOptions extends RefreshRequestOptions {
+  concurrency?: number; // 最大并发数
+  onProgress?: (progress: RefreshProgress) => void; // 每完成一个账号回调一次
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * 带超时和重试的账号数据请求
+ * 仅对 determineHealthStatus 判定为临时错误的失败进行指数退避重试
+ */
+export async function fetchAccountDataWithRetry(
+  account: SiteAccount,
+  options: RefreshRequestOptions = {}
+): Promise<RefreshAccountResult> {
+  const timeoutMs = (options.timeout ?? REFRESH_QUEUE_CONFIG.DEFAULT_TIMEOUT) * 1000;
+  const maxRetries = options.maxRetries ?? REFRESH_QUEUE_CONFIG.MAX_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    const result = await refreshAccountData(
+      account.site_url,
+      account.account_info.id,
+      account.account_info.access_token,
+      timeoutMs,
+      account.usage_cursor,
+      account.site_type
+    );
+
+    if (result.success || !result.healthStatus.retryable || attempt >= maxRetries) {
+      return result;
+    }
+
+    const delay = Math.min(
+      REFRESH_QUEUE_CONFIG.BASE_RETRY_DELAY * 2 ** attempt,
+      REFRESH_QUEUE_CONFIG.MAX_RETRY_DELAY
+    );
+    console.warn(`[RefreshQueue] ${account.site_name} 刷新失败（${result.healthStatus.message}），${delay}ms 后第 ${attempt + 1} 次重试`);
+    await sleep(delay);
+  }
+}
+
+/**
+ * 以有限并发依次处理刷新任务，单个任务失败不影响其他任务
+ */
+export async function runRefreshQueue(
+  accounts: SiteAccount[],
+  worker: (account: SiteAccount) => Promise<boolean>,
+  options: RefreshQueueOptions = {}
+): Promise<{ success: number; failed: number }> {
+  const concurrency = Math.max(1, options.concurrency ?? REFRESH_QUEUE_CONFIG.DEFAULT_CONCURRENCY);
+  const progress: RefreshProgress = {
+    total: accounts.length,
+    completed: 0,
+    success: 0,
+    failed: 0
+  };
+  let nextIndex = 0;
+
+  options.onProgress?.({ ...progress });
+
+  const runWorker = async () => {
+    while (nextIndex < accounts.length) {
+      const account = accounts[nextIndex++];
+      let succeeded = false;
+      try {
+        succeeded = await worker(account);
+      } catch (error) {
+        console.error(`刷新账号 ${account.site_name} 失败:`, error);
+      }
+
+      progress.completed++;
+      if (succeeded) {
+        progress.success++;
+      } else {
+        progress.failed++;
+      }
+      progress.current_account_id = account.id;
+      options.onProgress?.({ ...progress });
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, accounts.length) }, runWorker)
+  );
+
+  return { success: progress.success, failed: progress.failed };
+}
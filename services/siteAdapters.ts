@@ -0,0 +1,428 @@
+/**
+ * 站点适配器 - 屏蔽 New API 及其各分支在请求头、接口路径和响应格式上的差异
+ *
+ * 作用：
+ * 1. 为每种站点类型提供统一的日志、令牌和定价请求与解析方式
+ * 2. 根据 /api/status 返回的信息识别站点类型，并提取系统名称、版本和功能开关
+ *
+ * 新增站点类型时，在 SITE_ADAPTERS 中注册适配器并补充 detectSiteType 的识别规则即可
+ */
+
+import type {
+  ApiToken,
+  LogItem,
+  LogQueryParams,
+  LogResponseData,
+  ModelPricing,
+  PricingResponse,
+  SiteStatusInfo
+} from "./apiService"
+import type { SiteFeatureFlags, SiteFingerprint, SiteType } from "../types"
+
+// 以当前账号身份请求站点接口，校验 HTTP 状态和 success 字段后返回完整的 JSON 响应体，由适配器自行校验字段
+export type SiteRequester = (path: string) => Promise<unknown>
+
+// 站点适配器
+export interface SiteAdapter {
+  type: SiteType
+  name: string // 显示名称
+  userIdHeader?: string // 携带用户 ID 的请求头，站点不需要时为空
+  supportsQuotaData: boolean // 是否提供 /api/data/self 聚合用量接口
+  logPageSize?: number // 站点固定的日志分页大小，未设置时可自行指定
+  // 拉取一页日志，page 从 1 开始
+  fetchLogPage: (request: SiteRequester, query: LogQueryParams, page: number, pageSize: number) => Promise<LogResponseData>
+  // 拉取一页令牌，page 从 0 开始（与原有调用保持一致）
+  fetchTokenPage: (request: SiteRequester, page: number, size: number) => Promise<ApiToken[]>
+  // 获取模型定价并转换为 New API 格式，站点不提供定价时为空
+  fetchPricing?: (request: SiteRequester) => Promise<PricingResponse>
+  checkInPath?: string // 每日签到接口（POST），站点不支持签到时为空
+  redeemPath?: string // 兑换码充值接口（POST { key }），站点不支持兑换码时为空
+  // 从兑换接口响应的 data 字段中读取本次增加的额度，未设置时按 data 为额度数值处理
+  parseRedeemQuota?: (data: unknown) => number
+}
+
+// 未识别站点类型时使用的默认类型
+export const DEFAULT_SITE_TYPE: SiteType = 'new-api'
+
+// One API 日志接口固定的分页大小（ITEMS_PER_PAGE 默认值）
+const ONE_API_LOG_PAGE_SIZE = 10
+
+// One Hub 中 1 倍率对应的美元价格（每 1K tokens 或每次调用）
+const ONE_HUB_RATIO_UNIT_USD = 0.002
+
+/**
+ * 判断响应字段是否为普通对象
+ */
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * 取出响应体的 data 字段，响应不是对象时为空
+ */
+const getResponseData = (response: unknown): unknown => {
+  return isRecord(response) ? response.data : undefined
+}
+
+/**
+ * 从日志数组中取出格式正确的日志条目
+ */
+const toLogItems = (value: unknown): LogItem[] => {
+  return Array.isArray(value) ? value.filter(isRecord) as LogItem[] : []
+}
+
+/**
+ * 从令牌列表响应中取出令牌数组，兼容直接数组、items 分页和 data 分页三种格式
+ */
+const extractTokenList = (data: unknown): ApiToken[] => {
+  if (Array.isArray(data)) return data as ApiToken[]
+  if (isRecord(data) && Array.isArray(data.items)) return data.items as ApiToken[]
+  if (isRecord(data) && Array.isArray(data.data)) return data.data as ApiToken[]
+  console.warn('Unexpected token response format:', data)
+  return []
+}
+
+// ============= New API =============
+
+/**
+ * New API 日志查询：/api/log/self?p=&page_size=，返回 { items, total }
+ */
+const fetchNewApiLogPage = async (
+  request: SiteRequester,
+  query: LogQueryParams,
+  page: number,
+  pageSize: number
+): Promise<LogResponseData> => {
+  const params = new URLSearchParams({
+    p: page.toString(),
+    page_size: pageSize.toString(),
+    type: (query.type || 0).toString(),
+    token_name: query.tokenName || '',
+    model_name: query.modelName || '',
+    start_timestamp: query.startTimestamp.toString(),
+    end_timestamp: query.endTimestamp.toString(),
+    group: query.group || ''
+  })
+
+  const pageData = getResponseData(await request(`/api/log/self?${params.toString()}`))
+  if (!isRecord(pageData)) {
+    return { items: [], total: 0 }
+  }
+  return {
+    items: toLogItems(pageData.items),
+    total: typeof pageData.total === 'number' ? pageData.total : 0
+  }
+}
+
+const fetchNewApiTokenPage = async (request: SiteRequester, page: number, size: number): Promise<ApiToken[]> => {
+  const params = new URLSearchParams({
+    p: page.toString(),
+    size: size.toString()
+  })
+  const data = await request(`/api/token/?${params.toString()}`)
+  return extractTokenList(getResponseData(data))
+}
+
+/**
+ * New API 定价接口直接返回 PricingResponse 格式，缺少模型列表时视为格式错误
+ */
+const fetchNewApiPricing = async (request: SiteRequester): Promise<PricingResponse> => {
+  const data = await request('/api/pricing')
+  if (!isRecord(data) || !Array.isArray(data.data)) {
+    throw new Error('定价数据格式错误')
+  }
+  return {
+    success: true,
+    data: data.data.filter(isRecord) as unknown as ModelPricing[],
+    group_ratio: isRecord(data.group_ratio) ? data.group_ratio as Record<string, number> : {},
+    usable_group: isRecord(data.usable_group) ? data.usable_group as Record<string, string> : {}
+  }
+}
+
+// ============= One API =============
+
+/**
+ * One API 日志查询：/api/log/self?p=（从 0 开始），直接返回日志数组且不提供总数
+ * 当前页满页时假定还有下一页
+ */
+const fetchOneApiLogPage = async (
+  request: SiteRequester,
+  query: LogQueryParams,
+  page: number
+): Promise<LogResponseData> => {
+  const params = new URLSearchParams({
+    p: (page - 1).toString(),
+    type: (query.type || 0).toString(),
+    token_name: query.tokenName || '',
+    model_name: query.modelName || '',
+    start_timestamp: query.startTimestamp.toString(),
+    end_timestamp: query.endTimestamp.toString()
+  })
+
+  const items = toLogItems(getResponseData(await request(`/api/log/self?${params.toString()}`)))
+  const hasMore = items.length >= ONE_API_LOG_PAGE_SIZE
+  return {
+    items,
+    total: (page - 1) * ONE_API_LOG_PAGE_SIZE + items.length + (hasMore ? 1 : 0)
+  }
+}
+
+// ============= One Hub / Done Hub =============
+
+/**
+ * One Hub 兑换码响应：data 为增加的额度，部分版本返回包含 quota 的对象
+ */
+const parseOneHubRedeemQuota = (data: unknown): number => {
+  const quota = isRecord(data) ? Number(data.quota) : Number(data)
+  return Number.isFinite(quota) ? quota : 0
+}
+
+/**
+ * One Hub 日志查询：/api/log/self?page=&size=，返回 { data, page, size, total_count }
+ */
+const fetchOneHubLogPage = async (
+  request: SiteRequester,
+  query: LogQueryParams,
+  page: number,
+  pageSize: number
+): Promise<LogResponseData> => {
+  const params = new URLSearchParams({
+    page: page.toString(),
+    size: pageSize.toString(),
+    order: '-created_at',
+    log_type: (query.type || 0).toString(),
+    token_name: query.tokenName || '',
+    model_name: query.modelName || '',
+    start_timestamp: query.startTimestamp.toString(),
+    end_timestamp: query.endTimestamp.toString()
+  })
+
+  const data = getResponseData(await request(`/api/log/self?${params.toString()}`))
+  const pageData: Record<string, unknown> = isRecord(data) ? data : {}
+  const rawItems: unknown[] = Array.isArray(pageData.data) ? pageData.data : []
+  return {
+    // request_time 为毫秒，统一转换为秒
+    items: rawItems.filter(isRecord).map(item => ({
+      ...item,
+      use_time: typeof item.use_time === 'number'
+        ? item.use_time
+        : typeof item.request_time === 'number' ? Math.round(item.request_time / 1000) : undefined
+    }) as LogItem),
+    total: typeof pageData.total_count === 'number' ? pageData.total_count : 0
+  }
+}
+
+const fetchOneHubTokenPage = async (request: SiteRequester, page: number, size: number): Promise<ApiToken[]> => {
+  const params = new URLSearchParams({
+    page: (page + 1).toString(),
+    size: size.toString()
+  })
+  const data = await request(`/api/token/?${params.toString()}`)
+  return extractTokenList(getResponseData(data))
+}
+
+/**
+ * One Hub 定价：/api/available_model 提供模型价格，/api/user_group_map 提供用户分组倍率
+ * 价格以倍率表示（1 = $0.002 / 1K tokens），转换为 New API 的 model_ratio / completion_ratio
+ */
+const fetchOneHubPricing = async (request: SiteRequester): Promise<PricingResponse> => {
+  const [modelsData, groupsData] = await Promise.all([
+    request('/api/available_model'),
+    request('/api/user_group_map').catch(() => null) // 旧版本没有分组接口，按 1 倍计算
+  ])
+
+  const groupRatio: Record<string, number> = {}
+  const usableGroup: Record<string, string> = {}
+  const groupsMap = getResponseData(groupsData)
+  const groups: Record<string, unknown> = isRecord(groupsMap) ? groupsMap : {}
+  Object.entries(groups).forEach(([group, info]) => {
+    const groupInfo = isRecord(info) ? info : {}
+    groupRatio[group] = typeof groupInfo.ratio === 'number' ? groupInfo.ratio : 1
+    usableGroup[group] = typeof groupInfo.name === 'string' && groupInfo.name ? groupInfo.name : group
+  })
+
+  const modelsMap = getResponseData(modelsData)
+  const availableModels: Record<string, unknown> = isRecord(modelsMap) ? modelsMap : {}
+  const models: ModelPricing[] = Object.entries(availableModels).map(([modelName, info]) => {
+    const modelInfo = isRecord(info) ? info : {}
+    const price = isRecord(modelInfo.price) ? modelInfo.price : {}
+    const input = Number(price.input) || 0
+    const output = Number(price.output) || 0
+    const isPerCall = price.type === 'times'
+    return {
+      model_name: modelName,
+      owner_by: typeof modelInfo.owned_by === 'string' ? modelInfo.owned_by : undefined,
+      quota_type: isPerCall ? 1 : 0,
+      model_ratio: isPerCall ? 0 : input,
+      completion_ratio: !isPerCall && input > 0 ? output / input : 1,
+      model_price: isPerCall ? input * ONE_HUB_RATIO_UNIT_USD : 0,
+      enable_groups: Array.isArray(modelInfo.groups)
+        ? modelInfo.groups.filter((group): group is string => typeof group === 'string')
+        : [],
+      supported_endpoint_types: []
+    }
+  })
+
+  return {
+    success: true,
+    data: models,
+    group_ratio: groupRatio,
+    usable_group: usableGroup
+  }
+}
+
+// ============= 适配器注册表 =============
+
+const NEW_API_ADAPTER: SiteAdapter = {
+  type: 'new-api',
+  name: 'New API',
+  userIdHeader: 'New-API-User',
+  supportsQuotaData: true,
+  fetchLogPage: fetchNewApiLogPage,
+  fetchTokenPage: fetchNewApiTokenPage,
+  fetchPricing: fetchNewApiPricing,
+  checkInPath: '/api/user/checkin',
+  redeemPath: '/api/user/topup'
+}
+
+const ONE_HUB_ADAPTER: SiteAdapter = {
+  type: 'one-hub',
+  name: 'One Hub',
+  supportsQuotaData: false,
+  fetchLogPage: fetchOneHubLogPage,
+  fetchTokenPage: fetchOneHubTokenPage,
+  fetchPricing: fetchOneHubPricing,
+  redeemPath: '/api/user/topup',
+  parseRedeemQuota: parseOneHubRedeemQuota
+}
+
+export const SITE_ADAPTERS: Record<SiteType, SiteAdapter> = {
+  'new-api': NEW_API_ADAPTER,
+  'veloera': {
+    ...NEW_API_ADAPTER,
+    type: 'veloera',
+    name: 'Veloera',
+    userIdHeader: 'Veloera-User',
+    checkInPath: '/api/user/check_in'
+  },
+  'one-api': {
+    type: 'one-api',
+    name: 'One API',
+    supportsQuotaData: false,
+    logPageSize: ONE_API_LOG_PAGE_SIZE,
+    fetchLogPage: fetchOneApiLogPage,
+    fetchTokenPage: fetchNewApiTokenPage,
+    redeemPath: '/api/user/topup'
+  },
+  'one-hub': ONE_HUB_ADAPTER,
+  'done-hub': {
+    ...ONE_HUB_ADAPTER,
+    type: 'done-hub',
+    name: 'Done Hub'
+  }
+}
+
+/**
+ * 获取站点类型对应的适配器，未设置或未知类型时使用 New API 适配器
+ */
+export const getSiteAdapter = (siteType?: SiteType): SiteAdapter => {
+  return (siteType && SITE_ADAPTERS[siteType]) || SITE_ADAPTERS[DEFAULT_SITE_TYPE]
+}
+
+/**
+ * 获取站点类型的显示名称
+ */
+export const getSiteTypeName = (siteType?: SiteType): string => {
+  return getSiteAdapter(siteType).name
+}
+
+/**
+ * 根据 /api/status 的返回内容识别站点类型
+ * 优先匹配系统名称和版本号，其次根据各分支特有的字段判断；无法获取状态时按 New API 处理
+ */
+export const detectSiteType = (statusInfo: SiteStatusInfo | null): SiteType => {
+  if (!statusInfo) {
+    return DEFAULT_SITE_TYPE
+  }
+
+  const identity = `${statusInfo.system_name || ''} ${statusInfo.version || ''}`.toLowerCase()
+  if (identity.includes('veloera')) return 'veloera'
+  if (/done[\s-]?hub/.test(identity)) return 'done-hub'
+  if (/one[\s-]?hub/.test(identity)) return 'one-hub'
+
+  const hasField = (field: string) => field in statusInfo
+  if (hasField('chat_links') || hasField('lark_client_id') || hasField('oidc_auth')) {
+    return 'one-hub'
+  }
+  if (hasField('quota_display_type') || hasField('data_export_enabled') || hasField('setup') || hasField('docs_link')) {
+    return 'new-api'
+  }
+  return 'one-api'
+}
+
+/**
+ * 读取状态中的布尔开关，任一字段为 true 即视为开启；字段都不存在时返回 undefined
+ */
+const readFlag = (statusInfo: SiteStatusInfo, fields: string[]): boolean | undefined => {
+  const values = fields.filter(field => field in statusInfo).map(field => statusInfo[field])
+  if (values.length === 0) return undefined
+  return values.some(value => value === true)
+}
+
+/**
+ * 从 /api/status 的返回内容中提取站点指纹
+ */
+export const extractSiteFingerprint = (baseUrl: string, statusInfo: SiteStatusInfo | null): SiteFingerprint | null => {
+  if (!statusInfo) {
+    return null
+  }
+
+  // 各分支的字段命名不一致，逐一兼容
+  const features: SiteFeatureFlags = {
+    check_in: readFlag(statusInfo, ['check_in_enabled', 'checkin_enabled']),
+    data_export: readFlag(statusInfo, ['data_export_enabled']),
+    online_top_up: readFlag(statusInfo, ['enable_online_topup', 'stripe_enabled']),
+    drawing: readFlag(statusInfo, ['enable_drawing', 'mj_notify_enabled']),
+    turnstile: readFlag(statusInfo, ['turnstile_check'])
+  }
+
+  let logo: string | undefined
+  if (typeof statusInfo.logo === 'string' && statusInfo.logo.trim()) {
+    try {
+      logo = new URL(statusInfo.logo.trim(), baseUrl).href // logo 可能是相对路径
+    } catch {
+      logo = undefined
+    }
+  }
+
+  return {
+    system_name: typeof statusInfo.system_name === 'string' ? statusInfo.system_name.trim() || undefined : undefined,
+    version: typeof statusInfo.version === 'string' ? statusInfo.version.trim() || undefined : undefined,
+    logo,
+    features,
+    detected_at: Date.now()
+  }
+}
+
+/**
+ * 获取站点程序和版本的显示文本，如 "New API v0.8.1"
+ */
+export const getSiteProductLabel = (siteType?: SiteType, fingerprint?: SiteFingerprint): string => {
+  const name = getSiteTypeName(siteType)
+  if (!fingerprint?.version) {
+    return name
+  }
+  const version = fingerprint.version.startsWith('v') ? fingerprint.version : `v${fingerprint.version}`
+  return `${name} ${version}`
+}
+
+/**
+ * 判断账号所在站点是否支持每日签到
+ * 适配器需提供签到接口；站点状态明确关闭签到时视为不支持，未返回开关时按支持处理
+ */
+export const supportsCheckIn = (siteType?: SiteType, fingerprint?: SiteFingerprint): boolean => {
+  if (!getSiteAdapter(siteType).checkInPath) {
+    return false
+  }
+  return fingerprint?.features.check_in !== false
+}
@@ -0,0 +1,105 @@
+import { Storage } from "@plasmohq/storage";
+import type { SiteCapabilities } from "../types";
+
+// 存储键名常量
+const STORAGE_KEYS = {
+  CAPABILITIES: 'site_capabilities'
+} as const;
+
+// 探测结果有效期，过期后重新探测（站点可能升级或调整配置）
+const CAPABILITY_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * 站点能力缓存服务
+ * 按站点记录接口探测结果，避免每次刷新都重复探测
+ * 弹出页和后台可能同时写入不同站点或字段，每次写入都重新读取存储并只合并对应站点
+ */
+class SiteCapabilitiesService {
+  private storage: Storage;
+  private writeQueue: Promise<void> = Promise.resolve(); // 串行化写入，避免同一页面内并发探测时互相覆盖
+
+  constructor() {
+    this.storage = new Storage({
+      area: "local"
+    });
+  }
+
+  /**
+   * 获取站点能力，未探测或已过期时返回 null
+   */
+  async get(baseUrl: string): Promise<SiteCapabilities | null> {
+    const all = await this.getAll();
+    const capabilities = all[this.getSiteKey(baseUrl)];
+    if (!capabilities || Date.now() - capabilities.checked_at > CAPABILITY_TTL) {
+      return null;
+    }
+    return capabilities;
+  }
+
+  /**
+   * 更新站点能力
+   */
+  async update(baseUrl: string, updates: Omit<SiteCapabilities, 'checked_at'>): Promise<void> {
+    return this.enqueueWrite(async () => {
+      const all = await this.getAll();
+      const key = this.getSiteKey(baseUrl);
+      all[key] = { ...all[key], ...updates, checked_at: Date.now() };
+      await this.storage.set(STORAGE_KEYS.CAPABILITIES, all);
+    }, '保存站点能力失败');
+  }
+
+  /**
+   * 清除站点能力缓存
+   */
+  async clear(baseUrl?: string): Promise<void> {
+    return this.enqueueWrite(async () => {
+      if (!baseUrl) {
+        await this.storage.remove(STORAGE_KEYS.CAPABILITIES);
+        return;
+      }
+      const all = await this.getAll();
+      delete all[this.getSiteKey(baseUrl)];
+      await this.storage.set(STORAGE_KEYS.CAPABILITIES, all);
+    }, '清除站点能力失败');
+  }
+
+  // 私有方法
+
+  /**
+   * 将写操作加入队列依次执行
+   */
+  private enqueueWrite(task: () => Promise<void>, errorMessage: string): Promise<void> {
+    const run = this.writeQueue.then(task).catch(error => {
+      console.error(`[SiteCapabilities] ${errorMessage}:`, error);
+    });
+    this.writeQueue = run;
+    return run;
+  }
+
+  /**
+   * 从存储读取全部站点能力
+   */
+  private async getAll(): Promise<Record<string, SiteCapabilities>> {
+    try {
+      const all = await this.storage.get(STORAGE_KEYS.CAPABILITIES) as Record<string, SiteCapabilities>;
+      return { ...(all || {}) };
+    } catch (error) {
+      console.error('[SiteCapabilities] 读取站点能力失败:', error);
+      return {};
+    }
+  }
+
+  /**
+   * 以站点 origin 作为缓存键，忽略末尾斜杠等差异
+   */
+  private getSiteKey(baseUrl: string): string {
+    try {
+      return new URL(baseUrl).origin;
+    } catch {
+      return baseUrl.replace(/\/+$/, '');
+    }
+  }
+}
+
+// 创建单例实例
+export const siteCapabilities = new SiteCapabilitiesService();
@@ -1,5 +1,7 @@
 import { Storage } from "@plasmohq/storage";
 import { webdavService } from './webdavService';
+import { EMPTY_ACCOUNT_FILTER, normalizeAccountFilter, type AccountFilter } from '../utils/accountFilter';
+import { MIN_REFRESH_INTERVAL } from '../utils/refreshPolicy';
 
 // 用户偏好设置类型定义
 export interface UserPreferences {
@@ -8,15 +10,26 @@ export interface UserPreferences {
   currencyType: 'USD' | 'CNY';           // 金额单位
 
   // AccountList 相关配置
-  sortField: 'name' | 'balance' | 'consumption';  // 排序字段
+  sortField: 'name' | 'balance' | 'consumption' | 'manual';  // 排序字段
   sortOrder: 'asc' | 'desc';                      // 排序顺序
+  accountFilter: AccountFilter;                   // 上次使用的筛选条件
 
   // 自动刷新相关配置
   autoRefresh: boolean;                  // 是否启用定时自动刷新
   refreshInterval: number;               // 刷新间隔（秒）
   refreshOnOpen: boolean;                // 打开插件时自动刷新
+  refreshConcurrency: number;            // 批量刷新时同时请求的站点数
+  refreshTimeout: number;                // 单个站点请求超时时间（秒）
   showHealthStatus: boolean;             // 是否显示健康状态
 
+  // 提醒相关配置
+  lowBalanceAlert: boolean;              // 是否启用低余额提醒
+  lowBalanceThreshold: number;           // 默认低余额提醒阈值（美元）
+  budgetAlert: boolean;                  // 是否启用每日预算提醒
+  budgetAlertPercents: number[];         // 预算提醒百分比（如 50/80/100）
+  priceChangeAlert: boolean;             // 关注的模型涨价时是否提醒
+  watchedModels: string[];               // 关注的模型名称
+
   // 其他配置可在此扩展
   lastUpdated: number;  // 最后更新时间
 }
@@ -32,10 +45,19 @@ const DEFAULT_PREFERENCES: UserPreferences = {
   currencyType: 'USD',
   sortField: 'balance',  // 与 UI_CONSTANTS.SORT.DEFAULT_FIELD 保持一致
   sortOrder: 'desc',     // 与 UI_CONSTANTS.SORT.DEFAULT_ORDER 保持一致
+  accountFilter: EMPTY_ACCOUNT_FILTER,
   autoRefresh: true,     // 默认启用自动刷新
   refreshInterval: 360,  // 默认360秒刷新间隔
   refreshOnOpen: true,   // 默认打开插件时自动刷新
+  refreshConcurrency: 4, // 默认同时刷新4个站点
+  refreshTimeout: 15,    // 默认单个站点15秒超时
   showHealthStatus: true,// 默认显示健康状态
+  lowBalanceAlert: false, // 默认关闭低余额提醒，需用户主动开启
+  lowBalanceThreshold: 1,// 默认余额低于1美元时提醒
+  budgetAlert: true,     // 默认启用预算提醒
+  budgetAlertPercents: [50, 80, 100], // 默认在预算使用 50%/80%/100% 时提醒
+  priceChangeAlert: true, // 默认启用涨价提醒（仅对关注的模型生效）
+  watchedModels: [],
   lastUpdated: Date.now()
 };
 
@@ -54,7 +76,10 @@ class UserPreferencesService {
   async getPreferences(): Promise<UserPreferences> {
     try {
       const preferences = await this.storage.get(STORAGE_KEYS.USER_PREFERENCES) as UserPreferences;
-      return preferences || DEFAULT_PREFERENCES;
+      // 合并默认值，兼容旧版本保存的设置中缺少的新字段
+      return preferences
+        ? { ...DEFAULT_PREFERENCES, ...preferences, accountFilter: normalizeAccountFilter(preferences.accountFilter) }
+        : DEFAULT_PREFERENCES;
     } catch (error) {
       console.error('获取用户偏好设置失败:', error);
       return DEFAULT_PREFERENCES;
@@ -130,13 +155,13 @@ class UserPreferencesService {
   /**
    * 更新排序配置
    */
-  async updateSortConfig(sortField: 'name' | 'balance' | 'consumption', sortOrder: 'asc' | 'desc'): Promise<boolean> {
+  async updateSortConfig(sortField: 'name' | 'balance' | 'consumption' | 'manual', sortOrder: 'asc' | 'desc'): Promise<boolean> {
     const result = await this.savePreferences({ sortField, sortOrder }, true);
     if (result) {
       // 触发详细的WebDAV同步
       try {
         const fieldName = UserPreferencesUtils.getSortFieldDisplayName(sortField);
-        const orderName = UserPreferencesUtils.getSortOrderDisplayName(sortOrder);
+        const orderName = sortField === 'manual' ? '' : UserPreferencesUtils.getSortOrderDisplayName(sortOrder);
         await webdavService.syncOnDataChange(`更新排序设置: 按${fieldName}${orderName}排列`);
       } catch (error) {
         console.error('[UserPreferences] WebDAV同步失败:', error);
@@ -145,6 +170,14 @@ class UserPreferencesService {
     return result;
   }
 
+  /**
+   * 更新账号列表筛选条件
+   * 筛选条件只是界面状态，且输入关键词时会频繁更新，因此不触发WebDAV同步
+   */
+  async updateAccountFilter(accountFilter: AccountFilter): Promise<boolean> {
+    return this.savePreferences({ accountFilter }, true);
+  }
+
   /**
    * 更新自动刷新设置
    */
@@ -224,6 +257,110 @@ class UserPreferencesService {
     return result;
   }
 
+  /**
+   * 更新批量刷新设置（并发数、超时时间）
+   */
+  async updateRefreshQueueSettings(settings: {
+    refreshConcurrency?: number;
+    refreshTimeout?: number;
+  }): Promise<boolean> {
+    const result = await this.savePreferences(settings, true);
+    if (result) {
+      // 触发详细的WebDAV同步
+      try {
+        const parts: string[] = [];
+        if (settings.refreshConcurrency !== undefined) {
+          parts.push(`并发数: ${settings.refreshConcurrency}`);
+        }
+        if (settings.refreshTimeout !== undefined) {
+          parts.push(`超时时间: ${settings.refreshTimeout}秒`);
+        }
+        await webdavService.syncOnDataChange(`更新刷新设置: ${parts.join(', ')}`);
+      } catch (error) {
+        console.error('[UserPreferences] WebDAV同步失败:', error);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 更新低余额提醒设置
+   */
+  async updateLowBalanceAlertSettings(settings: {
+    lowBalanceAlert?: boolean;
+    lowBalanceThreshold?: number;
+  }): Promise<boolean> {
+    const result = await this.savePreferences(settings, true);
+    if (result) {
+      // 触发详细的WebDAV同步
+      try {
+        const parts: string[] = [];
+        if (settings.lowBalanceAlert !== undefined) {
+          parts.push(`${settings.lowBalanceAlert ? '开启' : '关闭'}低余额提醒`);
+        }
+        if (settings.lowBalanceThreshold !== undefined) {
+          parts.push(`低余额阈值: $${settings.lowBalanceThreshold}`);
+        }
+        await webdavService.syncOnDataChange(`更新提醒设置: ${parts.join(', ')}`);
+      } catch (error) {
+        console.error('[UserPreferences] WebDAV同步失败:', error);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 更新每日预算提醒设置
+   */
+  async updateBudgetAlertSettings(settings: {
+    budgetAlert?: boolean;
+    budgetAlertPercents?: number[];
+  }): Promise<boolean> {
+    const result = await this.savePreferences(settings, true);
+    if (result) {
+      // 触发详细的WebDAV同步
+      try {
+        const parts: string[] = [];
+        if (settings.budgetAlert !== undefined) {
+          parts.push(`${settings.budgetAlert ? '开启' : '关闭'}预算提醒`);
+        }
+        if (settings.budgetAlertPercents !== undefined) {
+          parts.push(`提醒百分比: ${settings.budgetAlertPercents.join('/')}%`);
+        }
+        await webdavService.syncOnDataChange(`更新提醒设置: ${parts.join(', ')}`);
+      } catch (error) {
+        console.error('[UserPreferences] WebDAV同步失败:', error);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 更新价格变动提醒设置
+   */
+  async updatePriceChangeAlertSettings(settings: {
+    priceChangeAlert?: boolean;
+    watchedModels?: string[];
+  }): Promise<boolean> {
+    const result = await this.savePreferences(settings, true);
+    if (result) {
+      // 触发详细的WebDAV同步
+      try {
+        const parts: string[] = [];
+        if (settings.priceChangeAlert !== undefined) {
+          parts.push(`${settings.priceChangeAlert ? '开启' : '关闭'}涨价提醒`);
+        }
+        if (settings.watchedModels !== undefined) {
+          parts.push(`关注模型: ${settings.watchedModels.length} 个`);
+        }
+        await webdavService.syncOnDataChange(`更新提醒设置: ${parts.join(', ')}`);
+      } catch (error) {
+        console.error('[UserPreferences] WebDAV同步失败:', error);
+      }
+    }
+    return result;
+  }
+
   /**
    * 重置为默认设置
    */
@@ -305,21 +442,43 @@ export const UserPreferencesUtils = {
       errors.push('currencyType 必须是 "USD" 或 "CNY"');
     }
 
-    if (preferences.sortField && !['name', 'balance', 'consumption'].includes(preferences.sortField)) {
-      errors.push('sortField 必须是 "name", "balance" 或 "consumption"');
+    if (preferences.sortField && !['name', 'balance', 'consumption', 'manual'].includes(preferences.sortField)) {
+      errors.push('sortField 必须是 "name", "balance", "consumption" 或 "manual"');
     }
 
     if (preferences.sortOrder && !['asc', 'desc'].includes(preferences.sortOrder)) {
       errors.push('sortOrder 必须是 "asc" 或 "desc"');
     }
 
+    if (preferences.accountFilter !== undefined) {
+      const filter = preferences.accountFilter;
+      if (!filter || typeof filter.query !== 'string') {
+        errors.push('accountFilter.query 必须是字符串');
+      } else if (filter.maxBalance !== null && filter.maxBalance !== undefined &&
+          (typeof filter.maxBalance !== 'number' || filter.maxBalance < 0)) {
+        errors.push('accountFilter.maxBalance 必须是非负数');
+      }
+    }
+
     if (preferences.autoRefresh !== undefined && typeof preferences.autoRefresh !== 'boolean') {
       errors.push('autoRefresh 必须是布尔值');
     }
 
     if (preferences.refreshInterval !== undefined) {
-      if (typeof preferences.refreshInterval !== 'number' || preferences.refreshInterval < 10) {
-        errors.push('refreshInterval 必须大于等于10秒');
+      if (typeof preferences.refreshInterval !== 'number' || preferences.refreshInterval < MIN_REFRESH_INTERVAL) {
+        errors.push(`refreshInterval 必须大于等于${MIN_REFRESH_INTERVAL}秒`);
+      }
+    }
+
+    if (preferences.refreshConcurrency !== undefined) {
+      if (typeof preferences.refreshConcurrency !== 'number' || preferences.refreshConcurrency < 1) {
+        errors.push('refreshConcurrency 必须大于等于1');
+      }
+    }
+
+    if (preferences.refreshTimeout !== undefined) {
+      if (typeof preferences.refreshTimeout !== 'number' || preferences.refreshTimeout < 1) {
+        errors.push('refreshTimeout 必须大于等于1秒');
       }
     }
 
@@ -331,6 +490,38 @@ export const UserPreferencesUtils = {
       errors.push('showHealthStatus 必须是布尔值');
     }
 
+    if (preferences.lowBalanceAlert !== undefined && typeof preferences.lowBalanceAlert !== 'boolean') {
+      errors.push('lowBalanceAlert 必须是布尔值');
+    }
+
+    if (preferences.lowBalanceThreshold !== undefined) {
+      if (typeof preferences.lowBalanceThreshold !== 'number' || preferences.lowBalanceThreshold < 0) {
+        errors.push('lowBalanceThreshold 必须是非负数');
+      }
+    }
+
+    if (preferences.budgetAlert !== undefined && typeof preferences.budgetAlert !== 'boolean') {
+      errors.push('budgetAlert 必须是布尔值');
+    }
+
+    if (preferences.budgetAlertPercents !== undefined) {
+      if (!Array.isArray(preferences.budgetAlertPercents) ||
+          preferences.budgetAlertPercents.some(percent => typeof percent !== 'number' || percent <= 0)) {
+        errors.push('budgetAlertPercents 必须是正数数组');
+      }
+    }
+
+    if (preferences.priceChangeAlert !== undefined && typeof preferences.priceChangeAlert !== 'boolean') {
+      errors.push('priceChangeAlert 必须是布尔值');
+    }
+
+    if (preferences.watchedModels !== undefined) {
+      if (!Array.isArray(preferences.watchedModels) ||
+          preferences.watchedModels.some(model => typeof model !== 'string')) {
+        errors.push('watchedModels 必须是字符串数组');
+      }
+    }
+
     return errors;
   },
 
@@ -351,11 +542,12 @@ export const UserPreferencesUtils = {
   /**
    * 获取排序字段的显示名称
    */
-  getSortFieldDisplayName(field: 'name' | 'balance' | 'consumption'): string {
+  getSortFieldDisplayName(field: 'name' | 'balance' | 'consumption' | 'manual'): string {
     switch (field) {
       case 'name': return '账号名称';
       case 'balance': return '余额';
       case 'consumption': return '今日消耗';
+      case 'manual': return '手动顺序';
       default: return '未知';
     }
   },
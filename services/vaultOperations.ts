@@ -0,0 +1,70 @@
+import { vaultService } from "./vaultService"
+import { accountStorage } from "./accountStorage"
+import { webdavService } from "./webdavService"
+
+// 口令最小长度
+export const MIN_PASSPHRASE_LENGTH = 8
+
+/**
+ * 校验新口令
+ * @returns 错误信息，校验通过时为空
+ */
+export function validatePassphrase(passphrase: string, confirmation: string): string | null {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    return `口令至少需要 ${MIN_PASSPHRASE_LENGTH} 个字符`
+  }
+  if (passphrase !== confirmation) {
+    return '两次输入的口令不一致'
+  }
+  return null
+}
+
+/**
+ * 按当前保险库状态重新保存所有敏感数据
+ * @returns 无法解密、仍以密文保存的字段数量
+ */
+async function resaveSecrets(): Promise<number> {
+  const failedAccounts = await accountStorage.resaveAccounts()
+  const failedWebdav = await webdavService.resaveConfig()
+  return failedAccounts + failedWebdav
+}
+
+/**
+ * 启用保险库，加密已保存的访问令牌和 WebDAV 密码
+ */
+export async function enableVault(passphrase: string): Promise<void> {
+  const status = await vaultService.getStatus()
+  if (status.enabled) {
+    throw new Error('保险库已启用')
+  }
+  await vaultService.enable(passphrase)
+  await resaveSecrets()
+}
+
+/**
+ * 停用保险库，将访问令牌和 WebDAV 密码恢复为明文保存
+ * 有数据无法解密时取消停用并重新加密，保留密钥以免这些数据永久无法恢复
+ * @returns 口令是否正确
+ */
+export async function disableVault(passphrase: string): Promise<boolean> {
+  const verified = await vaultService.beginDisable(passphrase)
+  if (!verified) {
+    return false
+  }
+  const failed = await resaveSecrets()
+  if (failed > 0) {
+    await vaultService.cancelDisable()
+    await resaveSecrets()
+    throw new Error(`有 ${failed} 项数据无法解密，已取消停用保险库`)
+  }
+  await vaultService.clear()
+  return true
+}
+
+/**
+ * 修改保险库口令，只重新加密数据密钥，访问令牌和 WebDAV 密码始终保持加密
+ * @returns 旧口令是否正确
+ */
+export async function changeVaultPassphrase(oldPassphrase: string, newPassphrase: string): Promise<boolean> {
+  return vaultService.changePassphrase(oldPassphrase, newPassphrase)
+}
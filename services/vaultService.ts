@@ -0,0 +1,291 @@
+import { Storage } from "@plasmohq/storage";
+import {
+  PBKDF2_ITERATIONS,
+  generateSalt,
+  generateRawKey,
+  deriveKey,
+  importKey,
+  encryptText,
+  decryptText
+} from '../utils/crypto';
+import type { VaultConfig, VaultStatus } from "../types";
+
+// 存储键名常量
+const STORAGE_KEYS = {
+  CONFIG: 'vault_config', // 保险库配置（local）
+  SESSION_KEY: 'vault_session_key' // 解锁后的密钥（session，浏览器关闭后自动清除）
+} as const;
+
+// 加密后的敏感字段前缀，格式为 vault:v1:<iv>:<data>
+const SECRET_PREFIX = 'vault:v1:';
+
+// 用于校验口令的固定明文
+const VERIFIER_TEXT = 'one-api-hub-vault';
+
+/**
+ * 保险库服务
+ * 启用后访问令牌和 WebDAV 密码使用随机生成的数据密钥加密存储，数据密钥再以口令派生的密钥加密保存，
+ * 修改口令时只需重新加密数据密钥。每次浏览器会话需要输入口令解锁一次，解锁后的数据密钥只保存在会话存储中
+ */
+class VaultService {
+  private storage: Storage;
+  private sessionStorage: Storage;
+  private cachedKey: { raw: string; key: CryptoKey } | null = null;
+
+  constructor() {
+    this.storage = new Storage({
+      area: "local"
+    });
+    this.sessionStorage = new Storage({
+      area: "session"
+    });
+  }
+
+  /**
+   * 获取保险库配置，未启用时为空
+   */
+  async getConfig(): Promise<VaultConfig | null> {
+    try {
+      const config = await this.storage.get(STORAGE_KEYS.CONFIG) as VaultConfig;
+      return config || null;
+    } catch (error) {
+      console.error('[Vault] 获取保险库配置失败:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 获取保险库状态
+   */
+  async getStatus(): Promise<VaultStatus> {
+    const config = await this.getConfig();
+    const enabled = !!config?.enabled;
+    return {
+      enabled,
+      unlocked: enabled && (await this.getKey()) !== null
+    };
+  }
+
+  /**
+   * 保险库已启用但当前会话尚未解锁
+   */
+  async isLocked(): Promise<boolean> {
+    const status = await this.getStatus();
+    return status.enabled && !status.unlocked;
+  }
+
+  /**
+   * 启用保险库并解锁当前会话
+   * 启用后需要重新保存账号和 WebDAV 配置，使已有的敏感字段被加密
+   */
+  async enable(passphrase: string): Promise<void> {
+    const rawKey = generateRawKey();
+    const config: VaultConfig = {
+      enabled: true,
+      ...(await this.wrapKey(passphrase, rawKey)),
+      created_at: Date.now()
+    };
+
+    await this.storage.set(STORAGE_KEYS.CONFIG, config);
+    await this.saveSessionKey(rawKey);
+    console.log('[Vault] 保险库已启用');
+  }
+
+  /**
+   * 修改口令：以新口令重新加密数据密钥，已加密的数据无需改动
+   * 配置一次写入，过程中敏感字段始终保持加密
+   * @returns 旧口令是否正确
+   */
+  async changePassphrase(oldPassphrase: string, newPassphrase: string): Promise<boolean> {
+    const config = await this.getConfig();
+    const rawKey = await this.verifyPassphrase(oldPassphrase);
+    if (!config?.enabled || !rawKey) {
+      return false;
+    }
+
+    await this.storage.set(STORAGE_KEYS.CONFIG, {
+      ...config,
+      ...(await this.wrapKey(newPassphrase, rawKey))
+    });
+    await this.saveSessionKey(rawKey);
+    console.log('[Vault] 保险库口令已修改');
+    return true;
+  }
+
+  /**
+   * 使用口令解锁保险库
+   * @returns 口令是否正确
+   */
+  async unlock(passphrase: string): Promise<boolean> {
+    const rawKey = await this.verifyPassphrase(passphrase);
+    if (!rawKey) {
+      return false;
+    }
+    await this.saveSessionKey(rawKey);
+    console.log('[Vault] 保险库已解锁');
+    return true;
+  }
+
+  /**
+   * 锁定保险库，清除当前会话的密钥
+   */
+  async lock(): Promise<void> {
+    await this.sessionStorage.remove(STORAGE_KEYS.SESSION_KEY);
+    this.cachedKey = null;
+    console.log('[Vault] 保险库已锁定');
+  }
+
+  /**
+   * 开始停用保险库：校验口令后标记为未启用，但保留会话密钥，
+   * 以便重新保存数据时仍能解密已有的敏感字段。重新保存完成后调用 clear()
+   * @returns 口令是否正确
+   */
+  async beginDisable(passphrase: string): Promise<boolean> {
+    const config = await this.getConfig();
+    const rawKey = await this.verifyPassphrase(passphrase);
+    if (!config || !rawKey) {
+      return false;
+    }
+    await this.saveSessionKey(rawKey);
+    await this.storage.set(STORAGE_KEYS.CONFIG, { ...config, enabled: false });
+    return true;
+  }
+
+  /**
+   * 取消停用：重新标记为已启用，之后需重新保存数据使已解密的字段再次加密
+   */
+  async cancelDisable(): Promise<void> {
+    const config = await this.getConfig();
+    if (config) {
+      await this.storage.set(STORAGE_KEYS.CONFIG, { ...config, enabled: true });
+    }
+  }
+
+  /**
+   * 清除保险库配置和会话密钥
+   */
+  async clear(): Promise<void> {
+    await this.storage.remove(STORAGE_KEYS.CONFIG);
+    await this.lock();
+    console.log('[Vault] 保险库已停用');
+  }
+
+  /**
+   * 判断字段是否为加密后的值
+   */
+  isEncryptedSecret(value: string | undefined): boolean {
+    return !!value && value.startsWith(SECRET_PREFIX);
+  }
+
+  /**
+   * 加密敏感字段
+   * 保险库未启用或字段已加密时原样返回；已启用但未解锁时无法加密，抛出异常
+   */
+  async encryptSecret(value: string): Promise<string> {
+    if (!value || this.isEncryptedSecret(value)) {
+      return value;
+    }
+    const config = await this.getConfig();
+    if (!config?.enabled) {
+      return value;
+    }
+    const key = await this.getKey();
+    if (!key) {
+      throw new Error('保险库已锁定，请先解锁');
+    }
+    const payload = await encryptText(key, value);
+    return `${SECRET_PREFIX}${payload.iv}:${payload.data}`;
+  }
+
+  /**
+   * 解密敏感字段
+   * 字段未加密或当前会话尚未解锁时原样返回；已解锁但解密失败（数据损坏或密钥不匹配）时抛出异常
+   */
+  async decryptSecret(value: string): Promise<string> {
+    if (!this.isEncryptedSecret(value)) {
+      return value;
+    }
+    const key = await this.getKey();
+    if (!key) {
+      return value;
+    }
+    try {
+      const [iv, data] = value.slice(SECRET_PREFIX.length).split(':');
+      return await decryptText(key, { iv, data });
+    } catch (error) {
+      console.error('[Vault] 解密失败:', error);
+      throw new Error('敏感数据解密失败，数据可能已损坏');
+    }
+  }
+
+  // 私有方法
+
+  /**
+   * 校验口令，正确时返回数据密钥的原始数据
+   */
+  private async verifyPassphrase(passphrase: string): Promise<string | null> {
+    const config = await this.getConfig();
+    if (!config) {
+      return null;
+    }
+    try {
+      const key = await deriveKey(passphrase, config.salt, config.iterations);
+      const text = await decryptText(key, config.verifier);
+      if (text !== VERIFIER_TEXT) {
+        return null;
+      }
+      return await decryptText(key, config.wrapped_key);
+    } catch {
+      // AES-GCM 认证失败即口令错误
+      return null;
+    }
+  }
+
+  /**
+   * 以口令派生的密钥加密数据密钥，返回需要写入配置的字段
+   */
+  private async wrapKey(
+    passphrase: string,
+    rawKey: string
+  ): Promise<Pick<VaultConfig, 'salt' | 'iterations' | 'verifier' | 'wrapped_key'>> {
+    const salt = generateSalt();
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    return {
+      salt,
+      iterations: PBKDF2_ITERATIONS,
+      verifier: await encryptText(key, VERIFIER_TEXT),
+      wrapped_key: await encryptText(key, rawKey)
+    };
+  }
+
+  /**
+   * 获取当前会话的密钥，未解锁时为空
+   */
+  private async getKey(): Promise<CryptoKey | null> {
+    try {
+      const raw = await this.sessionStorage.get(STORAGE_KEYS.SESSION_KEY) as string | undefined;
+      if (!raw) {
+        this.cachedKey = null;
+        return null;
+      }
+      if (this.cachedKey?.raw !== raw) {
+        this.cachedKey = { raw, key: await importKey(raw) };
+      }
+      return this.cachedKey.key;
+    } catch (error) {
+      console.error('[Vault] 读取会话密钥失败:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 将数据密钥保存到会话存储
+   */
+  private async saveSessionKey(raw: string): Promise<void> {
+    await this.sessionStorage.set(STORAGE_KEYS.SESSION_KEY, raw);
+    this.cachedKey = { raw, key: await importKey(raw) };
+  }
+}
+
+// 创建单例实例
+export const vaultService = new VaultService();
@@ -1,32 +1,61 @@
 import type { WebDAVConfig, WebDAVResult } from "../types"
 import { accountStorage } from "./accountStorage"
 import { userPreferences } from "./userPreferences"
+import { vaultService } from "./vaultService"
+import { encryptBackup, decryptBackup, isEncryptedBackup, isBackupData, validateEncryptedBackup, type BackupData } from "../utils/backupEnvelope"
 
 class WebDAVService {
+  // 存储中的原始配置，启用保险库时密码为密文
   private config: WebDAVConfig | null = null
 
-  // 获取 WebDAV 配置
+  // 获取 WebDAV 配置（密码已解密，保险库未解锁时为密文）
   async getConfig(): Promise<WebDAVConfig> {
-    if (this.config) return this.config
-
-    const result = await chrome.storage.local.get(['webdav_config'])
-    this.config = result.webdav_config || {
-      enabled: false,
-      server_url: '',
-      username: '',
-      password: '',
-      backup_path: '/webdav',
-      auto_sync_on_change: false,
-      last_backup_time: 0
+    if (!this.config) {
+      const result = await chrome.storage.local.get(['webdav_config'])
+      this.config = result.webdav_config || {
+        enabled: false,
+        server_url: '',
+        username: '',
+        password: '',
+        backup_path: '/webdav',
+        auto_sync_on_change: false,
+        last_backup_time: 0
+      }
+    }
+
+    return {
+      ...this.config,
+      password: await this.decryptField(this.config.password),
+      backup_passphrase: this.config.backup_passphrase
+        ? await this.decryptField(this.config.backup_passphrase)
+        : this.config.backup_passphrase
     }
-    return this.config
   }
 
-  // 保存 WebDAV 配置
+  // 解密配置字段，解密失败时保持密文，使用前会被识别为无法使用的密码
+  private async decryptField(value: string): Promise<string> {
+    try {
+      return await vaultService.decryptSecret(value)
+    } catch (error) {
+      console.error('WebDAV 配置解密失败:', error)
+      return value
+    }
+  }
+
+  // 保存 WebDAV 配置，启用保险库时加密密码和备份口令
+  // 备份口令只在启用保险库时加密保存，未启用时不保存，备份和恢复时由用户输入
   async saveConfig(config: WebDAVConfig): Promise<boolean> {
     try {
-      await chrome.storage.local.set({ webdav_config: config })
-      this.config = config
+      const { enabled: vaultEnabled } = await vaultService.getStatus()
+      const storedConfig = {
+        ...config,
+        password: await vaultService.encryptSecret(config.password),
+        backup_passphrase: vaultEnabled && config.backup_passphrase
+          ? await vaultService.encryptSecret(config.backup_passphrase)
+          : undefined
+      }
+      await chrome.storage.local.set({ webdav_config: storedConfig })
+      this.config = storedConfig
       return true
     } catch (error) {
       console.error('保存 WebDAV 配置失败:', error)
@@ -34,6 +63,17 @@ class WebDAVService {
     }
   }
 
+  // 按当前保险库状态重新保存配置，用于启用或停用保险库后加密 / 解密已有的密码
+  // 返回无法解密、仍以密文保存的字段数量
+  async resaveConfig(): Promise<number> {
+    this.config = null
+    const config = await this.getConfig()
+    if (!(await this.saveConfig(config))) {
+      throw new Error('保存 WebDAV 配置失败')
+    }
+    return [config.password, config.backup_passphrase].filter(value => vaultService.isEncryptedSecret(value)).length
+  }
+
   // 规范化 URL 路径
   private normalizePath(url: string, path: string): string {
     const baseUrl = url.replace(/\/$/, '')
@@ -44,6 +84,10 @@ class WebDAVService {
 
   // 创建通用请求头
   private createHeaders(config: WebDAVConfig, contentType?: string): HeadersInit {
+    if (vaultService.isEncryptedSecret(config.password)) {
+      throw new Error('保险库已锁定，请先解锁后再使用 WebDAV')
+    }
+
     const headers: HeadersInit = {
       'Authorization': `Basic ${btoa(`${config.username}:${config.password}`)}`,
       'User-Agent': 'OneAPIHub-WebDAV-Client/1.0',
@@ -278,8 +322,8 @@ class WebDAVService {
     }
   }
 
-  // 上传备份到 WebDAV
-  async uploadBackup(trigger: string = '手动备份'): Promise<WebDAVResult> {
+  // 上传备份到 WebDAV，加密备份使用传入的口令或已保存的备份口令加密
+  async uploadBackup(trigger: string = '手动备份', passphrase?: string): Promise<WebDAVResult> {
     const config = await this.getConfig()
     
     if (!config.enabled) {
@@ -289,6 +333,22 @@ class WebDAVService {
       }
     }
 
+    const backupPassphrase = passphrase || config.backup_passphrase
+    if (vaultService.isEncryptedSecret(config.password) || vaultService.isEncryptedSecret(backupPassphrase)) {
+      return {
+        success: false,
+        message: '保险库已锁定，请先解锁'
+      }
+    }
+
+    if (config.encrypt_backup && !backupPassphrase) {
+      return {
+        success: false,
+        message: '已启用加密备份，请输入备份口令',
+        passphrase_required: true
+      }
+    }
+
     try {
       // 确保备份目录存在
       const dirCreated = await this.ensureDirectoryExists(config, config.backup_path)
@@ -305,7 +365,7 @@ class WebDAVService {
         userPreferences.exportPreferences()
       ])
 
-      const backupData = {
+      const backupData: BackupData = {
         version: "1.0",
         timestamp: Date.now(),
         accounts: accountData,
@@ -324,10 +384,15 @@ class WebDAVService {
       const filename = `backup-${year}-${month}-${day}_${hour}-${minute}-${second}.json`
       const uploadUrl = this.normalizePath(config.server_url, config.backup_path) + filename
 
+      // 启用加密备份时上传加密信封，否则保持原有的明文格式
+      const body = config.encrypt_backup
+        ? JSON.stringify(await encryptBackup(backupData, backupPassphrase!))
+        : JSON.stringify(backupData, null, 2)
+
       const response = await this.sendWebDAVRequest(uploadUrl, {
         method: 'PUT',
         headers: this.createHeaders(config, 'application/json'),
-        body: JSON.stringify(backupData, null, 2)
+        body
       })
 
       if (response.ok) {
@@ -335,7 +400,7 @@ class WebDAVService {
         config.last_backup_time = backupTimestamp
         await this.saveConfig(config)
         
-        const successMessage = `备份上传成功: ${filename}`
+        const successMessage = `${config.encrypt_backup ? '加密' : ''}备份上传成功: ${filename}`
         
         // 记录成功日志
         await this.addSyncLog(trigger, true, successMessage)
@@ -400,8 +465,8 @@ class WebDAVService {
     }
   }
 
-  // 从 WebDAV 下载备份
-  async downloadBackup(filename: string): Promise<WebDAVResult> {
+  // 从 WebDAV 下载备份，加密备份使用传入的口令或已保存的备份口令解密
+  async downloadBackup(filename: string, passphrase?: string): Promise<WebDAVResult> {
     const config = await this.getConfig()
     
     if (!config.enabled) {
@@ -420,7 +485,42 @@ class WebDAVService {
       })
 
       if (response.ok) {
-        const backupData = await response.json()
+        let backupData: unknown = await response.json()
+
+        if (isEncryptedBackup(backupData)) {
+          // 版本不支持或参数损坏时重新输入口令也无法恢复，不再请求口令
+          const envelopeError = validateEncryptedBackup(backupData)
+          if (envelopeError) {
+            return {
+              success: false,
+              message: envelopeError
+            }
+          }
+          const backupPassphrase = passphrase || config.backup_passphrase
+          if (!backupPassphrase || vaultService.isEncryptedSecret(backupPassphrase)) {
+            return {
+              success: false,
+              message: '备份文件已加密，请输入备份口令',
+              passphrase_required: true
+            }
+          }
+          try {
+            backupData = await decryptBackup(backupData, backupPassphrase)
+          } catch (error) {
+            return {
+              success: false,
+              message: error.message,
+              passphrase_required: true
+            }
+          }
+        }
+
+        if (!isBackupData(backupData)) {
+          return {
+            success: false,
+            message: '备份文件格式不正确，无法恢复'
+          }
+        }
         
         return {
           success: true,
@@ -622,6 +722,18 @@ class WebDAVService {
         return
       }
 
+      // 保险库未解锁时无法读取 WebDAV 密码
+      if (vaultService.isEncryptedSecret(config.password)) {
+        console.warn(`[WebDAV] 保险库已锁定，跳过${trigger}同步`)
+        return
+      }
+
+      // 未启用保险库时不保存备份口令，加密备份只能手动上传
+      if (config.encrypt_backup && !config.backup_passphrase) {
+        console.warn(`[WebDAV] 未保存备份口令，跳过${trigger}同步`)
+        return
+      }
+
       console.log(`[WebDAV] ${trigger}，开始自动同步`)
       
       // 使用 await 确保同步操作完成并正确记录日志
@@ -13,6 +13,23 @@ export interface AccountInfo {
   today_completion_tokens: number; // 今日 completion_tokens
   today_quota_consumption: number; // 今日消耗 quota
   today_requests_count: number; // 今日请求次数
+  today_usage_truncated?: boolean; // 今日日志超过分页上限，消耗统计可能不完整
+  today_tokens_combined?: boolean; // 通过聚合用量接口统计，只有 token 总数（计入 today_prompt_tokens），补全 token 不可用
+  today_usage_breakdown?: TodayUsageBreakdown; // 今日消耗按模型 / 令牌拆分的明细
+}
+
+// 单个模型或令牌的今日用量
+export interface UsageBreakdownEntry {
+  quota: number; // 消耗 quota
+  requests: number; // 请求次数
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+// 今日消耗明细，键为模型名称或令牌名称
+export interface TodayUsageBreakdown {
+  by_model: Record<string, UsageBreakdownEntry>;
+  by_token?: Record<string, UsageBreakdownEntry>; // 聚合用量接口不区分令牌，此时为空
 }
 
 // 站点账号完整信息
@@ -21,14 +38,72 @@ export interface SiteAccount {
   emoji: string; // 此项 emoji
   site_name: string; // 站点名称
   site_url: string; // 站点 url
+  site_type?: SiteType; // 站点类型，添加账号时自动识别，未设置时按 New API 处理
+  site_fingerprint?: SiteFingerprint; // 站点部署信息（系统名称、版本、功能开关）
   health_status: SiteHealthStatus; // 站点健康状态
   exchange_rate: number; // 人民币与美元充值比例 (CNY per USD)
   account_info: AccountInfo; // 账号信息
+  low_balance_threshold?: number; // 低余额提醒阈值（美元），未设置时使用全局默认值，0 表示不提醒
+  daily_budget?: DailyBudget; // 每日消费预算，未设置时不检查
+  refresh_policy?: AccountRefreshPolicy; // 刷新策略，未设置时跟随全局自动刷新设置
+  auto_check_in?: boolean; // 是否每日自动签到，仅对支持签到的站点生效
+  tags?: string[]; // 用户自定义标签，用于分类和筛选
+  notes?: string; // 备注
+  pinned?: boolean; // 是否置顶，置顶账号在任何排序方式下都排在最前
+  usage_cursor?: TodayUsageCursor; // 今日用量增量统计游标
   last_sync_time: number; // 最后同步时间 (timestamp)
   updated_at: number; // 更改时间 (timestamp)
   created_at: number; // 创建时间 (timestamp)
 }
 
+// 站点类型（New API 及其主要分支），决定请求头、接口路径和响应格式
+export type SiteType = 'new-api' | 'one-api' | 'veloera' | 'one-hub' | 'done-hub';
+
+// 站点开启的功能，来自 /api/status，未返回的字段视为未知
+export interface SiteFeatureFlags {
+  check_in?: boolean; // 每日签到
+  data_export?: boolean; // 数据看板（/api/data/self 聚合用量）
+  online_top_up?: boolean; // 在线充值
+  drawing?: boolean; // 绘图（Midjourney 等）
+  turnstile?: boolean; // Turnstile 人机验证
+}
+
+// 站点指纹：保存账号时通过 /api/status 识别的部署信息
+export interface SiteFingerprint {
+  system_name?: string; // 站点自定义的系统名称
+  version?: string; // 程序版本
+  logo?: string; // 站点 logo 的完整地址
+  features: SiteFeatureFlags;
+  detected_at: number; // 识别时间 (timestamp)
+}
+
+// 每日消费预算
+export interface DailyBudget {
+  amount: number; // 预算金额
+  currency: CurrencyType; // 预算货币，人民币按 exchange_rate 换算为美元
+}
+
+// 账号刷新模式
+// auto: 跟随全局刷新间隔; custom: 使用自定义间隔; manual: 仅手动刷新; paused: 暂停（不参与任何批量刷新）
+export type AccountRefreshMode = 'auto' | 'custom' | 'manual' | 'paused';
+
+// 账号刷新策略
+export interface AccountRefreshPolicy {
+  mode: AccountRefreshMode;
+  interval?: number; // 自定义刷新间隔（秒），仅 custom 模式有效
+}
+
+// 今日用量增量统计游标：记录已统计到的最新日志，下次刷新只拉取新增日志
+export interface TodayUsageCursor {
+  day_start: number; // 所属日期的起始时间戳（秒），跨天后失效
+  last_log_id: number; // 已统计的最新日志 ID
+  last_timestamp: number; // 已统计的最新日志时间（秒）
+  usage: Pick<AccountInfo,
+    'today_quota_consumption' | 'today_prompt_tokens' | 'today_completion_tokens' | 'today_requests_count' | 'today_usage_breakdown'
+  >; // 截至游标位置的累计用量
+  truncated: boolean; // 当日统计是否曾因分页上限被截断
+}
+
 // 存储配置
 export interface StorageConfig {
   accounts: SiteAccount[];
@@ -66,9 +141,27 @@ export interface WebDAVConfig {
   password: string;
   backup_path: string; // 备份文件路径，如 /webdav
   auto_sync_on_change: boolean; // 数据变动时自动同步
+  encrypt_backup?: boolean; // 上传前使用备份口令加密备份内容
+  backup_passphrase?: string; // 备份口令，仅在启用保险库时加密保存，未启用时不保存
   last_backup_time?: number; // 最后备份时间
 }
 
+// 保险库配置（加密存储访问令牌和 WebDAV 密码）
+export interface VaultConfig {
+  enabled: boolean;
+  salt: string; // PBKDF2 盐 (Base64)
+  iterations: number; // PBKDF2 迭代次数
+  verifier: { iv: string; data: string }; // 用于校验口令的加密数据
+  wrapped_key: { iv: string; data: string }; // 以口令派生的密钥加密保存的数据密钥
+  created_at: number;
+}
+
+// 保险库状态
+export interface VaultStatus {
+  enabled: boolean;
+  unlocked: boolean; // 当前浏览器会话是否已解锁
+}
+
 // WebDAV 备份状态
 export type WebDAVBackupStatus = 'idle' | 'uploading' | 'downloading' | 'success' | 'error';
 
@@ -79,6 +172,7 @@ export interface WebDAVResult {
   timestamp?: number;
   data?: any;
   files?: string[];
+  passphrase_required?: boolean; // 加密备份需要提供（正确的）备份口令
 }
 
 // 展示用的站点数据 (兼容当前 UI)
@@ -94,4 +188,126 @@ export interface DisplaySiteData {
   baseUrl: string; // 站点 URL，用于复制功能
   token: string; // 访问令牌，用于复制功能
   userId: number; // 真实的用户 ID，用于 API 调用
-}
\ No newline at end of file
+  siteType?: SiteType; // 站点类型，用于选择站点适配器
+  siteFingerprint?: SiteFingerprint; // 站点部署信息，用于展示程序和版本
+  budgetUsage?: number; // 今日预算使用百分比，未设置预算时为空
+  refreshMode?: AccountRefreshMode; // 刷新模式
+  todayUsageTruncated?: boolean; // 今日消耗统计是否因日志过多被截断
+  todayTokensCombined?: boolean; // 今日 token 只有总数，不区分提示和补全
+  tags?: string[]; // 用户自定义标签
+  notes?: string; // 备注
+  pinned?: boolean; // 是否置顶
+}
+
+// 账号每日历史数据点（按天汇总）
+export interface AccountHistoryPoint {
+  date: string; // 日期 (YYYY-MM-DD，本地时区)
+  quota: number; // 当日最后一次记录的余额
+  open_quota: number; // 当日第一次记录的余额
+  min_quota: number; // 当日记录到的最低余额
+  today_quota_consumption: number; // 当日消耗 quota
+  today_prompt_tokens: number; // 当日 prompt_tokens
+  today_completion_tokens: number; // 当日 completion_tokens
+  today_requests_count: number; // 当日请求次数
+  today_tokens_combined?: boolean; // 当日 token 只有总数（计入 today_prompt_tokens）
+  samples: number; // 当日记录次数
+  first_recorded_at: number; // 当日首次记录时间 (timestamp)
+  last_recorded_at: number; // 当日最后记录时间 (timestamp)
+  check_in?: CheckInRecord; // 当日签到结果
+}
+
+// 签到结果状态
+// success: 签到成功; already: 今日已签到（如在网页上手动签到过）; failed: 签到失败
+export type CheckInStatus = 'success' | 'already' | 'failed';
+
+// 单次签到记录
+export interface CheckInRecord {
+  status: CheckInStatus;
+  reward_quota: number; // 签到获得的额度 quota，无法获知时为 0
+  message?: string; // 站点返回的提示或失败原因
+  checked_at: number; // 签到时间 (timestamp)
+}
+
+// 账号签到调度状态（用于每日只签到一次）
+export interface AccountCheckInState {
+  date: string; // 所属日期 (YYYY-MM-DD)，跨天后重置
+  attempts: number; // 当日已尝试次数
+  completed: boolean; // 当日是否已签到（成功或已签到）
+}
+
+// 历史数据存储结构
+export interface AccountHistoryStore {
+  histories: Record<string, AccountHistoryPoint[]>; // 账号 ID -> 按日期升序排列的数据点
+  last_updated: number;
+}
+
+
+// 账号提醒状态（用于提醒去重）
+export interface AccountAlertState {
+  low_balance_alerted_at?: number; // 上次发送低余额提醒的时间 (timestamp)，余额恢复后清除
+  budget_alert_date?: string; // 预算提醒所属日期 (YYYY-MM-DD)，跨天后重置
+  budget_alerted_percent?: number; // 当日已提醒过的最高预算百分比
+}
+
+// 模型价格变动类型
+export type PriceChangeType = 'added' | 'removed' | 'increased' | 'decreased';
+
+// 发生变动的定价字段
+export type PriceChangeField =
+  | 'model_ratio'
+  | 'completion_ratio'
+  | 'model_price'
+  | 'group_ratio'
+  | 'cache_ratio'
+  | 'create_cache_ratio'
+  | 'image_ratio'
+  | 'audio_ratio'
+  | 'audio_completion_ratio';
+
+// 单条价格变动记录
+export interface PriceChangeRecord {
+  id: string;
+  site_url: string;
+  site_name: string;
+  model_name?: string; // 分组倍率变动时为空
+  group?: string; // 分组倍率变动时的分组名称
+  type: PriceChangeType;
+  field?: PriceChangeField; // 新增 / 移除模型时为空
+  tier_min_prompt_tokens?: number; // 分档计费中某一档的变动，为该档的起始提示 token 数
+  old_value?: number;
+  new_value?: number;
+  change_percent?: number; // 变动百分比，旧值为 0 时为空
+  detected_at: number; // 检测时间 (timestamp)
+}
+
+// 自动刷新调度状态（持久化，Service Worker 重启后恢复）
+export interface AutoRefreshScheduleState {
+  last_run_at?: number; // 上次后台刷新完成时间 (timestamp)
+  next_run_at?: number; // 下次计划刷新时间 (timestamp)
+  interval?: number; // 创建定时任务时使用的刷新间隔（秒）
+}
+
+// 自动刷新状态（供前端展示）
+export interface AutoRefreshStatus {
+  isRunning: boolean; // 是否已创建定时任务
+  isInitialized: boolean;
+  isRefreshing: boolean; // 是否正在执行后台刷新
+  nextRunAt: number | null; // 下次刷新时间 (timestamp)
+  lastRunAt: number | null; // 上次后台刷新时间 (timestamp)
+}
+
+// 批量刷新进度
+export interface RefreshProgress {
+  total: number; // 待刷新账号总数
+  completed: number; // 已完成数量（含失败）
+  success: number;
+  failed: number;
+  current_account_id?: string; // 最近完成的账号 ID
+}
+
+// 站点接口能力探测结果（按站点缓存）
+export interface SiteCapabilities {
+  quota_data?: boolean; // 是否支持 /api/data/self 聚合用量接口
+  check_in?: boolean; // 签到接口是否可用（根据签到结果判断）
+  checked_at: number; // 探测时间 (timestamp)
+}
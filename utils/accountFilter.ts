@@ -0,0 +1,129 @@
+import { UI_CONSTANTS } from "../constants/ui"
+import type { DisplaySiteData, SiteAccount, SiteHealthStatus } from "../types"
+
+// 账号筛选条件
+export interface AccountFilter {
+  query: string // 搜索关键词，匹配站点名称、地址、用户名、标签和备注
+  tag: string | null // 只显示带有此标签的账号，为空时不限
+  health: SiteHealthStatus | null // 只显示此健康状态的账号，为空时不限
+  maxBalance: number | null // 只显示余额低于此值的账号（按当前货币单位），为空时不限
+  hasConsumption: boolean // 只显示今日有消耗的账号
+}
+
+export const EMPTY_ACCOUNT_FILTER: AccountFilter = {
+  query: '',
+  tag: null,
+  health: null,
+  maxBalance: null,
+  hasConsumption: false
+}
+
+// 单个标签的最大长度
+const MAX_TAG_LENGTH = 20
+
+// 参与筛选的账号信息，统一存储数据和展示数据的差异
+interface FilterCandidate {
+  fields: Array<string | undefined> // 参与关键词搜索的字段
+  tags?: string[]
+  health?: SiteHealthStatus
+  balance: { USD: number; CNY: number }
+  todayConsumption: number
+}
+
+/**
+ * 规范化标签：支持逗号、空格分隔的字符串，去除空白和重复项
+ */
+export const normalizeTags = (input: string | unknown[] | undefined): string[] => {
+  const raw = typeof input === 'string'
+    ? input.split(/[,，\s]+/)
+    : Array.isArray(input) ? input.filter((tag): tag is string => typeof tag === 'string') : []
+  const tags = raw.map(tag => tag.trim().slice(0, MAX_TAG_LENGTH)).filter(Boolean)
+  return Array.from(new Set(tags))
+}
+
+/**
+ * 收集所有账号使用过的标签（按名称排序）
+ */
+export const collectTags = (items: Array<{ tags?: string[] }>): string[] => {
+  const tags = new Set<string>()
+  items.forEach(item => item.tags?.forEach(tag => tags.add(tag)))
+  return Array.from(tags).sort((a, b) => a.localeCompare(b))
+}
+
+/**
+ * 判断账号是否满足筛选条件
+ */
+const matchesFilter = (candidate: FilterCandidate, filter: AccountFilter, currencyType: 'USD' | 'CNY'): boolean => {
+  if (filter.tag && !candidate.tags?.includes(filter.tag)) {
+    return false
+  }
+  if (filter.health && (candidate.health || 'unknown') !== filter.health) {
+    return false
+  }
+  if (filter.maxBalance !== null && candidate.balance[currencyType] >= filter.maxBalance) {
+    return false
+  }
+  if (filter.hasConsumption && candidate.todayConsumption <= 0) {
+    return false
+  }
+  const query = filter.query.trim().toLowerCase()
+  if (!query) {
+    return true
+  }
+  return [...candidate.fields, ...(candidate.tags || [])].some(field => field?.toLowerCase().includes(query))
+}
+
+/**
+ * 筛选账号（存储数据）
+ */
+export const filterAccounts = (
+  accounts: SiteAccount[],
+  filter: AccountFilter,
+  currencyType: 'USD' | 'CNY' = 'USD'
+): SiteAccount[] => {
+  return accounts.filter(account => {
+    const balanceUSD = account.account_info.quota / UI_CONSTANTS.EXCHANGE_RATE.CONVERSION_FACTOR
+    return matchesFilter({
+      fields: [account.site_name, account.site_url, account.account_info.username, account.notes],
+      tags: account.tags,
+      health: account.health_status,
+      balance: { USD: balanceUSD, CNY: balanceUSD * account.exchange_rate },
+      todayConsumption: account.account_info.today_quota_consumption
+    }, filter, currencyType)
+  })
+}
+
+/**
+ * 筛选账号（展示数据）
+ */
+export const filterSites = (
+  sites: DisplaySiteData[],
+  filter: AccountFilter,
+  currencyType: 'USD' | 'CNY' = 'USD'
+): DisplaySiteData[] => {
+  return sites.filter(site => matchesFilter({
+    fields: [site.name, site.baseUrl, site.username, site.notes],
+    tags: site.tags,
+    health: site.healthStatus,
+    balance: site.balance,
+    todayConsumption: site.todayConsumption.USD
+  }, filter, currencyType))
+}
+
+/**
+ * 判断筛选条件是否生效
+ */
+export const isFilterActive = (filter: AccountFilter): boolean => {
+  return !!filter.query.trim() ||
+    !!filter.tag ||
+    !!filter.health ||
+    filter.maxBalance !== null ||
+    filter.hasConsumption
+}
+
+/**
+ * 规范化保存的筛选条件，兼容旧版本缺少的字段
+ */
+export const normalizeAccountFilter = (filter: Partial<AccountFilter> | undefined): AccountFilter => {
+  return { ...EMPTY_ACCOUNT_FILTER, ...(filter || {}) }
+}
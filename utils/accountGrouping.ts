@@ -0,0 +1,114 @@
+import type { DisplaySiteData, SiteAccount } from "../types"
+
+// 新账号与已有账号的关系
+// none: 新站点; same_site: 同一站点的其他用户; duplicate: 同一站点的同一用户（重复账号）
+export type DuplicateKind = 'none' | 'same_site' | 'duplicate'
+
+export interface DuplicateCheckResult {
+  kind: DuplicateKind
+  account?: SiteAccount // 重复时为已存在的账号，同站点时为该站点的第一个账号
+}
+
+// 同一站点下的账号分组
+export interface SiteGroup {
+  key: string // 规范化后的站点地址
+  name: string // 分组显示名称，取分组中第一个账号的站点名称
+  sites: DisplaySiteData[]
+  balance: { USD: number; CNY: number } // 分组内余额合计
+  todayConsumption: { USD: number; CNY: number } // 分组内今日消耗合计
+}
+
+/**
+ * 规范化站点地址，用于判断两个账号是否属于同一站点
+ * 忽略协议大小写、末尾斜杠和默认端口
+ */
+export const normalizeSiteUrl = (url: string): string => {
+  const trimmed = url.trim()
+  try {
+    const parsed = new URL(trimmed)
+    const path = parsed.pathname.replace(/\/+$/, '')
+    return `${parsed.protocol}//${parsed.host}${path}`.toLowerCase()
+  } catch {
+    return trimmed.replace(/\/+$/, '').toLowerCase()
+  }
+}
+
+/**
+ * 检查新账号是否与已有账号重复
+ * @param excludeId 编辑账号时排除自身
+ */
+export const checkDuplicateAccount = (
+  accounts: SiteAccount[],
+  siteUrl: string,
+  userId: number,
+  excludeId?: string
+): DuplicateCheckResult => {
+  const key = normalizeSiteUrl(siteUrl)
+  const sameSite = accounts.filter(account => account.id !== excludeId && normalizeSiteUrl(account.site_url) === key)
+  const duplicate = sameSite.find(account => account.account_info.id === userId)
+
+  if (duplicate) return { kind: 'duplicate', account: duplicate }
+  if (sameSite.length > 0) return { kind: 'same_site', account: sameSite[0] }
+  return { kind: 'none' }
+}
+
+/**
+ * 去除重复账号（同一站点的同一用户），保留最近更新的一条
+ * 返回去重后的账号（保持原有顺序）和被移除的数量
+ */
+export const dedupeAccounts = (accounts: SiteAccount[]): { accounts: SiteAccount[]; removed: number } => {
+  const latest = new Map<string, SiteAccount>()
+  accounts.forEach(account => {
+    const key = `${normalizeSiteUrl(account.site_url)}#${account.account_info.id}`
+    const existing = latest.get(key)
+    if (!existing || (account.updated_at || 0) > (existing.updated_at || 0)) {
+      latest.set(key, account)
+    }
+  })
+
+  const kept = new Set(latest.values())
+  const deduped = accounts.filter(account => kept.has(account))
+  return { accounts: deduped, removed: accounts.length - deduped.length }
+}
+
+/**
+ * 统计同一站点拥有多个用户的站点数量
+ */
+export const countMultiUserSites = (accounts: SiteAccount[]): number => {
+  const counts = new Map<string, number>()
+  accounts.forEach(account => {
+    const key = normalizeSiteUrl(account.site_url)
+    counts.set(key, (counts.get(key) || 0) + 1)
+  })
+  return Array.from(counts.values()).filter(count => count > 1).length
+}
+
+/**
+ * 按站点地址对展示数据分组
+ * 分组顺序以每组第一个账号在原列表中的位置为准，组内保持原有顺序，因此会沿用外部的排序结果
+ */
+export const groupSitesByUrl = (sites: DisplaySiteData[]): SiteGroup[] => {
+  const groups = new Map<string, SiteGroup>()
+
+  sites.forEach(site => {
+    const key = normalizeSiteUrl(site.baseUrl)
+    let group = groups.get(key)
+    if (!group) {
+      group = {
+        key,
+        name: site.name,
+        sites: [],
+        balance: { USD: 0, CNY: 0 },
+        todayConsumption: { USD: 0, CNY: 0 }
+      }
+      groups.set(key, group)
+    }
+    group.sites.push(site)
+    group.balance.USD += site.balance.USD
+    group.balance.CNY += site.balance.CNY
+    group.todayConsumption.USD += site.todayConsumption.USD
+    group.todayConsumption.CNY += site.todayConsumption.CNY
+  })
+
+  return Array.from(groups.values())
+}
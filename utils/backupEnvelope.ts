@@ -0,0 +1,154 @@
+import {
+  PBKDF2_ITERATIONS,
+  SALT_LENGTH,
+  IV_LENGTH,
+  generateSalt,
+  deriveKey,
+  encryptText,
+  decryptText,
+  base64ToBytes
+} from "./crypto"
+import type { UserPreferences } from "../services/userPreferences"
+import type { StorageConfig } from "../types"
+
+// 加密备份的格式标识和当前版本，新版本需在 decryptBackup 中保持对旧版本的兼容
+export const ENCRYPTED_BACKUP_FORMAT = 'one-api-hub-encrypted-backup'
+export const ENCRYPTED_BACKUP_VERSION = 1
+
+// 解密时接受的 PBKDF2 迭代次数范围，超出范围的文件视为损坏，避免过大的值卡死页面
+const MIN_BACKUP_ITERATIONS = 100000
+const MAX_BACKUP_ITERATIONS = 2000000
+
+// 加密备份文件内容（信封格式），密钥由备份口令经 PBKDF2 派生
+export interface EncryptedBackupEnvelope {
+  format: typeof ENCRYPTED_BACKUP_FORMAT
+  version: number
+  timestamp: number
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string }
+  cipher: { name: 'AES-GCM'; iv: string }
+  data: string // 加密后的备份 JSON (Base64)
+}
+
+// 备份文件的数据内容（加密备份解密后的内容）
+export interface BackupData {
+  version?: string
+  timestamp?: number
+  accounts?: StorageConfig
+  preferences?: UserPreferences
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * 校验备份数据结构，恢复前调用，避免把格式错误的内容写入存储
+ * 至少包含账号数据或用户设置之一，账号需具备站点地址和账号信息
+ */
+export const isBackupData = (data: unknown): data is BackupData => {
+  if (!isRecord(data)) {
+    return false
+  }
+  const { accounts, preferences } = data
+  if (accounts === undefined && preferences === undefined) {
+    return false
+  }
+  if (accounts !== undefined) {
+    if (!isRecord(accounts) || !Array.isArray(accounts.accounts)) {
+      return false
+    }
+    const validAccounts = accounts.accounts.every(account =>
+      isRecord(account) && typeof account.site_url === 'string' && isRecord(account.account_info)
+    )
+    if (!validAccounts) {
+      return false
+    }
+  }
+  return preferences === undefined || isRecord(preferences)
+}
+
+/**
+ * 判断备份内容是否为加密信封，未加密的旧版备份返回 false
+ */
+export const isEncryptedBackup = (data: unknown): data is EncryptedBackupEnvelope => {
+  return !!data && typeof data === 'object' && (data as { format?: unknown }).format === ENCRYPTED_BACKUP_FORMAT
+}
+
+// Base64 解码后的字节长度，格式错误时为 -1
+const getDecodedLength = (value: unknown): number => {
+  if (typeof value !== 'string') {
+    return -1
+  }
+  try {
+    return base64ToBytes(value).length
+  } catch {
+    return -1
+  }
+}
+
+/**
+ * 检查加密信封的版本和密钥派生参数，返回错误信息，可以解密时为空
+ * 在请求备份口令和派生密钥之前调用，格式错误的文件无需用户输入口令
+ */
+export const validateEncryptedBackup = (envelope: EncryptedBackupEnvelope): string | null => {
+  if (typeof envelope.version !== 'number') {
+    return '备份文件格式不正确或已损坏'
+  }
+  if (envelope.version > ENCRYPTED_BACKUP_VERSION) {
+    return `不支持的备份格式版本: ${envelope.version}，请升级插件后重试`
+  }
+
+  const iterations = envelope.kdf?.iterations
+  const validKdf = Number.isInteger(iterations)
+    && iterations >= MIN_BACKUP_ITERATIONS
+    && iterations <= MAX_BACKUP_ITERATIONS
+    && getDecodedLength(envelope.kdf.salt) === SALT_LENGTH
+  const validCipher = getDecodedLength(envelope.cipher?.iv) === IV_LENGTH && getDecodedLength(envelope.data) > 0
+  if (!validKdf || !validCipher) {
+    return '备份文件格式不正确或已损坏'
+  }
+  return null
+}
+
+/**
+ * 使用备份口令加密备份数据
+ */
+export const encryptBackup = async (payload: unknown, passphrase: string): Promise<EncryptedBackupEnvelope> => {
+  const salt = generateSalt()
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS)
+  const encrypted = await encryptText(key, JSON.stringify(payload))
+
+  return {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: ENCRYPTED_BACKUP_VERSION,
+    timestamp: Date.now(),
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt },
+    cipher: { name: 'AES-GCM', iv: encrypted.iv },
+    data: encrypted.data
+  }
+}
+
+/**
+ * 使用备份口令解密备份数据，返回的内容需经 isBackupData 校验后再使用
+ * 口令错误或数据损坏时抛出异常
+ */
+export const decryptBackup = async (envelope: EncryptedBackupEnvelope, passphrase: string): Promise<unknown> => {
+  const envelopeError = validateEncryptedBackup(envelope)
+  if (envelopeError) {
+    throw new Error(envelopeError)
+  }
+
+  const key = await deriveKey(passphrase, envelope.kdf.salt, envelope.kdf.iterations)
+  let text: string
+  try {
+    text = await decryptText(key, { iv: envelope.cipher.iv, data: envelope.data })
+  } catch {
+    // AES-GCM 认证失败即口令错误或数据被篡改
+    throw new Error('备份口令错误或备份文件已损坏')
+  }
+  try {
+    return JSON.parse(text)
+  } catch {
+    throw new Error('备份文件格式不正确或已损坏')
+  }
+}
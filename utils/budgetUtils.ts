@@ -0,0 +1,61 @@
+import { UI_CONSTANTS } from "../constants/ui"
+import type { SiteAccount } from "../types"
+
+/**
+ * 将账号的每日预算换算为美元，未设置预算时返回 null
+ */
+export const getDailyBudgetInUSD = (account: SiteAccount): number | null => {
+  const budget = account.daily_budget
+  if (!budget || budget.amount <= 0) {
+    return null
+  }
+  if (budget.currency === 'CNY') {
+    const rate = account.exchange_rate > 0 ? account.exchange_rate : UI_CONSTANTS.EXCHANGE_RATE.DEFAULT
+    return budget.amount / rate
+  }
+  return budget.amount
+}
+
+/**
+ * 账号今日是否已同步过数据，未同步时保存的"今日消耗"实际属于之前的日期
+ */
+const isSyncedToday = (account: SiteAccount): boolean => {
+  return !!account.last_sync_time && new Date(account.last_sync_time).toDateString() === new Date().toDateString()
+}
+
+/**
+ * 计算今日消耗占每日预算的百分比，未设置预算时返回 null
+ * 今日尚未同步的账号（如已暂停或手动刷新）消耗按 0 计算
+ */
+export const calculateBudgetUsage = (account: SiteAccount): number | null => {
+  const budgetUSD = getDailyBudgetInUSD(account)
+  if (budgetUSD === null) {
+    return null
+  }
+  if (!isSyncedToday(account)) {
+    return 0
+  }
+  const consumptionUSD = account.account_info.today_quota_consumption / UI_CONSTANTS.EXCHANGE_RATE.CONVERSION_FACTOR
+  return (consumptionUSD / budgetUSD) * 100
+}
+
+/**
+ * 获取已达到的最高提醒百分比，未达到任何提醒线时返回 0
+ */
+export const getReachedBudgetPercent = (usage: number, percents: number[]): number => {
+  return percents
+    .filter(percent => percent > 0 && usage >= percent)
+    .reduce((max, percent) => Math.max(max, percent), 0)
+}
+
+/**
+ * 解析提醒百分比输入（如 "50, 80, 100"），返回去重升序后的列表，无效输入返回 null
+ */
+export const parseBudgetAlertPercents = (input: string): number[] | null => {
+  const parts = input.split(/[,，\s]+/).filter(Boolean)
+  const percents = parts.map(part => Number(part))
+  if (percents.some(percent => isNaN(percent) || percent <= 0)) {
+    return null
+  }
+  return Array.from(new Set(percents)).sort((a, b) => a - b)
+}
@@ -0,0 +1,87 @@
+/**
+ * 任务费用估算工具
+ */
+
+import { calculateModelPrice, getPriceForPromptSize } from './modelPricing'
+import { getUsableGroups, type ComparisonSource } from './priceComparison'
+
+// 预计的调用量
+export interface WorkloadInput {
+  promptTokens: number // 提示 token 总数
+  cachedTokens: number // 提示中命中缓存的 token 数，站点提供缓存读取价格时按该价格计费
+  completionTokens: number // 补全 token 总数
+  calls: number // 调用次数（按次计费模型使用，按量计费模型用于计算单次提示长度以选择分档）
+}
+
+// 某个账号某个分组下的估算结果
+export interface CostEstimate {
+  accountId: string
+  siteName: string
+  group: string
+  groupRatio: number
+  quotaType: number // 0 = 按量计费，1 = 按次计费
+  tierMinPromptTokens?: number // 采用了分档计费时该档的起始提示 token 数
+  costUSD: number // 站点额度（美元）
+  costCNY: number // 按站点充值比例换算后的实际花费（人民币）
+}
+
+const TOKENS_PER_MILLION = 1000000
+
+/**
+ * 计算按量计费模型的费用（美元）
+ * 按平均单次提示长度选择分档价格，命中缓存的提示 token 按缓存读取价格计费
+ */
+const calculateTokenCost = (
+  price: ReturnType<typeof calculateModelPrice>,
+  workload: WorkloadInput
+): { costUSD: number; tierMinPromptTokens?: number } => {
+  const promptTokensPerCall = workload.calls > 0 ? workload.promptTokens / workload.calls : workload.promptTokens
+  const { input, output, cacheRead, tier } = getPriceForPromptSize(price, promptTokensPerCall)
+  const cachedTokens = Math.min(workload.cachedTokens, workload.promptTokens)
+  const uncachedTokens = workload.promptTokens - cachedTokens
+  const costUSD =
+    (uncachedTokens / TOKENS_PER_MILLION) * input.USD +
+    (cachedTokens / TOKENS_PER_MILLION) * (cacheRead ?? input).USD +
+    (workload.completionTokens / TOKENS_PER_MILLION) * output.USD
+  return { costUSD, tierMinPromptTokens: tier?.minPromptTokens }
+}
+
+/**
+ * 估算一个模型在所有账号、所有可用分组下完成任务的费用，按实际花费升序排列
+ */
+export const estimateWorkloadCost = (
+  sources: ComparisonSource[],
+  modelName: string,
+  workload: WorkloadInput
+): CostEstimate[] => {
+  const estimates: CostEstimate[] = []
+
+  sources.forEach(({ account, pricing }) => {
+    const model = (pricing.data || []).find(item => item.model_name === modelName)
+    if (!model) return
+
+    const groupRatio = pricing.group_ratio || {}
+    const groups = getUsableGroups(model, pricing)
+    const targetGroups = groups.length > 0 ? groups : ['default']
+
+    targetGroups.forEach(group => {
+      const price = calculateModelPrice(model, groupRatio, account.exchange_rate, group)
+      const { costUSD, tierMinPromptTokens } = model.quota_type === 0
+        ? calculateTokenCost(price, workload)
+        : { costUSD: workload.calls * (price.perCallPrice || 0), tierMinPromptTokens: undefined }
+
+      estimates.push({
+        accountId: account.id,
+        siteName: account.site_name,
+        group,
+        groupRatio: groupRatio[group] || 1,
+        quotaType: model.quota_type,
+        tierMinPromptTokens,
+        costUSD,
+        costCNY: costUSD * account.exchange_rate
+      })
+    })
+  })
+
+  return estimates.sort((a, b) => a.costCNY - b.costCNY)
+}
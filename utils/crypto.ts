@@ -0,0 +1,104 @@
+// 基于 WebCrypto 的口令加密工具：PBKDF2 派生密钥，AES-GCM 加密
+
+// PBKDF2 迭代次数
+export const PBKDF2_ITERATIONS = 250000
+
+// 盐、IV 和数据密钥的字节长度
+export const SALT_LENGTH = 16
+export const IV_LENGTH = 12
+const KEY_LENGTH = 32
+
+// 加密后的数据（Base64 编码）
+export interface EncryptedPayload {
+  iv: string
+  data: string
+}
+
+/**
+ * 字节数组转 Base64
+ */
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = ''
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary)
+}
+
+/**
+ * Base64 转字节数组
+ */
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+/**
+ * 生成随机盐（Base64）
+ */
+export const generateSalt = (): string => {
+  return bytesToBase64(crypto.getRandomValues(new Uint8Array(SALT_LENGTH)))
+}
+
+/**
+ * 生成随机的 AES-256 密钥原始数据（Base64）
+ */
+export const generateRawKey = (): string => {
+  return bytesToBase64(crypto.getRandomValues(new Uint8Array(KEY_LENGTH)))
+}
+
+/**
+ * 由口令派生 AES-GCM 密钥（不可导出）
+ */
+export const deriveKey = async (
+  passphrase: string,
+  salt: string,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  )
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: base64ToBytes(salt), iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/**
+ * 从原始数据（Base64）导入密钥
+ */
+export const importKey = async (raw: string): Promise<CryptoKey> => {
+  return crypto.subtle.importKey('raw', base64ToBytes(raw), { name: 'AES-GCM' }, false, ['encrypt', 'decrypt'])
+}
+
+/**
+ * 加密字符串
+ */
+export const encryptText = async (key: CryptoKey, text: string): Promise<EncryptedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text))
+  return { iv: bytesToBase64(iv), data: bytesToBase64(new Uint8Array(data)) }
+}
+
+/**
+ * 解密字符串，密钥错误或数据被篡改时抛出异常
+ */
+export const decryptText = async (key: CryptoKey, payload: EncryptedPayload): Promise<string> => {
+  const data = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: base64ToBytes(payload.iv) },
+    key,
+    base64ToBytes(payload.data)
+  )
+  return new TextDecoder().decode(data)
+}
@@ -71,6 +71,18 @@ export const calculateTotalBalance = (
   }
 }
 
+/**
+ * 按展示数据计算今日总消耗（用于筛选后的合计）
+ */
+export const calculateSitesConsumption = (
+  displayData: DisplaySiteData[]
+) => {
+  return {
+    USD: parseFloat(displayData.reduce((sum, site) => sum + site.todayConsumption.USD, 0).toFixed(2)),
+    CNY: parseFloat(displayData.reduce((sum, site) => sum + site.todayConsumption.CNY, 0).toFixed(2))
+  }
+}
+
 /**
  * 获取货币符号
  */
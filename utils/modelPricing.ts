@@ -2,7 +2,21 @@
  * 模型定价计算工具
  */
 
-import type { ModelPricing } from '../services/apiService'
+import type { ModelPricing, ModelPriceTier } from '../services/apiService'
+
+// 美元 / 人民币价格
+export interface PricePair {
+  USD: number
+  CNY: number
+}
+
+// 分档计费中一档的价格
+export interface CalculatedPriceTier {
+  minPromptTokens: number
+  input: PricePair // 每1M token输入价格
+  output: PricePair // 每1M token输出价格
+  cacheRead?: PricePair // 每1M token缓存读取价格
+}
 
 export interface CalculatedPrice {
   inputUSD: number  // 每1M token输入价格（美元）
@@ -10,6 +24,64 @@ export interface CalculatedPrice {
   inputCNY: number  // 每1M token输入价格（人民币）
   outputCNY: number // 每1M token输出价格（人民币）
   perCallPrice?: number // 按次计费时每次调用的价格
+  // 以下价格仅在站点返回对应倍率时存在，均为每1M token价格
+  cacheRead?: PricePair // 缓存读取
+  cacheWrite?: PricePair // 缓存写入
+  imageInput?: PricePair // 图片输入
+  audioInput?: PricePair // 音频输入
+  audioOutput?: PricePair // 音频输出
+  tiers?: CalculatedPriceTier[] // 分档计费
+}
+
+// 附加价格的显示名称
+const EXTRA_PRICE_LABELS = {
+  cacheRead: '缓存读取',
+  cacheWrite: '缓存写入',
+  imageInput: '图片输入',
+  audioInput: '音频输入',
+  audioOutput: '音频输出'
+} as const
+
+export type ExtraPriceKey = keyof typeof EXTRA_PRICE_LABELS
+
+/**
+ * 判断站点是否返回了有效的倍率
+ */
+const hasRatio = (ratio: number | undefined): ratio is number => {
+  return typeof ratio === 'number' && ratio > 0
+}
+
+/**
+ * 在美元价格的基础上按倍率计算附加价格
+ */
+const toPricePair = (baseUSD: number, ratio: number, exchangeRate: number): PricePair => {
+  const USD = baseUSD * ratio
+  return { USD, CNY: USD * exchangeRate }
+}
+
+/**
+ * 计算分档计费各档位的价格
+ */
+const calculateTiers = (
+  model: ModelPricing,
+  tiers: ModelPriceTier[],
+  groupMultiplier: number,
+  exchangeRate: number
+): CalculatedPriceTier[] => {
+  return [...tiers]
+    .filter(tier => hasRatio(tier.model_ratio))
+    .sort((a, b) => a.min_prompt_tokens - b.min_prompt_tokens)
+    .map(tier => {
+      const inputUSD = tier.model_ratio * 2 * groupMultiplier
+      const completionRatio = tier.completion_ratio ?? model.completion_ratio
+      const cacheRatio = tier.cache_ratio ?? model.cache_ratio
+      return {
+        minPromptTokens: tier.min_prompt_tokens,
+        input: toPricePair(inputUSD, 1, exchangeRate),
+        output: toPricePair(inputUSD, completionRatio, exchangeRate),
+        cacheRead: hasRatio(cacheRatio) ? toPricePair(inputUSD, cacheRatio, exchangeRate) : undefined
+      }
+    })
 }
 
 /**
@@ -34,13 +106,34 @@ export const calculateModelPrice = (
     // complUSD（每 1M token） = model_ratio × completion_ratio × 2 × groupRatio
     const inputUSD = model.model_ratio * 2 * groupMultiplier
     const outputUSD = model.model_ratio * model.completion_ratio * 2 * groupMultiplier
-    
-    return {
+    const price: CalculatedPrice = {
       inputUSD,
       outputUSD,
       inputCNY: inputUSD * exchangeRate,
       outputCNY: outputUSD * exchangeRate
     }
+
+    // 缓存、图片和音频价格 = 输入价格 × 对应倍率，音频输出再乘以音频补全倍率
+    if (hasRatio(model.cache_ratio)) {
+      price.cacheRead = toPricePair(inputUSD, model.cache_ratio, exchangeRate)
+    }
+    if (hasRatio(model.create_cache_ratio)) {
+      price.cacheWrite = toPricePair(inputUSD, model.create_cache_ratio, exchangeRate)
+    }
+    if (hasRatio(model.image_ratio)) {
+      price.imageInput = toPricePair(inputUSD, model.image_ratio, exchangeRate)
+    }
+    if (hasRatio(model.audio_ratio)) {
+      price.audioInput = toPricePair(inputUSD, model.audio_ratio, exchangeRate)
+      if (hasRatio(model.audio_completion_ratio)) {
+        price.audioOutput = toPricePair(price.audioInput.USD, model.audio_completion_ratio, exchangeRate)
+      }
+    }
+    if (Array.isArray(model.tiered_pricing) && model.tiered_pricing.length > 0) {
+      price.tiers = calculateTiers(model, model.tiered_pricing, groupMultiplier, exchangeRate)
+    }
+
+    return price
   } else {
     // 按次计费
     const perCallPrice = model.model_price * groupMultiplier
@@ -55,6 +148,47 @@ export const calculateModelPrice = (
   }
 }
 
+/**
+ * 按单次请求的提示 token 数选择生效的价格档位
+ * 未设置分档或未达到任何档位时使用基础价格，tier 为空
+ */
+export const getPriceForPromptSize = (
+  price: CalculatedPrice,
+  promptTokensPerCall: number
+): { input: PricePair; output: PricePair; cacheRead?: PricePair; tier?: CalculatedPriceTier } => {
+  const tier = (price.tiers || [])
+    .filter(item => item.minPromptTokens <= promptTokensPerCall)
+    .pop()
+  if (tier) {
+    return { input: tier.input, output: tier.output, cacheRead: tier.cacheRead ?? price.cacheRead, tier }
+  }
+  return {
+    input: { USD: price.inputUSD, CNY: price.inputCNY },
+    output: { USD: price.outputUSD, CNY: price.outputCNY },
+    cacheRead: price.cacheRead
+  }
+}
+
+/**
+ * 获取存在的附加价格（缓存、图片、音频），按固定顺序返回
+ */
+export const getExtraPrices = (
+  price: CalculatedPrice
+): Array<{ key: ExtraPriceKey; label: string; price: PricePair }> => {
+  return (Object.keys(EXTRA_PRICE_LABELS) as ExtraPriceKey[])
+    .filter(key => price[key])
+    .map(key => ({ key, label: EXTRA_PRICE_LABELS[key], price: price[key] as PricePair }))
+}
+
+/**
+ * 格式化分档阈值，如 200000 → 200K
+ */
+export const formatTierThreshold = (tokens: number): string => {
+  if (tokens >= 1000000) return `${tokens / 1000000}M`
+  if (tokens >= 1000) return `${tokens / 1000}K`
+  return `${tokens}`
+}
+
 /**
  * 格式化价格显示
  */
@@ -0,0 +1,150 @@
+/**
+ * 跨站点模型价格对比工具
+ */
+
+import { calculateModelPrice } from './modelPricing'
+import { identifyProvider, type ProviderType } from './modelProviders'
+import type { ModelPricing, PricingResponse } from '../services/apiService'
+import type { SiteAccount } from '../types'
+
+// 价格对比依据
+export type ComparisonMetric = 'input' | 'output'
+
+// 单个站点上某个模型的真实价格（人民币）
+export interface ComparisonCell {
+  accountId: string
+  group: string // 采用的分组（倍率最低的可用分组）
+  groupRatio: number
+  quotaType: number // 0 = 按量计费，1 = 按次计费
+  inputCNY: number // 每 1M token 输入价格（基础档）
+  outputCNY: number // 每 1M token 输出价格（基础档）
+  perCallCNY: number // 按次计费时每次调用的价格
+  tiered: boolean // 是否按提示长度分档计费，对比时只使用基础档价格
+}
+
+// 对比矩阵中的一行（一个模型）
+export interface ComparisonRow {
+  modelName: string
+  provider: ProviderType
+  cells: Record<string, ComparisonCell>
+  cheapestAccountIds: string[] // 每种计费方式中最便宜的站点
+}
+
+// 参与对比的站点数据
+export interface ComparisonSource {
+  account: SiteAccount
+  pricing: PricingResponse
+}
+
+/**
+ * 获取模型在站点上可供当前用户使用的分组
+ * 优先在用户可用分组中选择，站点未返回可用分组时使用模型启用的全部分组
+ */
+export const getUsableGroups = (model: ModelPricing, pricing: PricingResponse): string[] => {
+  const usableGroups = Object.keys(pricing.usable_group || {}).filter(group => group !== '')
+  const enabledGroups = (model.enable_groups || []).filter(group => group !== '')
+  return usableGroups.length > 0
+    ? enabledGroups.filter(group => usableGroups.includes(group))
+    : enabledGroups
+}
+
+/**
+ * 获取模型在站点上倍率最低的可用分组
+ */
+export const getBestGroup = (
+  model: ModelPricing,
+  pricing: PricingResponse
+): { group: string; ratio: number } => {
+  const groupRatio = pricing.group_ratio || {}
+  const candidates = getUsableGroups(model, pricing)
+
+  if (candidates.length === 0) {
+    return { group: 'default', ratio: groupRatio['default'] || 1 }
+  }
+
+  return candidates.reduce(
+    (best, group) => {
+      const ratio = groupRatio[group] || 1
+      return ratio < best.ratio ? { group, ratio } : best
+    },
+    { group: candidates[0], ratio: groupRatio[candidates[0]] || 1 }
+  )
+}
+
+/**
+ * 计算站点上某个模型的真实价格（按站点充值比例换算为人民币）
+ */
+export const calculateComparisonCell = (
+  model: ModelPricing,
+  source: ComparisonSource
+): ComparisonCell => {
+  const { group, ratio } = getBestGroup(model, source.pricing)
+  const exchangeRate = source.account.exchange_rate
+  const price = calculateModelPrice(model, { [group]: ratio }, exchangeRate, group)
+
+  return {
+    accountId: source.account.id,
+    group,
+    groupRatio: ratio,
+    quotaType: model.quota_type,
+    inputCNY: price.inputCNY,
+    outputCNY: price.outputCNY,
+    perCallCNY: (price.perCallPrice || 0) * exchangeRate,
+    tiered: (price.tiers || []).length > 0
+  }
+}
+
+/**
+ * 获取用于比较的价格
+ */
+export const getComparisonValue = (cell: ComparisonCell, metric: ComparisonMetric): number => {
+  if (cell.quotaType !== 0) {
+    return cell.perCallCNY
+  }
+  return metric === 'input' ? cell.inputCNY : cell.outputCNY
+}
+
+/**
+ * 构建模型 × 站点的价格矩阵，按模型名称排序
+ * 按量计费与按次计费无法直接比较，分别标记各自最便宜的站点
+ */
+export const buildComparisonMatrix = (
+  sources: ComparisonSource[],
+  metric: ComparisonMetric
+): ComparisonRow[] => {
+  const rows = new Map<string, ComparisonRow>()
+
+  sources.forEach(source => {
+    if (!Array.isArray(source.pricing.data)) return
+
+    source.pricing.data.forEach(model => {
+      const row = rows.get(model.model_name) || {
+        modelName: model.model_name,
+        provider: identifyProvider(model.model_name),
+        cells: {},
+        cheapestAccountIds: []
+      }
+      row.cells[source.account.id] = calculateComparisonCell(model, source)
+      rows.set(model.model_name, row)
+    })
+  })
+
+  rows.forEach(row => {
+    const cheapest = new Map<number, { value: number; accountIds: string[] }>()
+    Object.values(row.cells).forEach(cell => {
+      const value = getComparisonValue(cell, metric)
+      const current = cheapest.get(cell.quotaType)
+      if (!current || value < current.value) {
+        cheapest.set(cell.quotaType, { value, accountIds: [cell.accountId] })
+      } else if (value === current.value) {
+        current.accountIds.push(cell.accountId)
+      }
+    })
+    // 只有一个站点提供时无需标记
+    row.cheapestAccountIds = Object.keys(row.cells).length > 1
+      ? Array.from(cheapest.values()).flatMap(item => item.accountIds)
+      : []
+  })
+
+  return Array.from(rows.values()).sort((a, b) => a.modelName.localeCompare(b.modelName))
+}
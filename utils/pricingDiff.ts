@@ -0,0 +1,179 @@
+/**
+ * 模型定价变动检测工具
+ */
+
+import type { ModelPricing, PricingResponse } from '../services/apiService'
+import type { PriceChangeField, PriceChangeRecord } from '../types'
+import { formatTierThreshold } from './modelPricing'
+
+// 不含站点和时间信息的变动条目
+export type PricingChange = Omit<PriceChangeRecord, 'id' | 'site_url' | 'site_name' | 'detected_at'>
+
+// 参与比较的模型定价字段
+type ModelPriceField = Exclude<PriceChangeField, 'group_ratio'>
+
+// 仅由较新版本站点返回的倍率字段，两次数据都有时才比较，避免站点升级后误报
+const OPTIONAL_RATIO_FIELDS: ModelPriceField[] = [
+  'cache_ratio',
+  'create_cache_ratio',
+  'image_ratio',
+  'audio_ratio',
+  'audio_completion_ratio'
+]
+
+// 分档计费中参与比较的倍率
+type TierRatioField = 'model_ratio' | 'completion_ratio' | 'cache_ratio'
+const TIER_RATIO_FIELDS: TierRatioField[] = ['model_ratio', 'completion_ratio', 'cache_ratio']
+
+// 浮点误差容忍度
+const EPSILON = 1e-9
+
+/**
+ * 比较单个数值，有变动时返回变动条目
+ */
+const compareValue = (
+  field: PriceChangeField,
+  oldValue: number | undefined,
+  newValue: number | undefined,
+  target: Pick<PricingChange, 'model_name' | 'group' | 'tier_min_prompt_tokens'>
+): PricingChange | null => {
+  const previous = oldValue || 0
+  const next = newValue || 0
+  if (Math.abs(next - previous) <= EPSILON) {
+    return null
+  }
+
+  return {
+    ...target,
+    type: next > previous ? 'increased' : 'decreased',
+    field,
+    old_value: previous,
+    new_value: next,
+    change_percent: previous > 0 ? ((next - previous) / previous) * 100 : undefined
+  }
+}
+
+/**
+ * 按计费方式过滤出有意义的字段：按量计费比较倍率，按次计费比较单价
+ */
+const getComparableFields = (model: ModelPricing): ModelPriceField[] => {
+  return model.quota_type === 0
+    ? ['model_ratio', 'completion_ratio', ...OPTIONAL_RATIO_FIELDS.filter(field => model[field] !== undefined)]
+    : ['model_price']
+}
+
+/**
+ * 获取提示 token 数达到 minPromptTokens 时实际生效的倍率，未命中任何档位时使用模型的基础倍率
+ */
+const getTierRatiosAt = (model: ModelPricing, minPromptTokens: number): Record<TierRatioField, number | undefined> => {
+  const tier = [...(model.tiered_pricing || [])]
+    .sort((a, b) => a.min_prompt_tokens - b.min_prompt_tokens)
+    .filter(item => item.min_prompt_tokens <= minPromptTokens)
+    .pop()
+  return {
+    model_ratio: tier?.model_ratio ?? model.model_ratio,
+    completion_ratio: tier?.completion_ratio ?? model.completion_ratio,
+    cache_ratio: tier?.cache_ratio ?? model.cache_ratio
+  }
+}
+
+/**
+ * 比较分档计费：按两次数据中出现过的每个档位起点，比较该提示长度下实际生效的倍率
+ */
+const diffTiers = (name: string, oldModel: ModelPricing, model: ModelPricing): PricingChange[] => {
+  if (oldModel.quota_type !== 0 || model.quota_type !== 0) {
+    return []
+  }
+  const thresholds = new Set(
+    [...(oldModel.tiered_pricing || []), ...(model.tiered_pricing || [])].map(tier => tier.min_prompt_tokens)
+  )
+  const changes: PricingChange[] = []
+  Array.from(thresholds).sort((a, b) => a - b).forEach(threshold => {
+    const oldRatios = getTierRatiosAt(oldModel, threshold)
+    const newRatios = getTierRatiosAt(model, threshold)
+    TIER_RATIO_FIELDS.forEach(field => {
+      if (oldRatios[field] === undefined || newRatios[field] === undefined) return
+      const change = compareValue(field, oldRatios[field], newRatios[field], {
+        model_name: name,
+        tier_min_prompt_tokens: threshold
+      })
+      if (change) changes.push(change)
+    })
+  })
+  return changes
+}
+
+/**
+ * 比较两次定价数据，返回模型新增 / 移除、模型价格（含缓存、图片、音频和分档倍率）和分组倍率的变动
+ */
+export const diffPricing = (previous: PricingResponse, next: PricingResponse): PricingChange[] => {
+  const changes: PricingChange[] = []
+  const previousModels = new Map((previous.data || []).map(model => [model.model_name, model]))
+  const nextModels = new Map((next.data || []).map(model => [model.model_name, model]))
+
+  nextModels.forEach((model, name) => {
+    const oldModel = previousModels.get(name)
+    if (!oldModel) {
+      changes.push({ model_name: name, type: 'added' })
+      return
+    }
+
+    // 计费方式变化时两边的字段都需要比较；仅新版站点返回的倍率要求两边都存在
+    const fields = new Set([...getComparableFields(oldModel), ...getComparableFields(model)])
+    fields.forEach(field => {
+      if (OPTIONAL_RATIO_FIELDS.includes(field) && (oldModel[field] === undefined || model[field] === undefined)) return
+      const change = compareValue(field, oldModel[field], model[field], { model_name: name })
+      if (change) changes.push(change)
+    })
+    changes.push(...diffTiers(name, oldModel, model))
+  })
+
+  previousModels.forEach((_, name) => {
+    if (!nextModels.has(name)) {
+      changes.push({ model_name: name, type: 'removed' })
+    }
+  })
+
+  const previousGroups = previous.group_ratio || {}
+  const nextGroups = next.group_ratio || {}
+  Object.keys(nextGroups).forEach(group => {
+    if (group === '' || previousGroups[group] === undefined) return
+    const change = compareValue('group_ratio', previousGroups[group], nextGroups[group], { group })
+    if (change) changes.push(change)
+  })
+
+  return changes
+}
+
+/**
+ * 判断变动是否使指定模型变贵（模型自身涨价，或其可用分组倍率上调）
+ */
+export const isPriceIncreaseFor = (change: PricingChange, modelName: string, pricing: PricingResponse): boolean => {
+  if (change.type !== 'increased') {
+    return false
+  }
+  if (change.model_name) {
+    return change.model_name === modelName
+  }
+  const model = (pricing.data || []).find(item => item.model_name === modelName)
+  return !!model && !!change.group && (model.enable_groups || []).includes(change.group)
+}
+
+/**
+ * 获取变动字段的显示名称，分档计费的变动附带档位
+ */
+export const getPriceChangeFieldText = (field?: PriceChangeField, tierMinPromptTokens?: number): string => {
+  const tierPrefix = tierMinPromptTokens !== undefined ? `≥${formatTierThreshold(tierMinPromptTokens)} 档` : ''
+  switch (field) {
+    case 'model_ratio': return `${tierPrefix}模型倍率`
+    case 'completion_ratio': return `${tierPrefix}补全倍率`
+    case 'model_price': return '按次价格'
+    case 'group_ratio': return '分组倍率'
+    case 'cache_ratio': return `${tierPrefix}缓存读取倍率`
+    case 'create_cache_ratio': return '缓存写入倍率'
+    case 'image_ratio': return '图片输入倍率'
+    case 'audio_ratio': return '音频输入倍率'
+    case 'audio_completion_ratio': return '音频输出倍率'
+    default: return ''
+  }
+}
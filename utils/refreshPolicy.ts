@@ -0,0 +1,72 @@
+import type { SiteAccount, AccountRefreshMode } from "../types"
+
+// 允许定时任务略早于计划时间触发的误差（毫秒）
+const DUE_TOLERANCE_MS = 5000
+
+// 最小刷新间隔（秒），chrome.alarms 会将更短的周期限制为 30 秒
+export const MIN_REFRESH_INTERVAL = 30
+
+// 刷新模式显示文本
+export const REFRESH_MODE_LABELS: Record<AccountRefreshMode, string> = {
+  auto: '跟随全局设置',
+  custom: '自定义间隔',
+  manual: '仅手动刷新',
+  paused: '已暂停'
+}
+
+/**
+ * 获取账号的刷新模式，未设置时为 auto
+ */
+export const getRefreshMode = (account: SiteAccount): AccountRefreshMode => {
+  return account.refresh_policy?.mode || 'auto'
+}
+
+/**
+ * 获取账号的后台刷新间隔（秒），不参与后台刷新时返回 null
+ * 旧版本保存的过小间隔按最小刷新间隔处理
+ */
+export const getAccountRefreshInterval = (account: SiteAccount, globalInterval: number): number | null => {
+  const policy = account.refresh_policy
+  switch (getRefreshMode(account)) {
+    case 'custom':
+      return policy?.interval && policy.interval > 0 ? Math.max(policy.interval, MIN_REFRESH_INTERVAL) : globalInterval
+    case 'manual':
+    case 'paused':
+      return null
+    default:
+      return globalInterval
+  }
+}
+
+/**
+ * 判断账号在后台定时刷新时是否到期需要刷新
+ */
+export const isDueForBackgroundRefresh = (
+  account: SiteAccount,
+  globalInterval: number,
+  now: number = Date.now()
+): boolean => {
+  const interval = getAccountRefreshInterval(account, globalInterval)
+  if (interval === null) {
+    return false
+  }
+  return now - (account.last_sync_time || 0) + DUE_TOLERANCE_MS >= interval * 1000
+}
+
+/**
+ * 判断账号是否参与手动触发的批量刷新（暂停的账号除外）
+ */
+export const isIncludedInBulkRefresh = (account: SiteAccount): boolean => {
+  return getRefreshMode(account) !== 'paused'
+}
+
+/**
+ * 计算定时任务的触发间隔（秒）：取所有参与后台刷新账号间隔的最小值，且不小于最小刷新间隔
+ */
+export const getSchedulerInterval = (accounts: SiteAccount[], globalInterval: number): number => {
+  const interval = accounts.reduce((min, account) => {
+    const accountInterval = getAccountRefreshInterval(account, globalInterval)
+    return accountInterval === null ? min : Math.min(min, accountInterval)
+  }, globalInterval)
+  return Math.max(interval, MIN_REFRESH_INTERVAL)
+}
@@ -0,0 +1,135 @@
+import { UI_CONSTANTS } from "../constants/ui"
+import type { SiteAccount, TodayUsageBreakdown, UsageBreakdownEntry } from "../types"
+
+// 明细维度
+export type BreakdownDimension = 'by_model' | 'by_token'
+
+// 跨账号汇总后的明细行
+export interface BreakdownRow {
+  name: string // 模型或令牌名称，缺失时为空字符串
+  requests: number
+  promptTokens: number
+  completionTokens: number
+  consumption: { USD: number; CNY: number }
+  accountCount: number // 涉及的账号数
+  tokensCombined: boolean // 有账号只提供 token 总数（计入提示 token），提示 / 补全无法区分
+}
+
+// 参与拆分统计的日志字段
+interface BreakdownSource {
+  model_name?: string
+  token_name?: string
+  quota?: number
+  prompt_tokens?: number
+  completion_tokens?: number
+}
+
+const createEmptyEntry = (): UsageBreakdownEntry => ({
+  quota: 0,
+  requests: 0,
+  prompt_tokens: 0,
+  completion_tokens: 0
+})
+
+const addToEntry = (target: Record<string, UsageBreakdownEntry>, key: string, entry: UsageBreakdownEntry) => {
+  const current = target[key] || createEmptyEntry()
+  target[key] = {
+    quota: current.quota + entry.quota,
+    requests: current.requests + entry.requests,
+    prompt_tokens: current.prompt_tokens + entry.prompt_tokens,
+    completion_tokens: current.completion_tokens + entry.completion_tokens
+  }
+}
+
+export const createEmptyBreakdown = (): TodayUsageBreakdown => ({
+  by_model: {},
+  by_token: {}
+})
+
+/**
+ * 按模型和令牌拆分日志用量
+ */
+export const buildBreakdownFromLogs = (items: BreakdownSource[]): TodayUsageBreakdown => {
+  const breakdown = createEmptyBreakdown()
+  items.forEach(item => {
+    const entry: UsageBreakdownEntry = {
+      quota: item.quota || 0,
+      requests: 1,
+      prompt_tokens: item.prompt_tokens || 0,
+      completion_tokens: item.completion_tokens || 0
+    }
+    addToEntry(breakdown.by_model, item.model_name || '', entry)
+    addToEntry(breakdown.by_token!, item.token_name || '', entry)
+  })
+  return breakdown
+}
+
+/**
+ * 合并两份明细，任一方缺少令牌维度时结果也不含令牌维度
+ */
+export const mergeBreakdowns = (
+  base: TodayUsageBreakdown | undefined,
+  addition: TodayUsageBreakdown
+): TodayUsageBreakdown => {
+  if (!base) {
+    return addition
+  }
+
+  const byModel = { ...base.by_model }
+  Object.entries(addition.by_model).forEach(([key, entry]) => addToEntry(byModel, key, entry))
+
+  let byToken: Record<string, UsageBreakdownEntry> | undefined
+  if (base.by_token && addition.by_token) {
+    byToken = { ...base.by_token }
+    Object.entries(addition.by_token).forEach(([key, entry]) => addToEntry(byToken!, key, entry))
+  }
+
+  return { by_model: byModel, by_token: byToken }
+}
+
+/**
+ * 汇总多个账号的今日消耗明细，按美元消耗降序排列
+ */
+export const summarizeBreakdown = (accounts: SiteAccount[], dimension: BreakdownDimension): BreakdownRow[] => {
+  const rows = new Map<string, BreakdownRow>()
+
+  accounts.forEach(account => {
+    const entries = account.account_info.today_usage_breakdown?.[dimension]
+    if (!entries) return
+
+    Object.entries(entries).forEach(([name, entry]) => {
+      const usd = entry.quota / UI_CONSTANTS.EXCHANGE_RATE.CONVERSION_FACTOR
+      const row = rows.get(name) || {
+        name,
+        requests: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        consumption: { USD: 0, CNY: 0 },
+        accountCount: 0,
+        tokensCombined: false
+      }
+      row.requests += entry.requests
+      row.promptTokens += entry.prompt_tokens
+      row.completionTokens += entry.completion_tokens
+      row.consumption = {
+        USD: row.consumption.USD + usd,
+        CNY: row.consumption.CNY + usd * account.exchange_rate
+      }
+      row.accountCount += 1
+      row.tokensCombined = row.tokensCombined || !!account.account_info.today_tokens_combined
+      rows.set(name, row)
+    })
+  })
+
+  return Array.from(rows.values()).sort((a, b) => b.consumption.USD - a.consumption.USD)
+}
+
+/**
+ * 判断账号中是否有缺少令牌维度明细的（通过聚合用量接口统计）
+ */
+export const hasMissingTokenBreakdown = (accounts: SiteAccount[]): boolean => {
+  return accounts.some(account => {
+    const breakdown = account.account_info.today_usage_breakdown
+    return !!breakdown && !breakdown.by_token
+  })
+}